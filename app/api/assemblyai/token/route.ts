@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server';
 import { AssemblyAI } from 'assemblyai';
+import { getClinician, openStreamingSession, recordUsage } from '../../../lib/usageMetrics';
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,13 +14,20 @@ export async function GET(request: NextRequest) {
       expires_in: 3600 // 1 hour
     });
 
+    // Each token starts one streaming session; the browser reports its audio against the
+    // usage session opened here when the streaming session stops
+    const clinician = getClinician(request);
+    recordUsage({ engine: 'assemblyAI', clinician, ok: true });
+    const usageSessionId = openStreamingSession({ engine: 'assemblyAI', clinician });
+
     // Return the token
     return new Response(
-      JSON.stringify({ token: tempToken }),
+      JSON.stringify({ token: tempToken, usageSessionId }),
       { headers: { 'Content-Type': 'application/json' } }
     );
   } catch (error) {
     console.error('Error generating AssemblyAI token:', error);
+    recordUsage({ engine: 'assemblyAI', clinician: getClinician(request), ok: false });
     return new Response(
       JSON.stringify({ error: 'Failed to generate token' }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
@@ -1,13 +1,7 @@
 import { NextRequest } from 'next/server';
-import { AssemblyAI } from 'assemblyai';
-import fs from 'fs';
-import path from 'path';
-import os from 'os';
-
-// Initialize AssemblyAI client
-const client = new AssemblyAI({
-  apiKey: process.env.ASSEMBLYAI_API_KEY || '',
-});
+import { describeAudio, UnsupportedAudioError } from '../../../lib/audioTranscode';
+import { isProviderConfigured, parseVocabulary, transcribeFile } from '../../../lib/transcriptionProviders';
+import { getClinician, trackTranscription } from '../../../lib/usageMetrics';
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,8 +10,11 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const audioFile = formData.get('audio') as File;
     const language = formData.get('language') as string || 'en';
+    const diarization = formData.get('diarization') === 'true';
+    const speakersExpected = Number(formData.get('speakersExpected')) || undefined;
+    const vocabulary = parseVocabulary(formData.get('wordBoost'));
     
-    console.log(`AssemblyAI API received language parameter: ${language}`);
+    console.log(`AssemblyAI API received language parameter: ${language}, diarization: ${diarization}`);
     
     if (!audioFile) {
       console.error('No audio file provided');
@@ -29,61 +26,50 @@ export async function POST(request: NextRequest) {
 
     console.log(`Received audio file: ${audioFile.name}, size: ${audioFile.size} bytes`);
 
-    // Convert File to Buffer
-    const arrayBuffer = await audioFile.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    // Save buffer to a temporary file
-    const tempDir = os.tmpdir();
-    const tempFilePath = path.join(tempDir, `audio-${Date.now()}.wav`);
-    
-    fs.writeFileSync(tempFilePath, buffer);
-    console.log(`Saved audio to temporary file: ${tempFilePath}`);
-
     // Check if API key is available
-    if (!process.env.ASSEMBLYAI_API_KEY) {
+    if (!isProviderConfigured('assemblyAINano')) {
       console.error('AssemblyAI API key is not available');
-      fs.unlinkSync(tempFilePath); // Clean up
       return new Response(
         JSON.stringify({ error: 'AssemblyAI API key is not configured' }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
+    // Convert File to Buffer
+    const arrayBuffer = await audioFile.arrayBuffer();
+    const buffer = Buffer.from(arrayBuffer);
+
     // Transcribe the audio using the Nano model (free tier)
     console.log('Sending request to AssemblyAI Nano model');
     console.log(`Language selected: ${language}`);
     
-    // Map language codes to AssemblyAI language codes if needed
-    let languageCode = language;
-    if (language === 'de') {
-      languageCode = 'de'; // German
-    } else if (language === 'en') {
-      languageCode = 'en'; // English (US)
-    }
-    
-    console.log(`Using AssemblyAI language code: ${languageCode}`);
-    
-    const transcript = await client.transcripts.transcribe({
-      audio: tempFilePath,
-      speech_model: 'nano',
-      language_code: languageCode
-    });
-    
-    // Clean up the temporary file
-    fs.unlinkSync(tempFilePath);
+    const result = await trackTranscription(
+      { engine: 'assemblyAINano', clinician: getClinician(request) },
+      () => transcribeFile('assemblyAINano', buffer, { language, diarization, speakersExpected, vocabulary })
+    );
     
-    console.log('Received transcript from AssemblyAI:', transcript.text);
+    console.log('Received transcript from AssemblyAI:', result.text);
     
     return new Response(
       JSON.stringify({ 
-        text: transcript.text,
-        status: transcript.status,
-        id: transcript.id
+        text: result.text,
+        confidence: result.confidence,
+        words: result.words,
+        utterances: result.utterances,
+        audio: result.audio,
+        id: result.id,
+        language: result.language
       }),
       { headers: { 'Content-Type': 'application/json' } }
     );
   } catch (error) {
+    if (error instanceof UnsupportedAudioError) {
+      return new Response(
+        JSON.stringify({ error: error.message, audio: describeAudio(error.format, false) }),
+        { status: 415, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    
     console.error('Error processing AssemblyAI transcription:', error);
     return new Response(
       JSON.stringify({ 
@@ -93,4 +79,4 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: { 'Content-Type': 'application/json' } }
     );
   }
-} 
\ No newline at end of file
+} 
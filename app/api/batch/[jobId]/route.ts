@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { getBatchJob } from '../../../lib/batchJobs';
+
+// Batch jobs live in this server process
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+// Report a batch job's progress and the segments transcribed so far
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = getBatchJob(jobId);
+
+  if (!job) {
+    return new Response(
+      JSON.stringify({ error: 'Batch job not found' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify(job),
+    { headers: { 'Content-Type': 'application/json' } }
+  );
+}
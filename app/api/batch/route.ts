@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server';
+import { describeAudio, UnsupportedAudioError } from '../../lib/audioTranscode';
+import { createBatchJob } from '../../lib/batchJobs';
+import { FileEngine, parseVocabulary } from '../../lib/transcriptionProviders';
+import { getClinician } from '../../lib/usageMetrics';
+import { DEFAULT_LANGUAGE, getEngineLanguageCode } from '../../services/Languages';
+
+// Batch jobs run in this server process after the response is sent
+export const runtime = 'nodejs';
+
+const FILE_ENGINES: FileEngine[] = ['whisper', 'googleSpeech', 'assemblyAINano', 'realtime'];
+
+// Start transcribing an uploaded recording, progress is polled from /api/batch/[jobId]
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const audioFile = formData.get('audio') as File;
+    const engine = formData.get('engine') as FileEngine;
+    const language = formData.get('language') as string || DEFAULT_LANGUAGE;
+    const diarization = formData.get('diarization') === 'true';
+    const vocabulary = parseVocabulary(formData.get('vocabulary'));
+
+    if (!audioFile) {
+      return new Response(
+        JSON.stringify({ error: 'Audio file is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!FILE_ENGINES.includes(engine)) {
+      return new Response(
+        JSON.stringify({ error: `Engine ${engine} cannot transcribe uploaded files` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Batch upload: ${audioFile.name}, size: ${audioFile.size} bytes, engine: ${engine}, language: ${language}`);
+
+    const buffer = Buffer.from(await audioFile.arrayBuffer());
+    const job = createBatchJob(buffer, {
+      engine,
+      language: getEngineLanguageCode(language, engine),
+      diarization,
+      vocabulary,
+      fileName: audioFile.name,
+      clinician: getClinician(request),
+    });
+
+    return new Response(
+      JSON.stringify({ jobId: job.id }),
+      { status: 202, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    if (error instanceof UnsupportedAudioError) {
+      return new Response(
+        JSON.stringify({ error: error.message, audio: describeAudio(error.format, false) }),
+        { status: 415, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error starting batch transcription:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to start batch transcription',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
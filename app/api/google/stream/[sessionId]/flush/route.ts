@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { flushSession } from '../../../../../lib/googleStreamSessions';
+
+// Streaming sessions live in this server process
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ sessionId: string }>;
+}
+
+// Finalize what has been said so far; audio keeps flowing to the session
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { sessionId } = await params;
+
+  if (!flushSession(sessionId)) {
+    return new Response(
+      JSON.stringify({ error: 'Streaming session not found' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server';
+import { closeSession, subscribe, writeAudio, StreamEvent } from '../../../../lib/googleStreamSessions';
+
+// Streaming sessions live in this server process
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ sessionId: string }>;
+}
+
+const notFound = () => new Response(
+  JSON.stringify({ error: 'Streaming session not found' }),
+  { status: 404, headers: { 'Content-Type': 'application/json' } }
+);
+
+// Receive interim and final results as server-sent events
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { sessionId } = await params;
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: StreamEvent) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+          if (event.type === 'end') {
+            unsubscribe?.();
+            controller.close();
+          }
+        } catch {
+          // The browser went away, the session ends on DELETE or idle timeout
+          unsubscribe?.();
+        }
+      };
+
+      unsubscribe = subscribe(sessionId, send);
+      if (!unsubscribe) {
+        send({ type: 'error', message: 'Streaming session not found' });
+        send({ type: 'end' });
+      }
+
+      request.signal.addEventListener('abort', () => {
+        unsubscribe?.();
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+// Append a chunk of 16-bit little-endian PCM to the session; ?seq= numbers the chunks from 0 so
+// ones uploaded side by side are written in order
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { sessionId } = await params;
+  const seq = request.nextUrl.searchParams.get('seq');
+  const sequence = seq === null ? undefined : Number(seq);
+
+  if (sequence !== undefined && !(Number.isInteger(sequence) && sequence >= 0)) {
+    return new Response(
+      JSON.stringify({ error: 'seq must be a non-negative integer' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const pcm = Buffer.from(await request.arrayBuffer());
+
+  if (!writeAudio(sessionId, pcm, sequence)) {
+    return notFound();
+  }
+
+  return new Response(null, { status: 204 });
+}
+
+// End the session; remaining final results are still delivered to the event stream
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { sessionId } = await params;
+
+  if (!closeSession(sessionId)) {
+    return notFound();
+  }
+
+  return new Response(null, { status: 204 });
+}
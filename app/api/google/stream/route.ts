@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { createSession } from '../../../lib/googleStreamSessions';
+import { parseSpeechContexts } from '../../../lib/transcriptionProviders';
+import { getClinician } from '../../../lib/usageMetrics';
+
+// Streaming sessions live in this server process
+export const runtime = 'nodejs';
+
+// Create a streaming recognition session
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const languageCode = typeof body.language === 'string' && body.language ? body.language : 'en-US';
+    const sampleRate = Number(body.sampleRate) || 16000;
+    const diarization = body.diarization === true;
+    const speechContexts = parseSpeechContexts(body.speechContexts);
+
+    const clinician = getClinician(request);
+
+    const sessionId = createSession({ languageCode, sampleRate, diarization, speechContexts, clinician });
+
+    return new Response(
+      JSON.stringify({ sessionId }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error creating Google streaming session:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to create streaming session',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -1,8 +1,7 @@
 import { NextRequest } from 'next/server';
-import fs from 'fs';
-import path from 'path';
-import os from 'os';
-import { SpeechClient } from '@google-cloud/speech';
+import { describeAudio, UnsupportedAudioError } from '../../../lib/audioTranscode';
+import { parseSpeechContexts, transcribeFile } from '../../../lib/transcriptionProviders';
+import { getClinician, trackTranscription } from '../../../lib/usageMetrics';
 
 // Initialize Google Cloud Speech client with explicit credentials path
 export async function POST(request: NextRequest) {
@@ -10,6 +9,9 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const audioFile = formData.get('audio') as File;
     const languageCode = formData.get('language') as string || 'en-US';
+    const diarization = formData.get('diarization') === 'true';
+    const speakersExpected = Number(formData.get('speakersExpected')) || 2;
+    const speechContexts = parseSpeechContexts(formData.get('speechContexts'));
     
     if (!audioFile) {
       return new Response(
@@ -22,57 +24,28 @@ export async function POST(request: NextRequest) {
     const arrayBuffer = await audioFile.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
     
-    // Save buffer to a temporary file
-    const tempDir = os.tmpdir();
-    const tempFilePath = path.join(tempDir, `audio-${Date.now()}.wav`);
-    
-    fs.writeFileSync(tempFilePath, buffer);
-    
-    // Read the file into memory for Google Cloud Speech API
-    const audioBytes = fs.readFileSync(tempFilePath).toString('base64');
-    
-    // Configure the request
-    const audio = {
-      content: audioBytes,
-    };
-    
-    const config = {
-      encoding: 'LINEAR16' as const,
-      sampleRateHertz: 16000,
-      languageCode: languageCode,
-      model: 'default',
-      useEnhanced: true,
-      enableAutomaticPunctuation: true,
-      enableWordTimeOffsets: false,
-    };
-    
-    const googleRequest = {
-      audio: audio,
-      config: config,
-    };
-    
     try {
-      const speechClient = new SpeechClient();
-
       // Detects speech in the audio file
-      const [response] = await speechClient.recognize(googleRequest);
-      
-      // Extract the transcription
-      const transcription = response.results
-        ?.map(result => result.alternatives?.[0]?.transcript)
-        .filter(Boolean)
-        .join('\n');
-      
-      // Clean up the temporary file
-      fs.unlinkSync(tempFilePath);
+      const result = await trackTranscription(
+        { engine: 'googleSpeech', clinician: getClinician(request) },
+        () => transcribeFile('googleSpeech', buffer, { language: languageCode, diarization, speakersExpected, speechContexts })
+      );
       
       return new Response(
         JSON.stringify({ 
-          text: transcription || '',
+          text: result.text,
+          confidence: result.confidence,
+          words: result.words,
+          utterances: result.utterances,
+          audio: result.audio,
         }),
         { headers: { 'Content-Type': 'application/json' } }
       );
     } catch (googleError) {
+      if (googleError instanceof UnsupportedAudioError) {
+        throw googleError;
+      }
+      
       console.error('Google Speech API error:', googleError);
       
       // If Google API fails, return a fallback response
@@ -85,10 +58,17 @@ export async function POST(request: NextRequest) {
       );
     }
   } catch (error) {
+    if (error instanceof UnsupportedAudioError) {
+      return new Response(
+        JSON.stringify({ error: error.message, audio: describeAudio(error.format, false) }),
+        { status: 415, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    
     console.error('Error processing Google Cloud Speech-to-Text:', error);
     return new Response(
       JSON.stringify({ error: 'Failed to transcribe audio' }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { closeStreamingSession, getUsageReport, usageReportToCsv } from '../../lib/usageMetrics';
+
+// The figures are kept on this server's disk
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Usage per day, engine and clinician, as JSON or with ?format=csv as a download; ?engine= and
+// ?clinician= narrow it down
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const report = getUsageReport({
+      from: params.get('from'),
+      to: params.get('to'),
+      engine: params.get('engine'),
+      clinician: params.get('clinician'),
+    });
+
+    if (params.get('format') === 'csv') {
+      return new Response(usageReportToCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="usage-${report.from}-to-${report.to}.csv"`,
+        },
+      });
+    }
+
+    return new Response(
+      JSON.stringify(report),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error reading usage metrics:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to read usage metrics',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+// Record audio a streaming engine sent to its provider without passing through this server,
+// against the usage session opened when its token was issued
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const sessionId = typeof body.sessionId === 'string' ? body.sessionId : '';
+    const audioSeconds = Number(body.audioSeconds);
+
+    if (!Number.isFinite(audioSeconds) || audioSeconds <= 0) {
+      return new Response(
+        JSON.stringify({ error: 'audioSeconds must be a positive number' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!sessionId || !closeStreamingSession(sessionId, audioSeconds)) {
+      return new Response(
+        JSON.stringify({ error: 'Unknown, expired or already reported streaming session' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('Error recording streamed audio:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to record usage' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
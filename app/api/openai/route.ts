@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server';
 import OpenAI from 'openai';
+import { getClinician, recordUsage, trackUsage } from '../../lib/usageMetrics';
 
 // Initialize OpenAI client
 const openai = new OpenAI({
@@ -9,6 +10,7 @@ const openai = new OpenAI({
 export async function POST(request: NextRequest) {
   try {
     const { text, prompt, stream } = await request.json();
+    const clinician = getClinician(request);
 
     if (!text) {
       return new Response(
@@ -22,6 +24,7 @@ export async function POST(request: NextRequest) {
       const systemPrompt = prompt || "You are a helpful assistant.";
       
       // Create a stream from OpenAI
+      const requestStart = Date.now();
       const openaiStream = await openai.chat.completions.create({
         model: 'gpt-3.5-turbo',
         messages: [
@@ -37,6 +40,10 @@ export async function POST(request: NextRequest) {
         temperature: 0.7,
         max_tokens: 500,
         stream: true,
+        stream_options: { include_usage: true }, // the last chunk reports the tokens used
+      }).catch((error) => {
+        recordUsage({ engine: 'openaiChat', clinician, ok: false, latencyMs: Date.now() - requestStart });
+        throw error;
       });
 
       // Create a TransformStream to process the OpenAI stream
@@ -45,11 +52,27 @@ export async function POST(request: NextRequest) {
       // Create a ReadableStream from the OpenAI stream
       const readableStream = new ReadableStream({
         async start(controller) {
-          for await (const chunk of openaiStream) {
-            const content = chunk.choices[0]?.delta?.content || '';
-            if (content) {
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content })}\n\n`));
+          try {
+            for await (const chunk of openaiStream) {
+              const content = chunk.choices[0]?.delta?.content || '';
+              if (content) {
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content })}\n\n`));
+              }
+              if (chunk.usage) {
+                recordUsage({
+                  engine: 'openaiChat',
+                  clinician,
+                  ok: true,
+                  latencyMs: Date.now() - requestStart,
+                  promptTokens: chunk.usage.prompt_tokens,
+                  completionTokens: chunk.usage.completion_tokens,
+                });
+              }
             }
+          } catch (error) {
+            recordUsage({ engine: 'openaiChat', clinician, ok: false, latencyMs: Date.now() - requestStart });
+            controller.error(error);
+            return;
           }
           controller.enqueue(encoder.encode('data: [DONE]\n\n'));
           controller.close();
@@ -69,17 +92,24 @@ export async function POST(request: NextRequest) {
     // For non-streaming responses (legacy support)
     const fullPrompt = prompt ? prompt.replace('....', text) : text;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'user',
-          content: fullPrompt,
-        },
-      ],
-      temperature: 0.7,
-      max_tokens: 500,
-    });
+    const response = await trackUsage(
+      { engine: 'openaiChat', clinician },
+      () => openai.chat.completions.create({
+        model: 'gpt-3.5-turbo',
+        messages: [
+          {
+            role: 'user',
+            content: fullPrompt,
+          },
+        ],
+        temperature: 0.7,
+        max_tokens: 500,
+      }),
+      (completion) => ({
+        promptTokens: completion.usage?.prompt_tokens,
+        completionTokens: completion.usage?.completion_tokens,
+      })
+    );
 
     return new Response(
       JSON.stringify({
@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { getDownloadName, readRecordingAudio } from '../../../../lib/recordingArchive';
+
+// The archive is on this server's disk
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ recordingId: string }>;
+}
+
+// An archived recording's audio; byte ranges let the player seek, ?download=1 saves it as a file
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { recordingId } = await params;
+  const stored = readRecordingAudio(recordingId);
+
+  if (!stored) {
+    return new Response(
+      JSON.stringify({ error: 'Recording not found' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { recording, audio } = stored;
+  const headers: Record<string, string> = {
+    'Content-Type': recording.mimeType,
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, max-age=3600',
+  };
+  if (request.nextUrl.searchParams.get('download')) {
+    headers['Content-Disposition'] = `attachment; filename="${getDownloadName(recording)}"`;
+  }
+
+  // A single byte range such as "bytes=1000-" or "bytes=1000-1999"
+  const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') || '');
+  if (range && (range[1] || range[2])) {
+    const start = range[1] ? Number(range[1]) : Math.max(0, audio.length - Number(range[2]));
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), audio.length - 1) : audio.length - 1;
+
+    if (start >= audio.length || start > end) {
+      return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${audio.length}` } });
+    }
+
+    return new Response(new Uint8Array(audio.subarray(start, end + 1)), {
+      status: 206,
+      headers: { ...headers, 'Content-Range': `bytes ${start}-${end}/${audio.length}`, 'Content-Length': String(end - start + 1) },
+    });
+  }
+
+  return new Response(new Uint8Array(audio), { headers: { ...headers, 'Content-Length': String(audio.length) } });
+}
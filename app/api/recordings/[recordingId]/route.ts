@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { deleteRecording, getRecording, updateRecordingSegments } from '../../../lib/recordingArchive';
+
+// The archive is on this server's disk
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ recordingId: string }>;
+}
+
+const notFound = () => new Response(
+  JSON.stringify({ error: 'Recording not found' }),
+  { status: 404, headers: { 'Content-Type': 'application/json' } }
+);
+
+// An archived recording's details and transcript
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { recordingId } = await params;
+  const recording = getRecording(recordingId);
+
+  if (!recording) return notFound();
+
+  return new Response(
+    JSON.stringify(recording),
+    { headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+// Replace the transcript kept with a recording
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { recordingId } = await params;
+
+  try {
+    const { segments, engines = [] } = await request.json();
+    if (!Array.isArray(segments) || !Array.isArray(engines)) {
+      return new Response(
+        JSON.stringify({ error: 'segments and engines must be arrays' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const recording = updateRecordingSegments(recordingId, segments, engines);
+    if (!recording) return notFound();
+
+    return new Response(
+      JSON.stringify(recording),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error updating recording transcript:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to update the recording transcript',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+// Delete an archived recording before its retention ends
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { recordingId } = await params;
+
+  if (!deleteRecording(recordingId)) return notFound();
+
+  return new Response(
+    JSON.stringify({ deleted: recordingId }),
+    { headers: { 'Content-Type': 'application/json' } }
+  );
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { describeAudio, UnsupportedAudioError } from '../../lib/audioTranscode';
+import { archiveRecording, getRetentionDays, listRecordings } from '../../lib/recordingArchive';
+
+// The archive is on this server's disk
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Archive a session recording with its transcript
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const audioFile = formData.get('audio') as File;
+    const segments = JSON.parse(formData.get('segments') as string || '[]');
+    const engines = JSON.parse(formData.get('engines') as string || '[]');
+    const language = formData.get('language') as string || undefined;
+    const startedAt = Number(formData.get('startedAt')) || undefined;
+
+    if (!audioFile) {
+      return new Response(
+        JSON.stringify({ error: 'Audio file is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!Array.isArray(segments) || !Array.isArray(engines)) {
+      return new Response(
+        JSON.stringify({ error: 'segments and engines must be JSON arrays' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Archiving session recording: ${audioFile.size} bytes, ${segments.length} segments`);
+
+    const buffer = Buffer.from(await audioFile.arrayBuffer());
+    const recording = await archiveRecording(buffer, { segments, engines, language, startedAt });
+
+    return new Response(
+      JSON.stringify(recording),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    if (error instanceof UnsupportedAudioError) {
+      return new Response(
+        JSON.stringify({ error: error.message, audio: describeAudio(error.format, false) }),
+        { status: 415, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error archiving recording:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to archive recording',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+// List the archived recordings, newest first
+export async function GET() {
+  try {
+    return new Response(
+      JSON.stringify({ recordings: listRecordings(), retentionDays: getRetentionDays() }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error listing recordings:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to list recordings',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
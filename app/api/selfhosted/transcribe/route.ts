@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import { describeAudio, UnsupportedAudioError } from '../../../lib/audioTranscode';
+import { isProviderConfigured, parseVocabulary, transcribeFile } from '../../../lib/transcriptionProviders';
+import { getClinician, trackTranscription } from '../../../lib/usageMetrics';
+
+export async function POST(request: NextRequest) {
+  try {
+    console.log('Self-hosted transcription route called');
+
+    const formData = await request.formData();
+    const audioFile = formData.get('audio') as File;
+    const language = formData.get('language') as string || 'en';
+    const vocabulary = parseVocabulary(formData.get('vocabulary'));
+
+    if (!audioFile) {
+      console.error('No audio file provided');
+      return new Response(
+        JSON.stringify({ error: 'Audio file is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Check if the server is configured
+    if (!isProviderConfigured('realtime')) {
+      console.error('Self-hosted transcription server is not configured');
+      return new Response(
+        JSON.stringify({ error: 'SELF_HOSTED_STT_URL is not configured' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Received audio file: ${audioFile.name}, size: ${audioFile.size} bytes, language: ${language}`);
+
+    // Convert File to Buffer
+    const arrayBuffer = await audioFile.arrayBuffer();
+    const buffer = Buffer.from(arrayBuffer);
+
+    const result = await trackTranscription(
+      { engine: 'realtime', clinician: getClinician(request) },
+      () => transcribeFile('realtime', buffer, { language, vocabulary })
+    );
+
+    console.log('Received transcript from self-hosted server:', result.text);
+
+    return new Response(
+      JSON.stringify({ text: result.text, words: result.words, audio: result.audio, language: result.language }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    if (error instanceof UnsupportedAudioError) {
+      return new Response(
+        JSON.stringify({ error: error.message, audio: describeAudio(error.format, false) }),
+        { status: 415, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error processing self-hosted transcription request:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to transcribe audio',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
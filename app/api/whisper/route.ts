@@ -1,11 +1,7 @@
 import { NextRequest } from 'next/server';
-import OpenAI from 'openai';
-import { Readable } from 'stream';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { describeAudio, UnsupportedAudioError } from '../../lib/audioTranscode';
+import { isProviderConfigured, parseVocabulary, transcribeFile } from '../../lib/transcriptionProviders';
+import { getClinician, trackTranscription } from '../../lib/usageMetrics';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,6 +10,8 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const audioFile = formData.get('audio') as File;
     const language = formData.get('language') as string || 'en';
+    const prompt = formData.get('prompt') as string || undefined;
+    const vocabulary = parseVocabulary(formData.get('vocabulary'));
 
     if (!audioFile) {
       console.error('No audio file provided');
@@ -26,7 +24,7 @@ export async function POST(request: NextRequest) {
     console.log(`Received audio file: ${audioFile.name}, size: ${audioFile.size} bytes, language: ${language}`);
 
     // Check if API key is available
-    if (!process.env.OPENAI_API_KEY) {
+    if (!isProviderConfigured('whisper')) {
       console.error('OpenAI API key is not available');
       return new Response(
         JSON.stringify({ error: 'OpenAI API key is not configured' }),
@@ -38,28 +36,28 @@ export async function POST(request: NextRequest) {
     const arrayBuffer = await audioFile.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
-    // Create a readable stream from the buffer
-    const stream = new Readable();
-    stream.push(buffer);
-    stream.push(null);
-
     // Call Whisper API
     console.log('Sending request to OpenAI Whisper API');
-    console.log(`Using language: ${language}`);
-    const response = await openai.audio.transcriptions.create({
-      file: new File([buffer], 'audio.wav', { type: 'audio/wav' }),
-      model: 'whisper-1',
-      language,
-      response_format: 'json',
-    });
+    console.log(`Using language: ${language}, context: ${prompt ? prompt.length : 0} characters, vocabulary: ${vocabulary.length} terms`);
+    const result = await trackTranscription(
+      { engine: 'whisper', clinician: getClinician(request) },
+      () => transcribeFile('whisper', buffer, { language, prompt, vocabulary })
+    );
 
-    console.log('Received transcript from Whisper:', response.text);
+    console.log('Received transcript from Whisper:', result.text);
     
     return new Response(
-      JSON.stringify({ text: response.text }),
+      JSON.stringify({ text: result.text, words: result.words, audio: result.audio, language: result.language }),
       { headers: { 'Content-Type': 'application/json' } }
     );
   } catch (error) {
+    if (error instanceof UnsupportedAudioError) {
+      return new Response(
+        JSON.stringify({ error: error.message, audio: describeAudio(error.format, false) }),
+        { status: 415, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    
     console.error('Error processing Whisper request:', error);
     return new Response(
       JSON.stringify({ 
@@ -69,4 +67,4 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: { 'Content-Type': 'application/json' } }
     );
   }
-} 
\ No newline at end of file
+} 
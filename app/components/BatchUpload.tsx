@@ -0,0 +1,90 @@
+'use client';
+
+import { useRef } from 'react';
+import { FaFileUpload, FaSpinner } from 'react-icons/fa';
+import { BatchProgress } from '../services/BatchTranscriptionService';
+
+interface BatchUploadProps {
+  progress: BatchProgress | null;
+  disabled?: boolean;
+  engineName: string;
+  onFileSelected: (file: File) => void;
+  onCancel: () => void;
+}
+
+// What the user sees for each job status
+const STATUS_LABELS: Record<BatchProgress['status'], string> = {
+  uploading: 'Uploading recording...',
+  queued: 'Waiting to start...',
+  decoding: 'Decoding audio...',
+  transcribing: 'Transcribing...',
+  done: 'Transcription complete',
+  error: 'Transcription failed',
+};
+
+const BatchUpload = ({ progress, disabled, engineName, onFileSelected, onCancel }: BatchUploadProps) => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const running = progress !== null && progress.status !== 'done' && progress.status !== 'error';
+  const percent = progress && progress.totalChunks > 0
+    ? Math.round((progress.completedChunks / progress.totalChunks) * 100)
+    : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <input
+          ref={inputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFileSelected(file);
+            // Allow picking the same file again
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled || running}
+          className="flex items-center px-4 py-2 rounded-md bg-teal-600 text-white hover:bg-teal-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {running ? <FaSpinner className="animate-spin mr-2" /> : <FaFileUpload className="mr-2" />}
+          Upload Recording
+        </button>
+        {running && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-2 rounded-md text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200"
+          >
+            Cancel
+          </button>
+        )}
+        <span className="text-sm text-gray-500">Transcribed with {engineName}</span>
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+            <span>{STATUS_LABELS[progress.status]}</span>
+            {progress.totalChunks > 0 && (
+              <span>
+                {progress.completedChunks} / {progress.totalChunks} parts
+                {progress.durationMs ? ` of ${Math.round(progress.durationMs / 60000)} min` : ''}
+              </span>
+            )}
+          </div>
+          <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-300 ${progress.status === 'error' ? 'bg-red-500' : 'bg-teal-500'}`}
+              style={{ width: `${progress.status === 'done' ? 100 : percent}%` }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchUpload;
@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { FaPlay, FaStop, FaCalculator, FaSave, FaTimes, FaCopy } from 'react-icons/fa';
+import { getEngineInfo, getEnginesWith, SpeechRecognitionServiceInstance, STTApi } from '../services/SpeechRecognitionService';
+import createComparisonService, {
+  ComparisonEngineRun,
+  ComparisonEngineScore,
+  ComparisonRecord,
+  ComparisonServiceInstance,
+  ComparisonStoreInstance,
+  createComparisonRecord,
+  createComparisonStore,
+  scoreRun,
+} from '../services/ComparisonService';
+
+interface ComparisonPanelProps {
+  speechService: SpeechRecognitionServiceInstance | null;
+  language: string;
+  disabled?: boolean;
+  onRunningChange?: (running: boolean) => void;
+}
+
+// Session time as m:ss
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+// Error rate as a percentage
+const formatRate = (rate: number): string => `${(rate * 100).toFixed(1)}%`;
+
+// Latency in seconds, when there is one
+const formatLatency = (ms: number | null): string => (ms === null ? '–' : `${(ms / 1000).toFixed(1)}s`);
+
+const ComparisonPanel = ({ speechService, language, disabled, onRunningChange }: ComparisonPanelProps) => {
+  // Engines that can listen to the shared capture together
+  const engines = getEnginesWith('sharedCapture');
+
+  const [selected, setSelected] = useState<STTApi[]>(['whisper', 'assemblyAINano']);
+  const [running, setRunning] = useState<boolean>(false);
+  const [runs, setRuns] = useState<ComparisonEngineRun[]>([]);
+  const [reference, setReference] = useState<string>('');
+  const [label, setLabel] = useState<string>('');
+  const [scores, setScores] = useState<ComparisonEngineScore[] | null>(null);
+  const [records, setRecords] = useState<ComparisonRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const comparisonRef = useRef<ComparisonServiceInstance | null>(null);
+  const storeRef = useRef<ComparisonStoreInstance | null>(null);
+
+  // Saved comparisons
+  useEffect(() => {
+    storeRef.current = createComparisonStore();
+    setRecords(storeRef.current.getRecords());
+    return storeRef.current.subscribe(setRecords);
+  }, []);
+
+  // Release the microphone if the panel goes away mid-comparison
+  useEffect(() => {
+    return () => {
+      comparisonRef.current?.stop();
+    };
+  }, []);
+
+  const toggleEngine = (api: STTApi, enabled: boolean) => {
+    setSelected((current) => (enabled ? [...current, api] : current.filter((entry) => entry !== api)));
+  };
+
+  const handleStart = async () => {
+    if (!speechService) return;
+
+    // The comparison shares the speech service's microphone capture
+    if (!comparisonRef.current) {
+      comparisonRef.current = createComparisonService({
+        speechService,
+        onUpdate: (updated) => setRuns(updated),
+        debug: true,
+      });
+    }
+
+    setError(null);
+    setScores(null);
+    try {
+      await comparisonRef.current.start(selected);
+      setRunning(true);
+      onRunningChange?.(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The comparison could not be started');
+    }
+  };
+
+  const handleStop = () => {
+    comparisonRef.current?.stop();
+    setRunning(false);
+    onRunningChange?.(false);
+  };
+
+  const handleScore = () => {
+    setScores(runs.map((run) => scoreRun(run, reference)));
+  };
+
+  const handleSave = () => {
+    if (!storeRef.current || !comparisonRef.current) return;
+
+    storeRef.current.addRecord(createComparisonRecord(runs, reference, {
+      language,
+      durationMs: comparisonRef.current.getDuration(),
+      label: label.trim() || undefined,
+    }));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Engine selection */}
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {engines.map((engine) => (
+          <label key={engine.id} className="inline-flex items-center">
+            <input
+              type="checkbox"
+              className="form-checkbox h-4 w-4 text-teal-600"
+              checked={selected.includes(engine.id)}
+              onChange={(e) => toggleEngine(engine.id, e.target.checked)}
+              disabled={running}
+            />
+            <span className="ml-2">{engine.name}</span>
+          </label>
+        ))}
+        {running ? (
+          <button
+            onClick={handleStop}
+            className="ml-auto flex items-center px-3 py-2 rounded-md bg-red-500 text-white hover:bg-red-600"
+          >
+            <FaStop className="mr-2" />
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={disabled || !speechService || selected.length < 2}
+            className="ml-auto flex items-center px-3 py-2 rounded-md bg-teal-600 text-white hover:bg-teal-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <FaPlay className="mr-2" />
+            Compare
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {/* Transcripts side by side */}
+      {runs.length > 0 && (
+        <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${runs.length}, minmax(0, 1fr))` }}>
+          {runs.map((run) => (
+            <div key={run.engine} className="p-3 rounded-md border border-teal-200 bg-white dark:bg-gray-800 dark:border-teal-800 text-sm space-y-2">
+              <div className="flex items-center justify-between font-medium text-teal-700 dark:text-teal-400">
+                <span>{getEngineInfo(run.engine).name}</span>
+                {!running && run.segments.length > 0 && (
+                  <button
+                    onClick={() => setReference(scoreRun(run, '').transcript)}
+                    className="text-gray-500 hover:text-teal-600"
+                    title="Use as the starting point of the reference"
+                  >
+                    <FaCopy />
+                  </button>
+                )}
+              </div>
+              <div className="text-xs text-gray-500">
+                Latency {formatLatency(scoreRun(run, '').averageLatencyMs)}
+                {run.failures > 0 && <span className="text-red-500"> · {run.failures} failed</span>}
+              </div>
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {[...run.segments].sort((a, b) => a.startTime - b.startTime).map((segment) => (
+                  <p key={segment.id} className={segment.status === 'interim' ? 'italic text-gray-400' : ''}>
+                    <span className="text-gray-400 mr-1">{formatTime(segment.startTime)}</span>
+                    {segment.text}
+                  </p>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Reference and scoring */}
+      {runs.length > 0 && !running && (
+        <div className="space-y-2">
+          <label htmlFor="comparison-reference" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Corrected reference transcript
+          </label>
+          <textarea
+            id="comparison-reference"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            className="w-full p-2 border border-teal-300 rounded-md min-h-[80px] bg-white dark:bg-gray-800 dark:border-teal-700 text-sm"
+            placeholder="What was actually said, as corrected by the clinician"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={handleScore}
+              disabled={!reference.trim()}
+              className="flex items-center px-3 py-2 rounded-md bg-teal-600 text-white text-sm hover:bg-teal-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              <FaCalculator className="mr-2" />
+              Score
+            </button>
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label, e.g. clinic or room"
+              className="p-2 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700 text-sm"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!scores}
+              className="flex items-center px-3 py-2 rounded-md text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 disabled:opacity-50"
+            >
+              <FaSave className="mr-2" />
+              Save result
+            </button>
+          </div>
+        </div>
+      )}
+
+      {scores && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1">Engine</th>
+              <th>WER</th>
+              <th>CER</th>
+              <th>Sub / Del / Ins</th>
+              <th>Latency</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scores.map((score) => (
+              <tr key={score.engine} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="py-1">{getEngineInfo(score.engine).name}</td>
+                <td>{formatRate(score.wer.rate)}</td>
+                <td>{formatRate(score.cer.rate)}</td>
+                <td>{score.wer.substitutions} / {score.wer.deletions} / {score.wer.insertions}</td>
+                <td>{formatLatency(score.averageLatencyMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* Saved comparisons */}
+      {records.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Saved comparisons</h4>
+          {records.map((record) => (
+            <div key={record.id} className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+              <span className="whitespace-nowrap">{new Date(record.createdAt).toLocaleString()}</span>
+              {record.label && <span className="font-medium">{record.label}</span>}
+              <span className="flex-1">
+                {record.scores
+                  .map((score) => `${getEngineInfo(score.engine).name} ${formatRate(score.wer.rate)} WER, ${formatLatency(score.averageLatencyMs)}`)
+                  .join(' · ')}
+              </span>
+              <button
+                onClick={() => storeRef.current?.removeRecord(record.id)}
+                className="hover:text-red-600"
+                aria-label="Remove saved comparison"
+              >
+                <FaTimes />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPanel;
@@ -0,0 +1,51 @@
+'use client';
+
+import { FaExchangeAlt } from 'react-icons/fa';
+import { EngineHandover, getEngineInfo } from '../services/SpeechRecognitionService';
+import { EngineRun } from '../services/TranscriptSegment';
+
+interface EngineHandoverNoticeProps {
+  handovers: EngineHandover[];
+  runs: EngineRun[]; // which engine transcribed which part of the session
+}
+
+// Session time as m:ss
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+const EngineHandoverNotice = ({ handovers, runs }: EngineHandoverNoticeProps) => {
+  if (handovers.length === 0) return null;
+
+  return (
+    <div className="space-y-2 p-3 rounded-md border border-amber-300 bg-amber-50 text-amber-900 dark:bg-amber-900/20 dark:border-amber-800 dark:text-amber-200 text-sm">
+      {handovers.map((handover, index) => (
+        <div key={index} className="flex items-start">
+          <FaExchangeAlt className="mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            <strong>{formatTime(handover.atMs)}</strong>{' '}
+            {handover.to
+              ? `Switched from ${getEngineInfo(handover.from).name} to ${getEngineInfo(handover.to).name}.`
+              : `No other engine could take over from ${getEngineInfo(handover.from).name}.`}{' '}
+            <span className="text-amber-700 dark:text-amber-300">{handover.reason}</span>
+          </span>
+        </div>
+      ))}
+
+      {runs.length > 1 && (
+        <div className="pt-2 border-t border-amber-200 dark:border-amber-800">
+          <span className="font-medium">Transcribed by: </span>
+          {runs.map((run, index) => (
+            <span key={index}>
+              {index > 0 && ' · '}
+              {formatTime(run.startTime)}–{formatTime(run.endTime)} {getEngineInfo(run.engine).name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EngineHandoverNotice;
@@ -0,0 +1,81 @@
+'use client';
+
+import { FaArrowDown, FaArrowUp } from 'react-icons/fa';
+import { EngineInfo, STTApi } from '../services/SpeechRecognitionService';
+
+interface FailoverChainEditorProps {
+  chain: STTApi[];
+  engines: EngineInfo[]; // engines that may be added to the chain
+  disabled?: boolean;
+  onChange: (chain: STTApi[]) => void;
+}
+
+const FailoverChainEditor = ({ chain, engines, disabled, onChange }: FailoverChainEditorProps) => {
+  // Engines in the chain first, in chain order, then the rest
+  const ordered = [
+    ...chain.map((id) => engines.find((engine) => engine.id === id)).filter((engine): engine is EngineInfo => Boolean(engine)),
+    ...engines.filter((engine) => !chain.includes(engine.id)),
+  ];
+
+  const move = (id: STTApi, by: number) => {
+    const index = chain.indexOf(id);
+    const target = index + by;
+    if (index === -1 || target < 0 || target >= chain.length) return;
+
+    const updated = [...chain];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onChange(updated);
+  };
+
+  const toggle = (id: STTApi, enabled: boolean) => {
+    onChange(enabled ? [...chain, id] : chain.filter((entry) => entry !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        When the engine in use keeps failing, the session continues with the next working engine in this order.
+      </p>
+      <ol className="space-y-1">
+        {ordered.map((engine) => {
+          const index = chain.indexOf(engine.id);
+          return (
+            <li key={engine.id} className="flex items-center gap-2 text-sm">
+              <label className="inline-flex items-center flex-1">
+                <input
+                  type="checkbox"
+                  className="form-checkbox h-4 w-4 text-teal-600"
+                  checked={index !== -1}
+                  onChange={(e) => toggle(engine.id, e.target.checked)}
+                  disabled={disabled}
+                />
+                <span className="ml-2">
+                  {index !== -1 && <span className="text-gray-500 mr-1">{index + 1}.</span>}
+                  {engine.name}
+                </span>
+              </label>
+              <button
+                onClick={() => move(engine.id, -1)}
+                disabled={disabled || index <= 0}
+                className="p-1 rounded text-gray-600 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-700 disabled:opacity-30"
+                aria-label={`Move ${engine.name} up`}
+              >
+                <FaArrowUp />
+              </button>
+              <button
+                onClick={() => move(engine.id, 1)}
+                disabled={disabled || index === -1 || index === chain.length - 1}
+                className="p-1 rounded text-gray-600 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-700 disabled:opacity-30"
+                aria-label={`Move ${engine.name} down`}
+              >
+                <FaArrowDown />
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default FailoverChainEditor;
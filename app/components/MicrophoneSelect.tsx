@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AudioInputDevice, listAudioInputDevices } from '../services/AudioCaptureService';
+
+interface MicrophoneSelectProps {
+  deviceId: string | null; // null for the system default
+  listening: boolean; // device names become available once the microphone has been allowed
+  disabled?: boolean;
+  onChange: (deviceId: string | null) => void;
+}
+
+const MicrophoneSelect = ({ deviceId, listening, disabled, onChange }: MicrophoneSelectProps) => {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+
+  // Follow microphones being plugged in and out
+  useEffect(() => {
+    const refresh = () => {
+      listAudioInputDevices()
+        .then(setDevices)
+        .catch((error) => console.error('Error listing microphones:', error));
+    };
+
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    };
+  }, [listening]);
+
+  const connected = !deviceId || devices.some((device) => device.deviceId === deviceId);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <label htmlFor="microphone" className="text-gray-600 dark:text-gray-400">Microphone:</label>
+      <select
+        id="microphone"
+        value={deviceId ?? ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        disabled={disabled}
+        className="p-2 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700 text-sm max-w-full"
+      >
+        <option value="">System default</option>
+        {devices.map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `Microphone ${index + 1}`}
+          </option>
+        ))}
+        {!connected && deviceId && <option value={deviceId}>Saved microphone (not connected)</option>}
+      </select>
+      {!connected && (
+        <span className="text-amber-600 dark:text-amber-400">The saved microphone is not connected; the default one will be used.</span>
+      )}
+    </div>
+  );
+};
+
+export default MicrophoneSelect;
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { FaPlus, FaTrash } from 'react-icons/fa';
+import { DEFAULT_PROFILE_ID, PreprocessingConfig, PreprocessingProfile } from '../services/AudioPreprocessing';
+
+interface PreprocessingSettingsProps {
+  profiles: PreprocessingProfile[];
+  activeProfile: PreprocessingProfile;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onSave: (profile: PreprocessingProfile) => void;
+  onRemove: (id: string) => void;
+}
+
+const PreprocessingSettings = ({ profiles, activeProfile, disabled, onSelect, onSave, onRemove }: PreprocessingSettingsProps) => {
+  const [newName, setNewName] = useState<string>('');
+  const config = activeProfile.config;
+
+  const update = (changes: Partial<PreprocessingConfig>) => {
+    onSave({ ...activeProfile, config: { ...config, ...changes } });
+  };
+
+  // A new profile starts from the settings of the active one
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    const id = `profile-${Date.now().toString(36)}`;
+    onSave({ id, name, config });
+    onSelect(id);
+    setNewName('');
+  };
+
+  const checkbox = (key: keyof PreprocessingConfig, label: string) => (
+    <label className="inline-flex items-center text-sm">
+      <input
+        type="checkbox"
+        className="form-checkbox h-4 w-4 text-teal-600"
+        checked={Boolean(config[key])}
+        onChange={(e) => update({ [key]: e.target.checked })}
+        disabled={disabled}
+      />
+      <span className="ml-2">{label}</span>
+    </label>
+  );
+
+  const slider = (key: keyof PreprocessingConfig, label: string, min: number, max: number, unit: string, enabled: boolean) => (
+    <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+      <span className="w-28">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={1}
+        value={Number(config[key])}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        disabled={disabled || !enabled}
+        className="flex-1 accent-teal-600"
+      />
+      <span className="w-16 text-right">{config[key]} {unit}</span>
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Applied to the microphone before any engine hears it; changes take effect straight away. Web Speech does its own capture and is not affected.
+      </p>
+
+      {/* Workstation profile */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label htmlFor="preprocessing-profile" className="text-gray-600 dark:text-gray-400">Workstation profile:</label>
+        <select
+          id="preprocessing-profile"
+          value={activeProfile.id}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled}
+          className="p-2 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700 text-sm"
+        >
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onRemove(activeProfile.id)}
+          disabled={disabled || activeProfile.id === DEFAULT_PROFILE_ID}
+          className="p-2 rounded text-gray-600 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-700 disabled:opacity-30"
+          aria-label={`Delete profile ${activeProfile.name}`}
+        >
+          <FaTrash />
+        </button>
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleCreate();
+          }}
+          placeholder="e.g. Room 3"
+          disabled={disabled}
+          className="flex-1 min-w-[8rem] p-2 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700 text-sm"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={disabled || !newName.trim()}
+          className="flex items-center px-3 py-2 rounded-md bg-teal-600 text-white text-sm hover:bg-teal-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <FaPlus className="mr-1" />
+          New profile
+        </button>
+      </div>
+
+      {/* Processing the browser does on the microphone */}
+      <div className="flex flex-wrap gap-4">
+        {checkbox('echoCancellation', 'Echo cancellation')}
+        {checkbox('noiseSuppression', 'Browser noise suppression')}
+        {checkbox('autoGainControl', 'Browser gain control')}
+      </div>
+
+      {/* Processing on the captured audio */}
+      <div className="space-y-2">
+        {checkbox('highPass', 'High-pass filter (HVAC rumble, table knocks)')}
+        {slider('highPassHz', 'Cutoff', 20, 300, 'Hz', config.highPass)}
+      </div>
+      <div className="space-y-2">
+        {checkbox('noiseReduction', 'Noise reduction')}
+        {slider('noiseReductionDb', 'Strength', 3, 30, 'dB', config.noiseReduction)}
+      </div>
+      <div className="space-y-2">
+        {checkbox('normalize', 'Normalize level (quiet speakers, with a peak limiter)')}
+        {slider('targetLevelDb', 'Target level', -40, -6, 'dBFS', config.normalize)}
+        {slider('maxGainDb', 'Maximum gain', 0, 30, 'dB', config.normalize)}
+        {slider('limiterDb', 'Peak ceiling', -12, 0, 'dBFS', config.normalize)}
+      </div>
+    </div>
+  );
+};
+
+export default PreprocessingSettings;
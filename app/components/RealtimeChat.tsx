@@ -43,9 +43,7 @@ const RealtimeChat = ({ systemPrompt = "You are a helpful assistant." }: Realtim
         chatServiceRef.current.abort();
       }
       
-      if (speechServiceRef.current && speechServiceRef.current.isListening()) {
-        speechServiceRef.current.stop();
-      }
+      speechServiceRef.current?.dispose();
     };
   }, []);
   
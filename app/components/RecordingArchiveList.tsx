@@ -0,0 +1,77 @@
+'use client';
+
+import { FaDownload, FaPlay, FaTrash } from 'react-icons/fa';
+import { ArchivedRecording } from '../services/RecordingArchiveService';
+
+interface RecordingArchiveListProps {
+  recordings: ArchivedRecording[];
+  retentionDays: number; // 0 when recordings are kept forever
+  activeId: string | null; // the recording loaded for playback
+  disabled?: boolean;
+  getDownloadUrl: (id: string) => string;
+  onPlay: (recording: ArchivedRecording) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatSize = (bytes: number) => (bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`);
+
+const formatLength = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const RecordingArchiveList = ({ recordings, retentionDays, activeId, disabled, getDownloadUrl, onPlay, onDelete }: RecordingArchiveListProps) => {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Every session&apos;s audio is kept on the server with its transcript
+        {retentionDays > 0 ? ` for ${retentionDays} days` : ''}.
+      </p>
+      {recordings.length === 0 ? (
+        <p className="text-sm text-gray-500">No archived recordings.</p>
+      ) : (
+        <ul className="space-y-1">
+          {recordings.map((recording) => (
+            <li
+              key={recording.id}
+              className={`flex flex-wrap items-center gap-2 text-sm p-2 rounded ${recording.id === activeId ? 'bg-teal-100 dark:bg-teal-900/40' : ''}`}
+            >
+              <span className="flex-1 min-w-[12rem]">
+                {new Date(recording.startedAt ?? recording.createdAt).toLocaleString()}
+                <span className="text-gray-500 ml-2">
+                  {formatLength(recording.durationMs)} · {recording.segmentCount} segments · {recording.format.toUpperCase()} {formatSize(recording.size)}
+                  {recording.expiresAt && ` · until ${new Date(recording.expiresAt).toLocaleDateString()}`}
+                </span>
+              </span>
+              <button
+                onClick={() => onPlay(recording)}
+                disabled={disabled}
+                className="p-1 rounded text-teal-700 hover:bg-gray-200 dark:text-teal-400 dark:hover:bg-gray-700 disabled:opacity-30"
+                aria-label="Play recording"
+              >
+                <FaPlay />
+              </button>
+              <a
+                href={getDownloadUrl(recording.id)}
+                className="p-1 rounded text-gray-600 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-700"
+                aria-label="Download recording"
+              >
+                <FaDownload />
+              </a>
+              <button
+                onClick={() => onDelete(recording.id)}
+                disabled={disabled}
+                className="p-1 rounded text-gray-600 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-700 disabled:opacity-30"
+                aria-label="Delete recording"
+              >
+                <FaTrash />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RecordingArchiveList;
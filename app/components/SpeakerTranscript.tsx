@@ -0,0 +1,80 @@
+'use client';
+
+import { FaUserMd, FaUser, FaUsers } from 'react-icons/fa';
+import { TranscriptSegment } from '../services/TranscriptSegment';
+import { SpeakerRole, SpeakerRoleMap, SPEAKER_ROLE_LABELS, getSpeakers, resolveSegmentRole } from '../services/SpeakerRoles';
+
+interface SpeakerTranscriptProps {
+  segments: TranscriptSegment[];
+  roles: SpeakerRoleMap;
+  onRoleChange: (speaker: string, role: SpeakerRole) => void;
+}
+
+// Badge colour per role
+const ROLE_STYLES: Record<SpeakerRole, string> = {
+  clinician: 'bg-teal-100 text-teal-800 dark:bg-teal-900/40 dark:text-teal-300',
+  patient: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  other: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const RoleIcon = ({ role }: { role: SpeakerRole }) => {
+  switch (role) {
+    case 'clinician':
+      return <FaUserMd className="mr-1" />;
+    case 'patient':
+      return <FaUser className="mr-1" />;
+    default:
+      return <FaUsers className="mr-1" />;
+  }
+};
+
+const SpeakerTranscript = ({ segments, roles, onRoleChange }: SpeakerTranscriptProps) => {
+  const finalSegments = segments.filter((segment) => segment.status === 'final' && segment.text.trim());
+  const speakers = getSpeakers(finalSegments);
+
+  if (speakers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Role assignment per detected speaker */}
+      <div className="flex flex-wrap gap-3 text-sm">
+        {speakers.map((speaker) => (
+          <label key={speaker} className="inline-flex items-center">
+            <span className="mr-2 text-gray-600 dark:text-gray-400">Speaker {speaker}:</span>
+            <select
+              value={roles[speaker] || 'other'}
+              onChange={(e) => onRoleChange(speaker, e.target.value as SpeakerRole)}
+              className="p-1 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700"
+            >
+              {(Object.keys(SPEAKER_ROLE_LABELS) as SpeakerRole[]).map((role) => (
+                <option key={role} value={role}>
+                  {SPEAKER_ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {/* Speaker-attributed transcript */}
+      <ul className="space-y-2">
+        {finalSegments.map((segment) => {
+          const role = resolveSegmentRole(segment, roles) || 'other';
+          return (
+            <li key={segment.id} className="flex items-start">
+              <span className={`inline-flex items-center shrink-0 px-2 py-0.5 mr-2 rounded-full text-xs font-medium ${ROLE_STYLES[role]}`}>
+                <RoleIcon role={role} />
+                {SPEAKER_ROLE_LABELS[role]}
+              </span>
+              <span className={`text-sm ${segment.dropped ? 'italic text-red-600 dark:text-red-400' : ''}`}>{segment.text}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SpeakerTranscript;
@@ -29,9 +29,7 @@ const SpeechRecognition = ({ onTranscriptChange }: SpeechRecognitionProps) => {
     
     // Clean up on unmount
     return () => {
-      if (serviceRef.current && serviceRef.current.isListening()) {
-        serviceRef.current.stop();
-      }
+      serviceRef.current?.dispose();
     };
   }, [onTranscriptChange]);
   
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { FaPlay } from 'react-icons/fa';
+import { TranscriptSegment } from '../services/TranscriptSegment';
+
+interface TranscriptPlaybackProps {
+  audioUrl: string;
+  segments: TranscriptSegment[];
+}
+
+const TranscriptPlayback = ({ audioUrl, segments }: TranscriptPlaybackProps) => {
+  const [currentTime, setCurrentTime] = useState<number>(-1);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const finalSegments = segments.filter((segment) => segment.status === 'final' && segment.text.trim());
+
+  // Follow the playback position every frame so short words highlight on time
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    let frame = 0;
+
+    const update = () => {
+      setCurrentTime(audio.currentTime * 1000);
+      if (!audio.paused) {
+        frame = requestAnimationFrame(update);
+      }
+    };
+
+    const handlePlay = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(update);
+    };
+
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', update);
+    audio.addEventListener('seeked', update);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', update);
+      audio.removeEventListener('seeked', update);
+    };
+  }, [audioUrl]);
+
+  // Seek the recording to a transcript position and play from there
+  const seekTo = (ms: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.currentTime = Math.max(0, ms / 1000);
+    audio.play().catch((error) => console.error('Error playing recording:', error));
+  };
+
+  const isActive = (startTime: number, endTime: number): boolean => {
+    return currentTime >= startTime && currentTime < endTime;
+  };
+
+  return (
+    <div className="space-y-3">
+      <audio ref={audioRef} src={audioUrl} controls className="w-full" />
+
+      {finalSegments.length === 0 ? (
+        <p className="text-sm text-gray-400">No transcript to play back yet.</p>
+      ) : (
+        <div className="p-3 border border-blue-300 rounded-md bg-white dark:bg-gray-800 dark:border-blue-700 leading-relaxed">
+          {finalSegments.map((segment) => (
+            <p key={segment.id} className="mb-2 last:mb-0">
+              {segment.words && segment.words.length > 0 ? (
+                segment.words.map((word, index) => (
+                  <span
+                    key={`${segment.id}-${index}`}
+                    onClick={() => seekTo(word.startTime)}
+                    className={`cursor-pointer rounded px-0.5 ${
+                      isActive(word.startTime, word.endTime)
+                        ? 'bg-teal-500 text-white'
+                        : 'hover:bg-teal-100 dark:hover:bg-teal-900/30'
+                    }`}
+                    title={`${(word.startTime / 1000).toFixed(2)}s`}
+                  >
+                    {word.text}{' '}
+                  </span>
+                ))
+              ) : (
+                // Engines without word timings, and audio that failed to transcribe, still seek to the segment
+                <span
+                  onClick={() => seekTo(segment.startTime)}
+                  className={`cursor-pointer rounded px-0.5 ${segment.dropped ? 'italic text-red-600 dark:text-red-400 ' : ''}${
+                    isActive(segment.startTime, segment.endTime)
+                      ? 'bg-teal-100 dark:bg-teal-900/30'
+                      : 'hover:bg-teal-100 dark:hover:bg-teal-900/30'
+                  }`}
+                  title={segment.dropped ? 'This audio could not be transcribed; play it to hear what was said' : undefined}
+                >
+                  <FaPlay className="inline mr-1 text-xs text-teal-500" />
+                  {segment.text}
+                </span>
+              )}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPlayback;
@@ -1,8 +1,52 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { FaSpinner, FaPaperPlane, FaMicrophone, FaStop, FaGoogle, FaRobot, FaClock, FaExclamationTriangle, FaHeartbeat, FaStethoscope, FaNotesMedical, FaUserMd, FaHospital } from 'react-icons/fa';
-import createSpeechRecognitionService, { SpeechRecognitionServiceInstance, STTApi } from '../services/SpeechRecognitionService';
+import Link from 'next/link';
+import { FaSpinner, FaPaperPlane, FaMicrophone, FaStop, FaGoogle, FaRobot, FaClock, FaExclamationTriangle, FaHeartbeat, FaStethoscope, FaNotesMedical, FaUserMd, FaHospital, FaFileAudio, FaBookMedical, FaExchangeAlt, FaBalanceScale, FaPause, FaPlay, FaSlidersH, FaArchive, FaDownload, FaWifi, FaChartBar } from 'react-icons/fa';
+import createSpeechRecognitionService, { EngineHandover, EngineInfo, getEngineInfo, getSelectableEngines, isEngineId, SpeechRecognitionServiceInstance, STTApi } from '../services/SpeechRecognitionService';
+import { TranscriptSegment, getEngineRuns, segmentsToText } from '../services/TranscriptSegment';
+import { SpeakerRole, SpeakerRoleMap, formatSpeakerAttributedText, getSpeakers, inferSpeakerRoles } from '../services/SpeakerRoles';
+import SpeakerTranscript from './SpeakerTranscript';
+import TranscriptPlayback from './TranscriptPlayback';
+import BatchUpload from './BatchUpload';
+import VocabularyManager from './VocabularyManager';
+import EngineHandoverNotice from './EngineHandoverNotice';
+import FailoverChainEditor from './FailoverChainEditor';
+import ComparisonPanel from './ComparisonPanel';
+import MicrophoneSelect from './MicrophoneSelect';
+import PreprocessingSettings from './PreprocessingSettings';
+import RecordingArchiveList from './RecordingArchiveList';
+import createVocabularyStore, { VocabularyStoreInstance, VocabularyTerm, toWhisperVocabulary } from '../services/Vocabulary';
+import { AUTO_LANGUAGE, DEFAULT_LANGUAGE, getLanguageName, getLanguagesForEngine, resolveLanguageForEngine } from '../services/Languages';
+import { createPreprocessingProfileStore, DEFAULT_PREPROCESSING, DEFAULT_PROFILE_ID, PreprocessingProfile, PreprocessingProfileStoreInstance } from '../services/AudioPreprocessing';
+import createRecordingArchiveService, { ArchivedRecording, RecordingArchiveServiceInstance } from '../services/RecordingArchiveService';
+import createBatchTranscriptionService, { BatchEngine, BatchProgress, BatchTranscriptionServiceInstance } from '../services/BatchTranscriptionService';
+import { getClinicianName, setClinicianName } from '../services/UsageMetricsService';
+
+// Where the failover chain is saved in this browser
+const FAILOVER_STORAGE_KEY = 'failoverChain';
+
+// Failover chain used until one is saved
+const DEFAULT_FAILOVER_CHAIN: STTApi[] = ['webSpeech'];
+
+/**
+ * The failover chain saved in this browser, or the default when none is saved or it is unreadable
+ */
+const loadFailoverChain = (): STTApi[] => {
+  try {
+    const saved = window.localStorage.getItem(FAILOVER_STORAGE_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : null;
+    if (Array.isArray(parsed) && parsed.every(isEngineId)) {
+      return parsed;
+    }
+  } catch (error) {
+    console.error('Error loading the failover chain:', error);
+  }
+  return DEFAULT_FAILOVER_CHAIN;
+};
+
+// Where the chosen microphone is saved in this browser
+const MICROPHONE_STORAGE_KEY = 'audioInputDevice';
 
 interface UnifiedSTTChatProps {
   defaultPrompt?: string;
@@ -10,45 +54,99 @@ interface UnifiedSTTChatProps {
 
 const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic doctor conducting an online consultation. The patient will describe their symptoms, and you should respond with a thoughtful and detailed analysis. Ask relevant follow-up questions to clarify the condition. Provide possible explanations, suggest next steps, and recommend whether they should seek immediate medical attention or follow home remedies. Do not provide a final diagnosis but instead offer guidance based on best medical practices. Keep the tone reassuring and professional." }: UnifiedSTTChatProps) => {
   const [inputText, setInputText] = useState<string>('');
+  const [interimText, setInterimText] = useState<string>('');
   const [prompt, setPrompt] = useState<string>(defaultPrompt);
   const [responseText, setResponseText] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  const [isListening, setIsListening] = useState<boolean>(false);
+  const [isListening, setIsListening] = useState<boolean>(false); // a session is open, paused or not
+  const [isPaused, setIsPaused] = useState<boolean>(false);
   const [selectedApi, setSelectedApi] = useState<STTApi>('webSpeech');
   const [error, setError] = useState<string | null>(null);
   const [recordingAnimation, setRecordingAnimation] = useState<boolean>(false);
   const [processingAnimation, setProcessingAnimation] = useState<boolean>(false);
   const [speechDuration, setSpeechDuration] = useState<number>(0);
   const [isTranscribing, setIsTranscribing] = useState<boolean>(false);
-  const [selectedLanguage, setSelectedLanguage] = useState<string>('en');
+  const [selectedLanguage, setSelectedLanguage] = useState<string>(DEFAULT_LANGUAGE);
   const [audioLevel, setAudioLevel] = useState<number>(0);
-  const [isMonitoringAudio, setIsMonitoringAudio] = useState<boolean>(false);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [diarizationEnabled, setDiarizationEnabled] = useState<boolean>(false);
+  const [roleOverrides, setRoleOverrides] = useState<SpeakerRoleMap>({});
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [vocabulary, setVocabulary] = useState<VocabularyTerm[]>([]);
+  const [failoverChain, setFailoverChain] = useState<STTApi[]>(DEFAULT_FAILOVER_CHAIN);
+  const [handovers, setHandovers] = useState<EngineHandover[]>([]);
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [microphoneId, setMicrophoneId] = useState<string | null>(null);
+  const [archivedRecordings, setArchivedRecordings] = useState<ArchivedRecording[]>([]);
+  const [archiveRetentionDays, setArchiveRetentionDays] = useState<number>(0);
+  const [archivedRecording, setArchivedRecording] = useState<ArchivedRecording | null>(null); // archive of the recording in playback
+  const [isArchiving, setIsArchiving] = useState<boolean>(false);
+  const [pendingChunks, setPendingChunks] = useState<number>(0); // audio waiting for the network
+  const [clinician, setClinician] = useState<string>(''); // whose usage this browser's requests count as
+  const [preprocessingProfiles, setPreprocessingProfiles] = useState<PreprocessingProfile[]>([]);
+  const [preprocessingProfile, setPreprocessingProfile] = useState<PreprocessingProfile>({ id: DEFAULT_PROFILE_ID, name: 'Default', config: DEFAULT_PREPROCESSING });
+  
+  // Inferred speaker roles, with the manual assignments taking precedence
+  const speakerRoles: SpeakerRoleMap = { ...inferSpeakerRoles(segments), ...roleOverrides };
   
   // Reference to the speech recognition service
   const speechServiceRef = useRef<SpeechRecognitionServiceInstance | null>(null);
-  // Reference to the audio analyzer
-  const analyzerRef = useRef<{
-    audioContext: AudioContext | null;
-    analyzer: AnalyserNode | null;
-    dataArray: Uint8Array | null;
-    stream: MediaStream | null;
-    animationFrame: number | null;
-  }>({
-    audioContext: null,
-    analyzer: null,
-    dataArray: null,
-    stream: null,
-    animationFrame: null,
-  });
+  
+  // Reference to the clinic vocabulary saved in this browser
+  const vocabularyStoreRef = useRef<VocabularyStoreInstance | null>(null);
+  
+  // Reference to the audio preprocessing profiles saved in this browser
+  const preprocessingStoreRef = useRef<PreprocessingProfileStoreInstance | null>(null);
+  
+  // Reference to the server archive of session recordings
+  const archiveServiceRef = useRef<RecordingArchiveServiceInstance | null>(null);
+  
+  // The archive of the session that just ended, whose transcript follows results arriving after the stop
+  const liveArchiveIdRef = useRef<string | null>(null);
+  const archivedTranscriptRef = useRef<string>('');
+  
+  // Wall-clock time the current session started
+  const sessionStartedAtRef = useRef<number>(0);
+  
+  // Reference to the service transcribing uploaded recordings
+  const batchServiceRef = useRef<BatchTranscriptionServiceInstance | null>(null);
+  
+  // Uploaded recordings go to the selected engine when it can transcribe files, otherwise to Whisper
+  const selectedEngine = getEngineInfo(selectedApi);
+  const batchEngine: BatchEngine = selectedEngine.capabilities.fileTranscription ? selectedApi as BatchEngine : 'whisper';
+  const isBatchRunning = batchProgress !== null && batchProgress.status !== 'done' && batchProgress.status !== 'error';
   
   // Initialize the speech recognition service
   useEffect(() => {
     console.log(`Initializing speech recognition service with language: ${selectedLanguage}`);
     
+    // Load the clinic vocabulary before the engines are created
+    vocabularyStoreRef.current = createVocabularyStore();
+    setVocabulary(vocabularyStoreRef.current.getTerms());
+    
+    // Load the failover chain saved in this browser
+    const chain = loadFailoverChain();
+    setFailoverChain(chain);
+    
+    // Load the microphone chosen in this browser
+    const savedMicrophone = window.localStorage.getItem(MICROPHONE_STORAGE_KEY);
+    setMicrophoneId(savedMicrophone);
+    
+    // Load the clinician the usage metrics are attributed to
+    setClinician(getClinicianName());
+    
+    // Load this workstation's audio preprocessing
+    preprocessingStoreRef.current = createPreprocessingProfileStore();
+    setPreprocessingProfiles(preprocessingStoreRef.current.getProfiles());
+    setPreprocessingProfile(preprocessingStoreRef.current.getActiveProfile());
+    
     // Create the service
     speechServiceRef.current = createSpeechRecognitionService({
-      onTranscriptUpdate: (text) => {
-        setInputText(text);
+      onSegmentsUpdate: (updated) => {
+        // Final text is derived below, interim text is shown separately until the engine settles
+        setSegments(updated);
+        setInterimText(segmentsToText(updated.filter((segment) => segment.status === 'interim')));
         setIsTranscribing(false);
       },
       onDurationUpdate: (durationMs) => {
@@ -57,7 +155,18 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
       onTranscriptionStart: () => {
         setIsTranscribing(true);
       },
+      onHandover: (handover) => {
+        // The transcript so far stays; the picker follows the engine now transcribing
+        setHandovers((current) => [...current, handover]);
+        if (handover.to) {
+          setSelectedApi(handover.to);
+        }
+      },
+      failover: { chain },
+      deviceId: savedMicrophone || undefined,
+      preprocessing: preprocessingStoreRef.current.getActiveProfile().config,
       language: selectedLanguage,
+      vocabulary: vocabularyStoreRef.current.getTerms(),
       debug: true, // Enable debug mode
     });
     
@@ -66,15 +175,215 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
       speechServiceRef.current.changeApi(selectedApi);
     }
     
+    // The level meter reads from the same microphone capture as the engines
+    const unsubscribeLevel = speechServiceRef.current.subscribeLevel((level) => {
+      setAudioLevel(level);
+    });
+    
+    // Chunks held back while the network is down, transcribed once it returns
+    const unsubscribePendingChunks = speechServiceRef.current.subscribePendingChunks((count) => {
+      setPendingChunks(count);
+    });
+    
+    archiveServiceRef.current = createRecordingArchiveService({ debug: true });
+    
+    batchServiceRef.current = createBatchTranscriptionService({
+      onProgress: (progress) => {
+        setBatchProgress(progress);
+      },
+      debug: true,
+    });
+    
+    // Vocabulary edits apply to the next session
+    const unsubscribeVocabulary = vocabularyStoreRef.current.subscribe((terms) => {
+      setVocabulary(terms);
+      speechServiceRef.current?.updateVocabulary(terms);
+    });
+    
+    // Preprocessing changes apply to a running session too
+    const unsubscribePreprocessing = preprocessingStoreRef.current.subscribe((profiles, active) => {
+      setPreprocessingProfiles(profiles);
+      setPreprocessingProfile(active);
+      speechServiceRef.current?.updatePreprocessing(active.config);
+    });
+    
     // Clean up on unmount
     return () => {
-      if (speechServiceRef.current && speechServiceRef.current.isListening()) {
-        speechServiceRef.current.stop();
-      }
-      stopAudioMonitoring();
+      unsubscribeLevel();
+      unsubscribePendingChunks();
+      unsubscribeVocabulary();
+      unsubscribePreprocessing();
+      batchServiceRef.current?.cancel();
+      speechServiceRef.current?.dispose();
     };
   }, []);  // Only run once on mount
   
+  // Derive the editable transcript from the final segments, attributed to speakers when diarized
+  useEffect(() => {
+    const finalSegments = segments.filter((segment) => segment.status === 'final');
+    if (finalSegments.length === 0) return;
+    
+    setInputText(
+      getSpeakers(finalSegments).length > 0
+        ? formatSpeakerAttributedText(finalSegments, { ...inferSpeakerRoles(finalSegments), ...roleOverrides })
+        : segmentsToText(finalSegments)
+    );
+  }, [segments, roleOverrides]);
+  
+  // Release the previous recording when it is replaced
+  useEffect(() => {
+    return () => {
+      if (recordingUrl?.startsWith('blob:')) URL.revokeObjectURL(recordingUrl);
+    };
+  }, [recordingUrl]);
+  
+  // Keep the archived transcript of the last session up to date with results that arrive after the stop
+  useEffect(() => {
+    const id = liveArchiveIdRef.current;
+    if (!id || isListening || archivedRecording?.id !== id) return;
+    
+    const finalSegments = segments.filter((segment) => segment.status === 'final');
+    const transcript = JSON.stringify(finalSegments);
+    if (transcript === archivedTranscriptRef.current) return;
+    
+    const timer = setTimeout(() => {
+      archivedTranscriptRef.current = transcript;
+      archiveServiceRef.current?.updateSegments(id, finalSegments)
+        .catch((err) => console.error('Error updating the archived transcript:', err));
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [segments, isListening, archivedRecording]);
+  
+  // Reload the list of archived recordings
+  const refreshArchive = async () => {
+    try {
+      const { recordings, retentionDays } = await archiveServiceRef.current!.list();
+      setArchivedRecordings(recordings);
+      setArchiveRetentionDays(retentionDays);
+    } catch (err) {
+      console.error('Error listing archived recordings:', err);
+    }
+  };
+  
+  // Send the audio of the session that just ended to the archive with its transcript
+  const archiveSession = async (recording: Blob) => {
+    if (!archiveServiceRef.current || !speechServiceRef.current) return;
+    
+    setIsArchiving(true);
+    try {
+      const segmentsAtStop = speechServiceRef.current.getSegments();
+      const archived = await archiveServiceRef.current.archive(recording, {
+        segments: segmentsAtStop,
+        language: selectedLanguage,
+        startedAt: sessionStartedAtRef.current,
+      });
+      
+      liveArchiveIdRef.current = archived.id;
+      archivedTranscriptRef.current = JSON.stringify(segmentsAtStop.filter((segment) => segment.status === 'final'));
+      setArchivedRecording(archived);
+      refreshArchive();
+    } catch (err) {
+      console.error('Error archiving the session recording:', err);
+      setError(`The recording could not be archived: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+  
+  // Load an archived recording and its transcript for playback
+  const playArchivedRecording = async (recording: ArchivedRecording) => {
+    if (!archiveServiceRef.current || isListening) return;
+    
+    setError(null);
+    try {
+      const archivedSegments = await archiveServiceRef.current.getSegments(recording.id);
+      liveArchiveIdRef.current = null;
+      setSegments(archivedSegments);
+      setInterimText('');
+      setRoleOverrides({});
+      setHandovers([]);
+      setRecordingUrl(archiveServiceRef.current.getAudioUrl(recording.id));
+      setArchivedRecording(recording);
+    } catch (err) {
+      console.error('Error loading archived recording:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+  
+  // Delete an archived recording, and stop offering it for playback
+  const deleteArchivedRecording = async (id: string) => {
+    if (!archiveServiceRef.current) return;
+    
+    try {
+      await archiveServiceRef.current.remove(id);
+      if (liveArchiveIdRef.current === id) liveArchiveIdRef.current = null;
+      if (archivedRecording?.id === id) setArchivedRecording(null);
+      if (recordingUrl === archiveServiceRef.current.getAudioUrl(id)) setRecordingUrl(null);
+      refreshArchive();
+    } catch (err) {
+      console.error('Error deleting archived recording:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+  
+  // Transcribe an uploaded recording and show it like a finished live session
+  const handleBatchUpload = async (file: File) => {
+    if (!batchServiceRef.current || isListening) return;
+    
+    console.log(`Transcribing uploaded recording ${file.name} with ${batchEngine}`);
+    
+    setError(null);
+    setInputText('');
+    setInterimText('');
+    setSegments([]);
+    setRoleOverrides({});
+    setRecordingUrl(null);
+    setArchivedRecording(null);
+    liveArchiveIdRef.current = null;
+    
+    try {
+      const result = await batchServiceRef.current.transcribe(file, {
+        engine: batchEngine,
+        language: selectedLanguage,
+        diarization: diarizationEnabled,
+        vocabulary: toWhisperVocabulary(vocabulary),
+      });
+      
+      setSegments(result);
+      setRecordingUrl(URL.createObjectURL(file));
+      
+      if (result.length === 0) {
+        setError('No speech was recognised in the uploaded recording');
+      }
+    } catch (err) {
+      console.error('Error transcribing uploaded recording:', err);
+      setError(err instanceof Error ? err.message : 'Failed to transcribe the uploaded recording');
+    }
+  };
+  
+  // Import vocabulary terms from a CSV file
+  const handleVocabularyImport = (csv: string) => {
+    if (!vocabularyStoreRef.current) return;
+    
+    const count = vocabularyStoreRef.current.importCsv(csv);
+    console.log(`Imported ${count} vocabulary terms`);
+    if (count === 0) {
+      setError('No vocabulary terms found in the CSV file');
+    }
+  };
+  
+  // Download the vocabulary as a CSV file
+  const handleVocabularyExport = () => {
+    if (!vocabularyStoreRef.current) return;
+    
+    const url = URL.createObjectURL(new Blob([vocabularyStoreRef.current.exportCsv()], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'clinic-vocabulary.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
   // Format duration as mm:ss.ms
   const formatDuration = (ms: number): string => {
     const totalSeconds = Math.floor(ms / 1000);
@@ -95,13 +404,29 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
     if (isListening) {
       speechServiceRef.current.stop();
       setIsListening(false);
+      setIsPaused(false);
       setRecordingAnimation(false);
     }
     
     // Clear input text when changing API
     setInputText('');
+    setInterimText('');
+    setSegments([]);
+    setRoleOverrides({});
+    setRecordingUrl(null);
+    setArchivedRecording(null);
+    liveArchiveIdRef.current = null;
+    setHandovers([]);
     setError(null);
     
+    // Keep the language if the new engine supports it
+    const language = resolveLanguageForEngine(selectedLanguage, api);
+    if (language !== selectedLanguage) {
+      console.log(`${api} does not support ${selectedLanguage}, switching to ${language}`);
+      speechServiceRef.current.updateLanguage(language);
+      setSelectedLanguage(language);
+    }
+    
     // Change API
     speechServiceRef.current.changeApi(api);
     setSelectedApi(api);
@@ -120,6 +445,7 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
       // If we were listening, we need to reset the UI state since the service was stopped
       if (isListening) {
         setIsListening(false);
+        setIsPaused(false);
         setRecordingAnimation(false);
         
         // Log the current API and language
@@ -128,6 +454,44 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
     }
   };
   
+  // Handle failover chain edits
+  const handleFailoverChainChange = (chain: STTApi[]) => {
+    setFailoverChain(chain);
+    window.localStorage.setItem(FAILOVER_STORAGE_KEY, JSON.stringify(chain));
+    speechServiceRef.current?.updateFailoverChain(chain);
+  };
+  
+  // Handle microphone choice, used from the next session
+  const handleMicrophoneChange = (deviceId: string | null) => {
+    setMicrophoneId(deviceId);
+    if (deviceId) {
+      window.localStorage.setItem(MICROPHONE_STORAGE_KEY, deviceId);
+    } else {
+      window.localStorage.removeItem(MICROPHONE_STORAGE_KEY);
+    }
+    speechServiceRef.current?.updateDevice(deviceId);
+  };
+  
+  // Handle the clinician's name, sent with every following request for the usage metrics
+  const handleClinicianChange = (name: string) => {
+    setClinician(name);
+    setClinicianName(name);
+  };
+  
+  // Handle speaker diarization toggle
+  const handleDiarizationChange = (enabled: boolean) => {
+    if (!speechServiceRef.current) return;
+    
+    console.log(`Speaker diarization ${enabled ? 'enabled' : 'disabled'}`);
+    speechServiceRef.current.updateDiarization(enabled);
+    setDiarizationEnabled(enabled);
+  };
+  
+  // Handle manual role assignment for a speaker
+  const handleRoleChange = (speaker: string, role: SpeakerRole) => {
+    setRoleOverrides((current) => ({ ...current, [speaker]: role }));
+  };
+  
   // Toggle speech recognition
   const toggleListening = async () => {
     if (!speechServiceRef.current) return;
@@ -137,14 +501,25 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
     if (isListening) {
       speechServiceRef.current.stop();
       setIsListening(false);
+      setIsPaused(false);
       setRecordingAnimation(false);
       setIsTranscribing(false);
       
-      // Stop audio monitoring when stopping recording
-      stopAudioMonitoring();
+      // Offer the session audio for playback against the transcript, and archive it
+      const recording = speechServiceRef.current.getRecording();
+      setRecordingUrl(recording ? URL.createObjectURL(recording) : null);
+      if (recording) archiveSession(recording);
     } else {
       // Clear input text when starting new recording
       setInputText('');
+      setInterimText('');
+      setSegments([]);
+      setRoleOverrides({});
+      setRecordingUrl(null);
+      setArchivedRecording(null);
+      liveArchiveIdRef.current = null;
+      setHandovers([]);
+      sessionStartedAtRef.current = Date.now();
       
       try {
         console.log(`Starting speech recognition with API: ${selectedApi}, Language: ${selectedLanguage}`);
@@ -152,9 +527,6 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
         // Always update the language before starting to ensure it's using the correct language
         speechServiceRef.current.updateLanguage(selectedLanguage);
         
-        // Start audio monitoring when starting recording
-        startAudioMonitoring();
-        
         setIsTranscribing(true);
         await speechServiceRef.current.start();
         setIsListening(true);
@@ -164,161 +536,40 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
         const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
         setError(`Failed to start speech recognition: ${errorMessage}`);
         setIsTranscribing(false);
-        
-        // If the current API fails, try switching to Web Speech API
-        if (selectedApi !== 'webSpeech') {
-          try {
-            handleApiChange('webSpeech');
-            setIsTranscribing(true);
-            await speechServiceRef.current?.start();
-            setIsListening(true);
-            setRecordingAnimation(true);
-            setError(`${selectedApi} failed, switched to Web Speech API`);
-          } catch (fallbackErr) {
-            console.error('Error starting fallback speech recognition:', fallbackErr);
-            const fallbackErrorMessage = fallbackErr instanceof Error ? fallbackErr.message : 'Unknown error occurred';
-            setError(`Failed to start speech recognition: ${fallbackErrorMessage}`);
-            setIsTranscribing(false);
-          }
-        }
       }
     }
   };
   
-  // Force finalization of the current sentence
-  const forceFinalization = () => {
+  // Pause the consultation, e.g. for a physical examination, or continue it
+  const togglePause = async () => {
     if (!speechServiceRef.current || !isListening) return;
     
-    console.log('Manually forcing finalization');
-    
-    // Use the direct forceFinalize method
-    speechServiceRef.current.forceFinalize();
-    setIsListening(false);
-    setRecordingAnimation(false);
+    setError(null);
     
-    // Small delay to ensure the service has time to finalize
-    setTimeout(() => {
-      // Restart the service if needed
-      if (speechServiceRef.current) {
-        console.log('Restarting speech recognition service');
-        setIsTranscribing(true);
-        speechServiceRef.current.start().then(() => {
-          setIsListening(true);
-          setRecordingAnimation(true);
-        }).catch(error => {
-          console.error('Error restarting speech recognition:', error);
-          setError(`Failed to restart speech recognition: ${error instanceof Error ? error.message : String(error)}`);
-        });
+    if (isPaused) {
+      try {
+        await speechServiceRef.current.resume();
+        setIsPaused(false);
+        setRecordingAnimation(true);
+      } catch (err) {
+        console.error('Error resuming speech recognition:', err);
+        setError(`Failed to resume speech recognition: ${err instanceof Error ? err.message : String(err)}`);
       }
-    }, 1000);
-  };
-  
-  // Start monitoring audio levels
-  const startAudioMonitoring = async () => {
-    if (isMonitoringAudio) return;
-    
-    try {
-      // Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      
-      // Create audio context
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      
-      // Create audio source
-      const input = audioContext.createMediaStreamSource(stream);
-      
-      // Create analyzer node
-      const analyzer = audioContext.createAnalyser();
-      analyzer.fftSize = 2048;
-      
-      // Connect nodes
-      input.connect(analyzer);
-      
-      // Create data array
-      const dataArray = new Uint8Array(analyzer.frequencyBinCount);
-      
-      // Store references
-      analyzerRef.current = {
-        audioContext,
-        analyzer,
-        dataArray,
-        stream,
-        animationFrame: null,
-      };
-      
-      // Start monitoring
-      setIsMonitoringAudio(true);
-      
-      // Update audio level in animation frame
-      const updateAudioLevel = () => {
-        if (!analyzerRef.current.analyzer || !analyzerRef.current.dataArray) return;
-        
-        // Get volume level
-        analyzerRef.current.analyzer.getByteTimeDomainData(analyzerRef.current.dataArray);
-        
-        // Calculate volume
-        let sum = 0;
-        for (let i = 0; i < analyzerRef.current.dataArray.length; i++) {
-          const value = (analyzerRef.current.dataArray[i] - 128) / 128;
-          sum += value * value;
-        }
-        const volume = Math.sqrt(sum / analyzerRef.current.dataArray.length);
-        
-        // Update state
-        setAudioLevel(volume);
-        
-        // Schedule next update
-        analyzerRef.current.animationFrame = requestAnimationFrame(updateAudioLevel);
-      };
-      
-      // Start updating
-      updateAudioLevel();
-    } catch (error) {
-      console.error('Error starting audio monitoring:', error);
-      setError(`Failed to start audio monitoring: ${error instanceof Error ? error.message : String(error)}`);
+    } else {
+      await speechServiceRef.current.pause();
+      setIsPaused(true);
+      setRecordingAnimation(false);
     }
   };
   
-  // Stop monitoring audio levels
-  const stopAudioMonitoring = () => {
-    if (!isMonitoringAudio) return;
-    
-    // Cancel animation frame
-    if (analyzerRef.current.animationFrame) {
-      cancelAnimationFrame(analyzerRef.current.animationFrame);
-    }
-    
-    // Stop media stream
-    if (analyzerRef.current.stream) {
-      analyzerRef.current.stream.getTracks().forEach(track => track.stop());
-    }
-    
-    // Close audio context
-    if (analyzerRef.current.audioContext) {
-      analyzerRef.current.audioContext.close();
-    }
-    
-    // Reset references
-    analyzerRef.current = {
-      audioContext: null,
-      analyzer: null,
-      dataArray: null,
-      stream: null,
-      animationFrame: null,
-    };
+  // Finalize the current sentence; the microphone and the session keep running
+  const forceFinalization = () => {
+    if (!speechServiceRef.current || !isListening || isPaused) return;
     
-    // Update state
-    setIsMonitoringAudio(false);
-    setAudioLevel(0);
+    console.log('Manually finalizing the current sentence');
+    speechServiceRef.current.flush();
   };
   
-  // Clean up on unmount
-  useEffect(() => {
-    return () => {
-      stopAudioMonitoring();
-    };
-  }, []);
-  
   // Send message to ChatGPT
   const sendMessage = async () => {
     if (!inputText.trim()) {
@@ -401,26 +652,44 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
   
   // Get API display name
   const getApiDisplayName = (api: STTApi): string => {
-    switch (api) {
-      case 'webSpeech':
-        return 'Web Speech API';
-      case 'realtime':
-        return 'Realtime API';
-      case 'assemblyAI':
-        return 'AssemblyAI';
-      case 'assemblyAINano':
-        return 'AssemblyAI Nano (Free)';
-      case 'whisper':
-        return 'OpenAI Whisper';
-      case 'googleSpeech':
-        return 'Google Speech';
-      default:
-        return api;
-    }
+    return getEngineInfo(api).name;
+  };
+  
+  // Short labels for what the selected engine offers
+  const getCapabilityLabels = (engine: EngineInfo): string[] => {
+    const { capabilities } = engine;
+    return [
+      capabilities.mode === 'streaming' ? 'Streaming' : 'Transcribes after each pause',
+      capabilities.interimResults && 'Live words',
+      capabilities.diarization && 'Speaker separation',
+      capabilities.languageDetection && 'Language detection',
+      `${capabilities.languages.length} languages`,
+      capabilities.offline && 'Audio stays on-premise',
+    ].filter((label): label is string => Boolean(label));
   };
   
+  // Language the engine last detected, shown while detection is on
+  const detectedLanguage = [...segments].reverse().find((segment) => segment.status === 'final' && segment.language)?.language;
+  
   return (
     <div className="w-full space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label htmlFor="clinician" className="text-gray-600 dark:text-gray-400">Clinician:</label>
+        <input
+          id="clinician"
+          type="text"
+          value={clinician}
+          onChange={(e) => handleClinicianChange(e.target.value)}
+          maxLength={64}
+          className="p-1 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700"
+          placeholder="Your name"
+        />
+        <Link href="/metrics" className="ml-auto flex items-center text-teal-700 dark:text-teal-400 hover:underline">
+          <FaChartBar className="mr-1" />
+          Usage &amp; costs
+        </Link>
+      </div>
+      
       <div className="space-y-2 bg-teal-50 dark:bg-teal-900/20 p-4 rounded-lg border border-teal-200 dark:border-teal-800">
         <label htmlFor="prompt" className="font-medium text-lg flex items-center text-teal-700 dark:text-teal-400">
           <FaUserMd className="mr-2" />
@@ -441,69 +710,183 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
           Voice Recognition Technology:
         </label>
         <div className="flex flex-wrap gap-2">
-          <button
-            onClick={() => handleApiChange('webSpeech')}
-            className={`px-3 py-1 rounded-md ${
-              selectedApi === 'webSpeech'
-                ? 'bg-teal-500 text-white'
-                : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-teal-100 dark:hover:bg-teal-900/30'
-            }`}
-          >
-            Web Speech API
-          </button>
-          <button
-            onClick={() => handleApiChange('assemblyAINano')}
-            className={`px-3 py-1 rounded-md ${
-              selectedApi === 'assemblyAINano'
-                ? 'bg-teal-500 text-white'
-                : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-teal-100 dark:hover:bg-teal-900/30'
-            }`}
-          >
-            AssemblyAI Nano (Free)
-          </button>
-          <button
-            onClick={() => handleApiChange('whisper')}
-            className={`px-3 py-1 rounded-md ${
-              selectedApi === 'whisper'
-                ? 'bg-teal-500 text-white'
-                : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-teal-100 dark:hover:bg-teal-900/30'
-            }`}
+          {getSelectableEngines().map((engine) => (
+            <button
+              key={engine.id}
+              onClick={() => handleApiChange(engine.id)}
+              title={engine.description}
+              className={`px-3 py-1 rounded-md ${
+                selectedApi === engine.id
+                  ? 'bg-teal-500 text-white'
+                  : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-teal-100 dark:hover:bg-teal-900/30'
+              }`}
+            >
+              {engine.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {getCapabilityLabels(selectedEngine).map((label) => (
+            <span key={label} className="px-2 py-0.5 rounded-full bg-teal-100 text-teal-800 dark:bg-teal-900/40 dark:text-teal-300">
+              {label}
+            </span>
+          ))}
+        </div>
+      </div>
+      
+      {/* Language Selection - Only the languages the selected engine supports */}
+      <div className="space-y-2 bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
+        <label htmlFor="language" className="font-medium text-lg flex items-center text-blue-700 dark:text-blue-400">
+          <FaHospital className="mr-2" />
+          Consultation Language:
+        </label>
+        <div className="flex flex-wrap items-center gap-3 p-3 bg-white dark:bg-gray-800 rounded-md border border-blue-200 dark:border-blue-800">
+          <select
+            id="language"
+            value={selectedLanguage}
+            onChange={(e) => handleLanguageChange(e.target.value)}
+            disabled={isListening}
+            className="p-2 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700 text-sm"
           >
-            OpenAI Whisper
-          </button>
+            {selectedEngine.capabilities.languageDetection && (
+              <option value={AUTO_LANGUAGE}>{getLanguageName(AUTO_LANGUAGE)}</option>
+            )}
+            {getLanguagesForEngine(selectedApi).map((language) => (
+              <option key={language.code} value={language.code}>
+                {language.name === language.nativeName ? language.name : `${language.name} (${language.nativeName})`}
+              </option>
+            ))}
+          </select>
+          {selectedLanguage === AUTO_LANGUAGE && detectedLanguage && (
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              Detected: {getLanguageName(detectedLanguage)}
+            </span>
+          )}
         </div>
       </div>
       
-      {/* Language Selection - Only show for Whisper and AssemblyAI Nano */}
-      {(selectedApi === 'whisper' || selectedApi === 'assemblyAINano') && (
+      {/* Speaker Diarization - Only for engines that return speaker labels */}
+      {selectedEngine.capabilities.diarization && (
         <div className="space-y-2 bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
-          <label className="font-medium text-lg flex items-center text-blue-700 dark:text-blue-400">
-            <FaHospital className="mr-2" />
-            Consultation Language:
+          <label className="inline-flex items-center text-blue-700 dark:text-blue-400">
+            <input
+              type="checkbox"
+              className="form-checkbox h-4 w-4 text-teal-600"
+              checked={diarizationEnabled}
+              onChange={(e) => handleDiarizationChange(e.target.checked)}
+              disabled={isListening}
+            />
+            <span className="ml-2 font-medium">Separate clinician and patient speech</span>
           </label>
-          <div className="flex space-x-4 p-3 bg-white dark:bg-gray-800 rounded-md border border-blue-200 dark:border-blue-800">
-            <label className="inline-flex items-center">
-              <input
-                type="radio"
-                className="form-radio h-4 w-4 text-teal-600"
-                checked={selectedLanguage === 'en'}
-                onChange={() => handleLanguageChange('en')}
-              />
-              <span className="ml-2 text-sm">English</span>
-            </label>
-            <label className="inline-flex items-center">
-              <input
-                type="radio"
-                className="form-radio h-4 w-4 text-teal-600"
-                checked={selectedLanguage === 'de'}
-                onChange={() => handleLanguageChange('de')}
-              />
-              <span className="ml-2 text-sm">German</span>
-            </label>
-          </div>
         </div>
       )}
       
+      {/* Clinic vocabulary that biases every engine */}
+      <details className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
+        <summary className="font-medium text-lg flex items-center text-blue-700 dark:text-blue-400 cursor-pointer">
+          <FaBookMedical className="mr-2" />
+          Clinic Vocabulary ({vocabulary.length} terms)
+        </summary>
+        <div className="mt-3">
+          <VocabularyManager
+            terms={vocabulary}
+            disabled={isListening}
+            onAdd={(term) => vocabularyStoreRef.current?.addTerm(term)}
+            onRemove={(term) => vocabularyStoreRef.current?.removeTerm(term)}
+            onImport={handleVocabularyImport}
+            onExport={handleVocabularyExport}
+          />
+        </div>
+      </details>
+      
+      {/* Engines to fall back to when the one in use fails */}
+      <details className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
+        <summary className="font-medium text-lg flex items-center text-blue-700 dark:text-blue-400 cursor-pointer">
+          <FaExchangeAlt className="mr-2" />
+          Failover ({failoverChain.length > 0 ? failoverChain.map((api) => getApiDisplayName(api)).join(' → ') : 'off'})
+        </summary>
+        <div className="mt-3">
+          <FailoverChainEditor
+            chain={failoverChain}
+            engines={getSelectableEngines()}
+            disabled={isListening}
+            onChange={handleFailoverChainChange}
+          />
+        </div>
+      </details>
+      
+      {/* Processing of the microphone audio, saved per workstation */}
+      <details className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
+        <summary className="font-medium text-lg flex items-center text-blue-700 dark:text-blue-400 cursor-pointer">
+          <FaSlidersH className="mr-2" />
+          Audio Preprocessing ({preprocessingProfile.name})
+        </summary>
+        <div className="mt-3">
+          <PreprocessingSettings
+            profiles={preprocessingProfiles}
+            activeProfile={preprocessingProfile}
+            onSelect={(id) => preprocessingStoreRef.current?.setActiveProfile(id)}
+            onSave={(profile) => preprocessingStoreRef.current?.saveProfile(profile)}
+            onRemove={(id) => preprocessingStoreRef.current?.removeProfile(id)}
+          />
+        </div>
+      </details>
+      
+      {/* Several engines transcribing the same speech, scored against a corrected reference */}
+      <details className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
+        <summary className="font-medium text-lg flex items-center text-blue-700 dark:text-blue-400 cursor-pointer">
+          <FaBalanceScale className="mr-2" />
+          Engine Comparison
+        </summary>
+        <div className="mt-3">
+          <ComparisonPanel
+            speechService={speechServiceRef.current}
+            language={selectedLanguage}
+            disabled={isListening || isBatchRunning}
+            onRunningChange={setIsComparing}
+          />
+        </div>
+      </details>
+      
+      {/* Session recordings kept on the server */}
+      <details
+        className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800"
+        onToggle={(e) => {
+          if ((e.currentTarget as HTMLDetailsElement).open) refreshArchive();
+        }}
+      >
+        <summary className="font-medium text-lg flex items-center text-blue-700 dark:text-blue-400 cursor-pointer">
+          <FaArchive className="mr-2" />
+          Recording Archive
+        </summary>
+        <div className="mt-3">
+          <RecordingArchiveList
+            recordings={archivedRecordings}
+            retentionDays={archiveRetentionDays}
+            activeId={archivedRecording?.id ?? null}
+            disabled={isListening || isComparing}
+            getDownloadUrl={(id) => archiveServiceRef.current?.getDownloadUrl(id) ?? '#'}
+            onPlay={playArchivedRecording}
+            onDelete={deleteArchivedRecording}
+          />
+        </div>
+      </details>
+      
+      {/* Upload of a pre-recorded consultation */}
+      <div className="space-y-2 bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
+        <label className="font-medium text-lg flex items-center text-blue-700 dark:text-blue-400">
+          <FaFileAudio className="mr-2" />
+          Recorded Consultation:
+        </label>
+        <BatchUpload
+          progress={batchProgress}
+          disabled={isListening || isComparing}
+          engineName={getApiDisplayName(batchEngine)}
+          onFileSelected={handleBatchUpload}
+          onCancel={() => batchServiceRef.current?.cancel()}
+        />
+      </div>
+      
       {/* Audio Level Monitor */}
       <div className="space-y-2 bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
         <div className="flex justify-between items-center">
@@ -512,9 +895,18 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
             Voice Signal Strength:
           </label>
           <div className="text-sm text-gray-500">
-            {isMonitoringAudio ? 'Monitoring active' : 'Monitoring inactive'}
+            {isPaused ? 'Monitoring paused' : isListening ? 'Monitoring active' : 'Monitoring inactive'}
           </div>
         </div>
+        <MicrophoneSelect
+          deviceId={microphoneId}
+          listening={isListening}
+          disabled={isListening || isComparing}
+          onChange={handleMicrophoneChange}
+        />
+        {selectedApi === 'webSpeech' && microphoneId && (
+          <p className="text-xs text-gray-500">Web Speech recognizes the browser&apos;s default microphone; the chosen one is used for the level meter and the recording.</p>
+        )}
         <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded-md overflow-hidden border border-blue-200 dark:border-blue-800">
           <div
             className="h-full bg-teal-500 transition-all duration-100"
@@ -547,17 +939,30 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
                     : 'bg-teal-500 hover:bg-teal-600'
                 } text-white transition-colors`}
                 title={isListening ? 'Stop recording' : 'Start recording'}
-                disabled={isTranscribing && !isListening}
+                disabled={(isTranscribing && !isListening) || isBatchRunning || isComparing}
               >
                 {isListening ? <FaStop /> : isTranscribing ? <FaSpinner className="animate-spin" /> : <FaMicrophone />}
               </button>
               
-              {/* Add manual finalization button */}
-              {isListening && (selectedApi === 'assemblyAINano' || selectedApi === 'whisper') && (
+              {/* Pause and resume without ending the consultation */}
+              {isListening && (
+                <button
+                  onClick={togglePause}
+                  className={`ml-2 relative z-10 flex items-center justify-center p-2 rounded-full ${
+                    isPaused ? 'bg-teal-500 hover:bg-teal-600' : 'bg-amber-500 hover:bg-amber-600'
+                  } text-white transition-colors`}
+                  title={isPaused ? 'Resume recording' : 'Pause recording'}
+                >
+                  {isPaused ? <FaPlay /> : <FaPause />}
+                </button>
+              )}
+              
+              {/* Finalize the current sentence without waiting for a pause */}
+              {isListening && !isPaused && (
                 <button
                   onClick={forceFinalization}
                   className="ml-2 relative z-10 flex items-center justify-center p-2 rounded-full bg-green-500 hover:bg-green-600 text-white transition-colors"
-                  title="Complete recording"
+                  title="Finalize sentence"
                 >
                   <FaPaperPlane />
                 </button>
@@ -566,9 +971,18 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
             <div className="text-sm text-gray-500 flex items-center">
               <span className="mr-2">Using: {getApiDisplayName(selectedApi)}</span>
               {isListening && (
-                <div className="flex items-center text-red-500">
-                  <FaClock className="mr-1" />
-                  <span>{formatDuration(speechDuration)}</span>
+                <div className={`flex items-center ${isPaused ? 'text-amber-500' : 'text-red-500'}`}>
+                  {isPaused ? <FaPause className="mr-1" /> : <FaClock className="mr-1" />}
+                  <span>{formatDuration(speechDuration)}{isPaused && ' · Paused'}</span>
+                </div>
+              )}
+              {pendingChunks > 0 && (
+                <div
+                  className="flex items-center text-amber-600 ml-2"
+                  title="The network is unavailable; this audio is kept in the browser and transcribed in order once the connection returns"
+                >
+                  <FaWifi className="mr-1" />
+                  <span>Pending {pendingChunks} {pendingChunks === 1 ? 'chunk' : 'chunks'}</span>
                 </div>
               )}
               {isTranscribing && !isListening && (
@@ -589,7 +1003,7 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
             placeholder={isTranscribing ? "Processing your symptoms..." : "Describe your symptoms here..."}
             readOnly={isTranscribing}
           />
-          {isListening && !recordingAnimation && (
+          {isListening && !isPaused && !recordingAnimation && (
             <div className="absolute bottom-2 right-2 flex items-center text-sm text-red-500">
               <FaClock className="mr-1" />
               <span>{formatDuration(speechDuration)}</span>
@@ -604,16 +1018,29 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
             </div>
           )}
         </div>
+        <EngineHandoverNotice handovers={handovers} runs={getEngineRuns(segments.filter((segment) => segment.status === 'final'))} />
+        {interimText && (
+          <p className="text-sm italic text-gray-500 dark:text-gray-400">
+            {interimText}
+          </p>
+        )}
+        <SpeakerTranscript segments={segments} roles={speakerRoles} onRoleChange={handleRoleChange} />
       </div>
       
       <div className="flex justify-between items-center">
         <div>
-          {isListening && (
+          {isListening && !isPaused && (
             <div className="text-sm flex items-center text-gray-600">
               <span className="font-medium mr-1">Recording duration:</span>
               <span className="text-red-500">{formatDuration(speechDuration)}</span>
             </div>
           )}
+          {isPaused && (
+            <div className="text-sm flex items-center px-2 py-1 rounded-md bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+              <FaPause className="mr-2" />
+              <span>Paused at {formatDuration(speechDuration)}. Nothing is recorded; the transcript is kept until you resume or stop.</span>
+            </div>
+          )}
         </div>
         <button
           onClick={sendMessage}
@@ -638,6 +1065,38 @@ const UnifiedSTTChat = ({ defaultPrompt = "You are a professional and empathetic
         </button>
       </div>
       
+      {/* Playback of the last session with word highlighting */}
+      {recordingUrl && !isListening && (
+        <div className="space-y-2 bg-teal-50 dark:bg-teal-900/20 p-4 rounded-lg border border-teal-200 dark:border-teal-800">
+          <label className="font-medium text-lg flex items-center text-teal-700 dark:text-teal-400">
+            <FaClock className="mr-2" />
+            Consultation Playback:
+          </label>
+          <TranscriptPlayback audioUrl={recordingUrl} segments={segments} />
+          <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+            {archivedRecording ? (
+              <>
+                <span>
+                  Archived as {archivedRecording.format.toUpperCase()}
+                  {archivedRecording.expiresAt && ` until ${new Date(archivedRecording.expiresAt).toLocaleDateString()}`}
+                </span>
+                <a href={archiveServiceRef.current?.getDownloadUrl(archivedRecording.id)} className="flex items-center text-teal-700 dark:text-teal-400 hover:underline">
+                  <FaDownload className="mr-1" />
+                  Download
+                </a>
+              </>
+            ) : isArchiving ? (
+              <span className="flex items-center"><FaSpinner className="animate-spin mr-2" />Archiving the recording...</span>
+            ) : (
+              <a href={recordingUrl} download="consultation.flac" className="flex items-center text-teal-700 dark:text-teal-400 hover:underline">
+                <FaDownload className="mr-1" />
+                Download
+              </a>
+            )}
+          </div>
+        </div>
+      )}
+      
       {error && <p className="text-red-500 flex items-center"><FaExclamationTriangle className="mr-2" />{error}</p>}
       
       <div className="space-y-2 bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
@@ -0,0 +1,121 @@
+'use client';
+
+import { UsageReportRow } from '../services/UsageMetricsService';
+
+interface UsageMetricsTableProps {
+  rows: UsageReportRow[];
+  currency: string;
+}
+
+interface EngineTotals {
+  engine: string;
+  requests: number;
+  errors: number;
+  audioSeconds: number;
+  tokens: number;
+  estimatedCost: number;
+}
+
+const formatCost = (value: number, currency: string) => `${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)} ${currency}`;
+
+const formatAudio = (seconds: number) => {
+  const minutes = seconds / 60;
+  return minutes >= 60 ? `${(minutes / 60).toFixed(1)} h` : `${minutes.toFixed(1)} min`;
+};
+
+const formatLatency = (ms: number | null) => (ms === null ? '–' : ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${ms} ms`);
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+/**
+ * Sum the rows of each engine
+ */
+const totalsByEngine = (rows: UsageReportRow[]): EngineTotals[] => {
+  const totals = new Map<string, EngineTotals>();
+  rows.forEach((row) => {
+    const total = totals.get(row.engine) ?? { engine: row.engine, requests: 0, errors: 0, audioSeconds: 0, tokens: 0, estimatedCost: 0 };
+    total.requests += row.requests;
+    total.errors += row.errors;
+    total.audioSeconds += row.audioSeconds;
+    total.tokens += row.promptTokens + row.completionTokens;
+    total.estimatedCost += row.estimatedCost;
+    totals.set(row.engine, total);
+  });
+  return Array.from(totals.values()).sort((a, b) => b.estimatedCost - a.estimatedCost);
+};
+
+const UsageMetricsTable = ({ rows, currency }: UsageMetricsTableProps) => {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">No usage recorded in this period.</p>;
+  }
+
+  const totals = totalsByEngine(rows);
+  const totalCost = totals.reduce((sum, total) => sum + total.estimatedCost, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {totals.map((total) => (
+          <div key={total.engine} className="p-3 rounded-lg bg-teal-50 dark:bg-teal-900/20 border border-teal-200 dark:border-teal-800 text-sm">
+            <div className="font-medium text-teal-700 dark:text-teal-400">{total.engine}</div>
+            <div className="text-lg font-semibold">{formatCost(total.estimatedCost, currency)}</div>
+            <div className="text-gray-600 dark:text-gray-400">
+              {total.requests} requests
+              {total.errors > 0 && <span className="text-amber-700 dark:text-amber-400"> · {total.errors} failed</span>}
+            </div>
+            <div className="text-gray-600 dark:text-gray-400">
+              {total.audioSeconds > 0 && formatAudio(total.audioSeconds)}
+              {total.tokens > 0 && `${total.tokens.toLocaleString()} tokens`}
+            </div>
+          </div>
+        ))}
+        <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-sm">
+          <div className="font-medium text-blue-700 dark:text-blue-400">Total</div>
+          <div className="text-lg font-semibold">{formatCost(totalCost, currency)}</div>
+          <div className="text-gray-600 dark:text-gray-400">Estimated from the price table</div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-3">Day</th>
+              <th className="py-2 pr-3">Engine</th>
+              <th className="py-2 pr-3">Clinician</th>
+              <th className="py-2 pr-3 text-right">Requests</th>
+              <th className="py-2 pr-3 text-right">Errors</th>
+              <th className="py-2 pr-3 text-right">Audio</th>
+              <th className="py-2 pr-3 text-right">p50 / p90 / p99</th>
+              <th className="py-2 pr-3 text-right">Tokens in / out</th>
+              <th className="py-2 text-right">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={`${row.day}-${row.engine}-${row.clinician}`} className="border-b border-gray-100 dark:border-gray-800">
+                <td className="py-1 pr-3 whitespace-nowrap">{row.day}</td>
+                <td className="py-1 pr-3">{row.engine}</td>
+                <td className="py-1 pr-3">{row.clinician}</td>
+                <td className="py-1 pr-3 text-right">{row.requests}</td>
+                <td className={`py-1 pr-3 text-right ${row.errorRate > 0.05 ? 'text-amber-700 dark:text-amber-400' : ''}`}>
+                  {row.errors > 0 ? `${row.errors} (${formatRate(row.errorRate)})` : '0'}
+                </td>
+                <td className="py-1 pr-3 text-right whitespace-nowrap">{row.audioSeconds > 0 ? formatAudio(row.audioSeconds) : '–'}</td>
+                <td className="py-1 pr-3 text-right whitespace-nowrap">
+                  {formatLatency(row.latencyP50Ms)} / {formatLatency(row.latencyP90Ms)} / {formatLatency(row.latencyP99Ms)}
+                </td>
+                <td className="py-1 pr-3 text-right whitespace-nowrap">
+                  {row.promptTokens + row.completionTokens > 0 ? `${row.promptTokens.toLocaleString()} / ${row.completionTokens.toLocaleString()}` : '–'}
+                </td>
+                <td className="py-1 text-right whitespace-nowrap">{formatCost(row.estimatedCost, currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default UsageMetricsTable;
@@ -0,0 +1,151 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { FaPlus, FaTimes, FaFileImport, FaFileExport } from 'react-icons/fa';
+import { DEFAULT_BOOST, VOCABULARY_CATEGORY_LABELS, VocabularyCategory, VocabularyTerm } from '../services/Vocabulary';
+
+interface VocabularyManagerProps {
+  terms: VocabularyTerm[];
+  disabled?: boolean;
+  onAdd: (term: VocabularyTerm) => void;
+  onRemove: (term: string) => void;
+  onImport: (csv: string) => void;
+  onExport: () => void;
+}
+
+const VocabularyManager = ({ terms, disabled, onAdd, onRemove, onImport, onExport }: VocabularyManagerProps) => {
+  const [term, setTerm] = useState<string>('');
+  const [category, setCategory] = useState<VocabularyCategory>('drug');
+  const [boost, setBoost] = useState<number>(DEFAULT_BOOST);
+  const [filter, setFilter] = useState<VocabularyCategory | 'all'>('all');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const visibleTerms = filter === 'all' ? terms : terms.filter((entry) => entry.category === filter);
+
+  const handleAdd = () => {
+    if (!term.trim()) return;
+    onAdd({ term, category, boost });
+    setTerm('');
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* New term */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          placeholder="e.g. Metoprolol, Dr. Weber, HbA1c"
+          disabled={disabled}
+          className="flex-1 min-w-[12rem] p-2 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700 text-sm"
+        />
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value as VocabularyCategory)}
+          disabled={disabled}
+          className="p-2 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700 text-sm"
+        >
+          {(Object.keys(VOCABULARY_CATEGORY_LABELS) as VocabularyCategory[]).map((value) => (
+            <option key={value} value={value}>
+              {VOCABULARY_CATEGORY_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <label className="inline-flex items-center text-sm text-gray-600 dark:text-gray-400">
+          Boost
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={boost}
+            onChange={(e) => setBoost(Number(e.target.value))}
+            disabled={disabled}
+            className="ml-2 w-16 p-2 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700"
+          />
+        </label>
+        <button
+          onClick={handleAdd}
+          disabled={disabled || !term.trim()}
+          className="flex items-center px-3 py-2 rounded-md bg-teal-600 text-white text-sm hover:bg-teal-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <FaPlus className="mr-1" />
+          Add
+        </button>
+      </div>
+
+      {/* CSV import and export */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(await file.text());
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="flex items-center px-3 py-1 rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 disabled:opacity-50"
+        >
+          <FaFileImport className="mr-1" />
+          Import CSV
+        </button>
+        <button
+          onClick={onExport}
+          disabled={terms.length === 0}
+          className="flex items-center px-3 py-1 rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 disabled:opacity-50"
+        >
+          <FaFileExport className="mr-1" />
+          Export CSV
+        </button>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as VocabularyCategory | 'all')}
+          className="ml-auto p-1 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700"
+        >
+          <option value="all">All categories ({terms.length})</option>
+          {(Object.keys(VOCABULARY_CATEGORY_LABELS) as VocabularyCategory[]).map((value) => (
+            <option key={value} value={value}>
+              {VOCABULARY_CATEGORY_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Current terms */}
+      {visibleTerms.length === 0 ? (
+        <p className="text-sm text-gray-500">No vocabulary terms yet.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+          {visibleTerms.map((entry) => (
+            <span
+              key={entry.term}
+              title={`${VOCABULARY_CATEGORY_LABELS[entry.category]}, boost ${entry.boost ?? DEFAULT_BOOST}`}
+              className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-800 dark:bg-teal-900/40 dark:text-teal-300"
+            >
+              {entry.term}
+              <button
+                onClick={() => onRemove(entry.term)}
+                disabled={disabled}
+                className="ml-1 hover:text-red-600 disabled:opacity-50"
+                aria-label={`Remove ${entry.term}`}
+              >
+                <FaTimes />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VocabularyManager;
@@ -0,0 +1,492 @@
+/**
+ * audioFormat.ts
+ * Server-side detection of uploaded audio: container, codec, sample rate and duration
+ *
+ * Only the headers are parsed, nothing is decoded except WAV, which can be normalised
+ * to 16-bit mono PCM without any external tools.
+ */
+
+export type AudioContainer = 'wav' | 'webm' | 'ogg' | 'mp3' | 'flac' | 'mp4' | 'unknown';
+
+export interface AudioFormatInfo {
+  container: AudioContainer;
+  codec?: string; // 'pcm', 'float', 'opus', 'vorbis', 'mp3', 'flac', 'aac'
+  mimeType: string;
+  extension: string;
+  sampleRate?: number;
+  channels?: number;
+  bitsPerSample?: number;
+  durationMs?: number;
+}
+
+// File naming per container, for providers that infer the format from the upload
+const CONTAINER_FILES: Record<AudioContainer, { mimeType: string; extension: string }> = {
+  wav: { mimeType: 'audio/wav', extension: '.wav' },
+  webm: { mimeType: 'audio/webm', extension: '.webm' },
+  ogg: { mimeType: 'audio/ogg', extension: '.ogg' },
+  mp3: { mimeType: 'audio/mpeg', extension: '.mp3' },
+  flac: { mimeType: 'audio/flac', extension: '.flac' },
+  mp4: { mimeType: 'audio/mp4', extension: '.m4a' },
+  unknown: { mimeType: 'application/octet-stream', extension: '.bin' },
+};
+
+/**
+ * Check for an ASCII tag at an offset
+ */
+const hasTag = (buffer: Buffer, offset: number, tag: string): boolean => {
+  return buffer.length >= offset + tag.length && buffer.toString('latin1', offset, offset + tag.length) === tag;
+};
+
+/**
+ * Identify the container from its magic bytes
+ */
+const detectContainer = (buffer: Buffer): AudioContainer => {
+  if (hasTag(buffer, 0, 'RIFF') && hasTag(buffer, 8, 'WAVE')) return 'wav';
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x1a45dfa3) return 'webm';
+  if (hasTag(buffer, 0, 'OggS')) return 'ogg';
+  if (hasTag(buffer, 0, 'fLaC')) return 'flac';
+  if (hasTag(buffer, 4, 'ftyp')) return 'mp4';
+  if (hasTag(buffer, 0, 'ID3')) return 'mp3';
+  if (buffer.length >= 2 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) return 'mp3';
+  return 'unknown';
+};
+
+// Location of the sample data in a WAV file
+interface WavLayout {
+  format: number; // 1 = PCM, 3 = IEEE float
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+/**
+ * Walk the RIFF chunks of a WAV file
+ */
+const parseWavLayout = (buffer: Buffer): WavLayout | null => {
+  let offset = 12;
+  let layout: Partial<WavLayout> = {};
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('latin1', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && body + 16 <= buffer.length) {
+      let format = buffer.readUInt16LE(body);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID
+      if (format === 0xfffe && size >= 26 && body + 26 <= buffer.length) {
+        format = buffer.readUInt16LE(body + 24);
+      }
+      layout = {
+        ...layout,
+        format,
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (id === 'data') {
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF
+      const available = buffer.length - body;
+      const dataLength = size === 0 || size > available ? available : size;
+      return layout.format !== undefined
+        ? { ...(layout as WavLayout), dataOffset: body, dataLength }
+        : null;
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+};
+
+/**
+ * Read an EBML variable-length integer, optionally keeping the length marker (element ids)
+ */
+const readVint = (buffer: Buffer, offset: number, keepMarker = false): { value: number; length: number } | null => {
+  if (offset >= buffer.length) return null;
+
+  const first = buffer[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || offset + length > buffer.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let unknown = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    if (buffer[offset + i] !== 0xff) unknown = false;
+  }
+
+  return { value: unknown && !keepMarker ? -1 : value, length };
+};
+
+/**
+ * Read an EBML float element body
+ */
+const readEbmlFloat = (buffer: Buffer, offset: number, size: number): number | undefined => {
+  if (offset + size > buffer.length) return undefined;
+  if (size === 4) return buffer.readFloatBE(offset);
+  if (size === 8) return buffer.readDoubleBE(offset);
+  return undefined;
+};
+
+/**
+ * Find an element id followed by a float body, e.g. SamplingFrequency or Duration
+ */
+const findEbmlFloat = (buffer: Buffer, id: number[], from = 0): number | undefined => {
+  const needle = Buffer.from(id);
+  let index = buffer.indexOf(needle, from);
+
+  while (index !== -1) {
+    const size = readVint(buffer, index + id.length);
+    if (size && (size.value === 4 || size.value === 8)) {
+      const value = readEbmlFloat(buffer, index + id.length + size.length, size.value);
+      if (value !== undefined && Number.isFinite(value) && value > 0) return value;
+    }
+    index = buffer.indexOf(needle, index + 1);
+  }
+
+  return undefined;
+};
+
+/**
+ * Estimate the duration of a WebM recording from the timecodes of its last cluster
+ */
+const lastClusterEndMs = (buffer: Buffer, timecodeScale: number): number | undefined => {
+  const clusterStart = buffer.lastIndexOf(Buffer.from([0x1f, 0x43, 0xb6, 0x75]));
+  if (clusterStart === -1) return undefined;
+
+  const clusterSize = readVint(buffer, clusterStart + 4);
+  if (!clusterSize) return undefined;
+
+  let offset = clusterStart + 4 + clusterSize.length;
+  let clusterTimecode = 0;
+  let lastBlock = 0;
+
+  while (offset < buffer.length) {
+    const id = readVint(buffer, offset, true);
+    if (!id) break;
+    const size = readVint(buffer, offset + id.length);
+    if (!size || size.value < 0) break;
+    const body = offset + id.length + size.length;
+    if (body + size.value > buffer.length) break;
+
+    if (id.value === 0xe7) {
+      clusterTimecode = buffer.readUIntBE(body, Math.min(size.value, 6));
+    } else if (id.value === 0xa3) {
+      // SimpleBlock: track number, then a signed 16-bit timecode relative to the cluster
+      const track = readVint(buffer, body);
+      if (track) lastBlock = Math.max(lastBlock, buffer.readInt16BE(body + track.length));
+    }
+
+    offset = body + size.value;
+  }
+
+  return ((clusterTimecode + lastBlock) * timecodeScale) / 1e6;
+};
+
+/**
+ * Parse the WebM/Matroska headers
+ */
+const parseWebm = (buffer: Buffer): Partial<AudioFormatInfo> => {
+  const codec = buffer.includes('A_OPUS', 0, 'latin1')
+    ? 'opus'
+    : buffer.includes('A_VORBIS', 0, 'latin1')
+      ? 'vorbis'
+      : buffer.includes('A_AAC', 0, 'latin1')
+        ? 'aac'
+        : undefined;
+
+  const sampleRate = findEbmlFloat(buffer, [0xb5]);
+
+  const channelsAt = buffer.indexOf(Buffer.from([0x9f, 0x81]));
+  const channels = channelsAt !== -1 && channelsAt + 2 < buffer.length ? buffer[channelsAt + 2] : undefined;
+
+  // TimecodeScale defaults to one millisecond
+  const scaleAt = buffer.indexOf(Buffer.from([0x2a, 0xd7, 0xb1]));
+  let timecodeScale = 1e6;
+  if (scaleAt !== -1) {
+    const size = readVint(buffer, scaleAt + 3);
+    if (size && size.value > 0 && size.value <= 6) {
+      timecodeScale = buffer.readUIntBE(scaleAt + 3 + size.length, size.value);
+    }
+  }
+
+  // MediaRecorder leaves the Duration element out, fall back to the last block
+  const duration = findEbmlFloat(buffer, [0x44, 0x89]);
+  const durationMs = duration !== undefined
+    ? (duration * timecodeScale) / 1e6
+    : lastClusterEndMs(buffer, timecodeScale);
+
+  return {
+    codec,
+    sampleRate: sampleRate ? Math.round(sampleRate) : undefined,
+    channels,
+    durationMs,
+  };
+};
+
+/**
+ * Parse the Ogg identification header and the granule position of the last page
+ */
+const parseOgg = (buffer: Buffer): Partial<AudioFormatInfo> => {
+  const lastPage = buffer.lastIndexOf('OggS', undefined, 'latin1');
+  const granule = lastPage !== -1 && lastPage + 14 <= buffer.length
+    ? Number(buffer.readBigInt64LE(lastPage + 6))
+    : undefined;
+
+  const opusAt = buffer.indexOf('OpusHead', 0, 'latin1');
+  if (opusAt !== -1 && opusAt + 16 <= buffer.length) {
+    const preSkip = buffer.readUInt16LE(opusAt + 10);
+    // Opus always decodes at 48 kHz, granule positions count 48 kHz samples
+    return {
+      codec: 'opus',
+      channels: buffer[opusAt + 9],
+      sampleRate: buffer.readUInt32LE(opusAt + 12) || 48000,
+      durationMs: granule !== undefined && granule > 0 ? ((granule - preSkip) / 48000) * 1000 : undefined,
+    };
+  }
+
+  const vorbisAt = buffer.indexOf('\x01vorbis', 0, 'latin1');
+  if (vorbisAt !== -1 && vorbisAt + 16 <= buffer.length) {
+    const sampleRate = buffer.readUInt32LE(vorbisAt + 12);
+    return {
+      codec: 'vorbis',
+      channels: buffer[vorbisAt + 11],
+      sampleRate,
+      durationMs: granule !== undefined && granule > 0 && sampleRate ? (granule / sampleRate) * 1000 : undefined,
+    };
+  }
+
+  return buffer.includes('\x7fFLAC', 0, 'latin1') ? { codec: 'flac' } : {};
+};
+
+// MPEG audio layer III tables, indexed by the header fields
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+};
+
+/**
+ * Parse the first MP3 frame header and the Xing/Info frame count if present
+ */
+const parseMp3 = (buffer: Buffer): Partial<AudioFormatInfo> => {
+  let offset = 0;
+
+  // Skip an ID3v2 tag, its size is stored as a syncsafe integer
+  if (hasTag(buffer, 0, 'ID3') && buffer.length >= 10) {
+    offset = 10 + ((buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9]);
+  }
+
+  // Find the first frame sync
+  while (offset + 4 <= buffer.length && !(buffer[offset] === 0xff && (buffer[offset + 1] & 0xe0) === 0xe0)) {
+    offset++;
+  }
+  if (offset + 4 > buffer.length) return { codec: 'mp3' };
+
+  const header = buffer.readUInt32BE(offset);
+  const version = (header >> 19) & 0x3;
+  const bitrateIndex = (header >> 12) & 0xf;
+  const sampleRateIndex = (header >> 10) & 0x3;
+  const channelMode = (header >> 6) & 0x3;
+
+  const sampleRate = MP3_SAMPLE_RATES[version]?.[sampleRateIndex];
+  const bitrate = (version === 3 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[bitrateIndex] * 1000;
+  const channels = channelMode === 3 ? 1 : 2;
+  if (!sampleRate) return { codec: 'mp3' };
+
+  // A Xing/Info frame carries the frame count of variable bitrate files
+  const sideInfo = version === 3 ? (channels === 1 ? 17 : 32) : (channels === 1 ? 9 : 17);
+  const xingAt = offset + 4 + sideInfo;
+  const samplesPerFrame = version === 3 ? 1152 : 576;
+  let durationMs: number | undefined;
+
+  if ((hasTag(buffer, xingAt, 'Xing') || hasTag(buffer, xingAt, 'Info')) && xingAt + 12 <= buffer.length) {
+    const flags = buffer.readUInt32BE(xingAt + 4);
+    if (flags & 0x1) {
+      durationMs = ((buffer.readUInt32BE(xingAt + 8) * samplesPerFrame) / sampleRate) * 1000;
+    }
+  }
+
+  if (durationMs === undefined && bitrate > 0) {
+    durationMs = (((buffer.length - offset) * 8) / bitrate) * 1000;
+  }
+
+  return { codec: 'mp3', sampleRate, channels, durationMs };
+};
+
+/**
+ * Parse the FLAC STREAMINFO block
+ */
+const parseFlac = (buffer: Buffer): Partial<AudioFormatInfo> => {
+  if (buffer.length < 26) return { codec: 'flac' };
+
+  // STREAMINFO starts after the marker and a 4-byte block header
+  const info = 8;
+  const sampleRate = (buffer[info + 10] << 12) | (buffer[info + 11] << 4) | (buffer[info + 12] >> 4);
+  const channels = ((buffer[info + 12] >> 1) & 0x7) + 1;
+  const bitsPerSample = (((buffer[info + 12] & 0x1) << 4) | (buffer[info + 13] >> 4)) + 1;
+  const totalSamples = (buffer[info + 13] & 0xf) * 2 ** 32 + buffer.readUInt32BE(info + 14);
+
+  return {
+    codec: 'flac',
+    sampleRate,
+    channels,
+    bitsPerSample,
+    durationMs: sampleRate && totalSamples ? (totalSamples / sampleRate) * 1000 : undefined,
+  };
+};
+
+/**
+ * Parse the movie header and audio sample entry of an MP4/M4A file
+ */
+const parseMp4 = (buffer: Buffer): Partial<AudioFormatInfo> => {
+  const result: Partial<AudioFormatInfo> = {};
+
+  const mvhdAt = buffer.indexOf('mvhd', 0, 'latin1');
+  if (mvhdAt !== -1 && mvhdAt + 32 <= buffer.length) {
+    const version = buffer[mvhdAt + 4];
+    const timescale = version === 1 ? buffer.readUInt32BE(mvhdAt + 24) : buffer.readUInt32BE(mvhdAt + 16);
+    const duration = version === 1 ? Number(buffer.readBigUInt64BE(mvhdAt + 28)) : buffer.readUInt32BE(mvhdAt + 20);
+    if (timescale > 0) result.durationMs = (duration / timescale) * 1000;
+  }
+
+  // Audio sample entry: 6 reserved, data reference, 8 reserved, channels, sample size, 4 reserved, rate (16.16)
+  const mp4aAt = buffer.indexOf('mp4a', 0, 'latin1');
+  if (mp4aAt !== -1 && mp4aAt + 30 <= buffer.length) {
+    result.codec = 'aac';
+    result.channels = buffer.readUInt16BE(mp4aAt + 20);
+    result.sampleRate = buffer.readUInt16BE(mp4aAt + 28);
+  }
+
+  return result;
+};
+
+/**
+ * Detect the format of an uploaded audio file
+ */
+export const detectAudioFormat = (buffer: Buffer): AudioFormatInfo => {
+  const container = detectContainer(buffer);
+  const base = { container, ...CONTAINER_FILES[container] };
+
+  switch (container) {
+    case 'wav': {
+      const layout = parseWavLayout(buffer);
+      if (!layout) return base;
+      const bytesPerSecond = layout.sampleRate * layout.channels * (layout.bitsPerSample / 8);
+      return {
+        ...base,
+        codec: layout.format === 3 ? 'float' : 'pcm',
+        sampleRate: layout.sampleRate,
+        channels: layout.channels,
+        bitsPerSample: layout.bitsPerSample,
+        durationMs: bytesPerSecond > 0 ? (layout.dataLength / bytesPerSecond) * 1000 : undefined,
+      };
+    }
+    case 'webm':
+      return { ...base, ...parseWebm(buffer) };
+    case 'ogg':
+      return { ...base, ...parseOgg(buffer) };
+    case 'mp3':
+      return { ...base, ...parseMp3(buffer) };
+    case 'flac':
+      return { ...base, ...parseFlac(buffer) };
+    case 'mp4':
+      return { ...base, ...parseMp4(buffer) };
+    default:
+      return base;
+  }
+};
+
+/**
+ * Check if a WAV file is already 16-bit mono PCM
+ */
+export const isPcm16Mono = (info: AudioFormatInfo): boolean => {
+  return info.container === 'wav' && info.codec === 'pcm' && info.bitsPerSample === 16 && info.channels === 1;
+};
+
+/**
+ * Build a 16-bit mono PCM WAV file
+ */
+export const encodePcm16Wav = (samples: Int16Array, sampleRate: number): Buffer => {
+  const buffer = Buffer.alloc(44 + samples.length * 2);
+
+  buffer.write('RIFF', 0, 'latin1');
+  buffer.writeUInt32LE(36 + samples.length * 2, 4);
+  buffer.write('WAVE', 8, 'latin1');
+  buffer.write('fmt ', 12, 'latin1');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36, 'latin1');
+  buffer.writeUInt32LE(samples.length * 2, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(samples[i], 44 + i * 2);
+  }
+
+  return buffer;
+};
+
+/**
+ * Decode any PCM or float WAV (8/16/24/32-bit, any channel count) to 16-bit mono samples,
+ * returns null for compressed WAV variants
+ */
+export const decodeWavSamples = (buffer: Buffer): { samples: Int16Array; sampleRate: number } | null => {
+  const layout = parseWavLayout(buffer);
+  if (!layout || (layout.format !== 1 && layout.format !== 3)) return null;
+
+  const bytesPerSample = layout.bitsPerSample / 8;
+  const frameSize = bytesPerSample * layout.channels;
+  if (!Number.isInteger(bytesPerSample) || frameSize === 0) return null;
+
+  const readSample = (offset: number): number => {
+    if (layout.format === 3) {
+      return bytesPerSample === 8 ? buffer.readDoubleLE(offset) : buffer.readFloatLE(offset);
+    }
+    switch (bytesPerSample) {
+      case 1:
+        return (buffer[offset] - 128) / 128;
+      case 2:
+        return buffer.readInt16LE(offset) / 0x8000;
+      case 3:
+        return buffer.readIntLE(offset, 3) / 0x800000;
+      default:
+        return buffer.readInt32LE(offset) / 0x80000000;
+    }
+  };
+
+  const frames = Math.floor(layout.dataLength / frameSize);
+  const samples = new Int16Array(frames);
+
+  for (let frame = 0; frame < frames; frame++) {
+    // Down-mix by averaging the channels
+    let sum = 0;
+    for (let channel = 0; channel < layout.channels; channel++) {
+      sum += readSample(layout.dataOffset + frame * frameSize + channel * bytesPerSample);
+    }
+    const sample = Math.max(-1, Math.min(1, sum / layout.channels));
+    samples[frame] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+
+  return { samples, sampleRate: layout.sampleRate };
+};
+
+/**
+ * Re-encode any PCM or float WAV as 16-bit mono, returns null for compressed WAV variants
+ */
+export const decodeWavToPcm16Mono = (buffer: Buffer): { wav: Buffer; sampleRate: number } | null => {
+  const decoded = decodeWavSamples(buffer);
+  if (!decoded) return null;
+
+  return { wav: encodePcm16Wav(decoded.samples, decoded.sampleRate), sampleRate: decoded.sampleRate };
+};
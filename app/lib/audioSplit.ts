@@ -0,0 +1,84 @@
+/**
+ * audioSplit.ts
+ * Splits long recordings into provider-sized chunks, cutting in the quietest pause available
+ */
+
+export interface AudioChunk {
+  start: number; // sample index
+  end: number; // exclusive
+}
+
+export interface SplitOptions {
+  maxChunkMs: number;
+  minChunkRatio?: number; // cuts are searched between this share of maxChunkMs and maxChunkMs
+  windowMs?: number; // energy analysis window
+  smoothingMs?: number; // pauses shorter than this are not preferred
+}
+
+/**
+ * Split 16-bit mono samples into chunks no longer than maxChunkMs, each ending at the
+ * quietest moment of the search range so words are not cut in half
+ */
+export const splitOnSilence = (samples: Int16Array, sampleRate: number, options: SplitOptions): AudioChunk[] => {
+  const {
+    maxChunkMs,
+    minChunkRatio = 0.6,
+    windowMs = 20,
+    smoothingMs = 300,
+  } = options;
+
+  const windowSize = Math.max(1, Math.round((sampleRate * windowMs) / 1000));
+  const maxChunkSamples = Math.floor((sampleRate * maxChunkMs) / 1000);
+
+  if (samples.length <= maxChunkSamples) {
+    return samples.length > 0 ? [{ start: 0, end: samples.length }] : [];
+  }
+
+  // RMS energy per window
+  const windowCount = Math.ceil(samples.length / windowSize);
+  const energy = new Float64Array(windowCount);
+  for (let w = 0; w < windowCount; w++) {
+    let sum = 0;
+    const end = Math.min(samples.length, (w + 1) * windowSize);
+    for (let i = w * windowSize; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    energy[w] = Math.sqrt(sum / (end - w * windowSize));
+  }
+
+  // Moving average, so a pause must last a while to look quiet
+  const radius = Math.max(0, Math.floor(smoothingMs / windowMs / 2));
+  const smoothed = new Float64Array(windowCount);
+  let running = 0;
+  for (let w = 0; w < windowCount + radius; w++) {
+    if (w < windowCount) running += energy[w];
+    if (w - 2 * radius - 1 >= 0) running -= energy[w - 2 * radius - 1];
+    const center = w - radius;
+    if (center >= 0 && center < windowCount) {
+      const from = Math.max(0, center - radius);
+      const to = Math.min(windowCount - 1, center + radius);
+      smoothed[center] = running / (to - from + 1);
+    }
+  }
+
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+
+  while (samples.length - start > maxChunkSamples) {
+    const searchFrom = Math.floor((start + maxChunkSamples * minChunkRatio) / windowSize);
+    const searchTo = Math.floor((start + maxChunkSamples) / windowSize) - 1;
+
+    let best = searchTo;
+    for (let w = searchFrom; w <= searchTo; w++) {
+      if (smoothed[w] < smoothed[best]) best = w;
+    }
+
+    // Cut in the middle of the quietest window
+    const cut = Math.min(start + maxChunkSamples, best * windowSize + Math.floor(windowSize / 2));
+    chunks.push({ start, end: cut });
+    start = cut;
+  }
+
+  chunks.push({ start, end: samples.length });
+  return chunks;
+};
@@ -0,0 +1,200 @@
+/**
+ * audioTranscode.ts
+ * Prepares uploaded audio for each transcription provider, transcoding with ffmpeg when needed
+ *
+ * ffmpeg is optional: it is only used for formats a provider cannot take as they are
+ * (e.g. Safari's M4A for Google). Set FFMPEG_PATH if the binary is not on the PATH.
+ */
+
+import { execFile, execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AudioFormatInfo, decodeWavToPcm16Mono, detectAudioFormat, isPcm16Mono } from './audioFormat';
+
+// Raised when an upload cannot be converted into something the provider accepts
+export class UnsupportedAudioError extends Error {
+  constructor(message: string, public readonly format: AudioFormatInfo) {
+    super(message);
+    this.name = 'UnsupportedAudioError';
+  }
+}
+
+// Google Speech encodings this module produces
+export type GoogleAudioEncoding = 'LINEAR16' | 'FLAC' | 'OGG_OPUS' | 'WEBM_OPUS' | 'MP3';
+
+export interface PreparedAudio {
+  buffer: Buffer;
+  format: AudioFormatInfo; // format of the prepared buffer
+  source: AudioFormatInfo; // format of the original upload
+  transcoded: boolean;
+}
+
+export interface GooglePreparedAudio extends PreparedAudio {
+  encoding: GoogleAudioEncoding;
+  sampleRateHertz?: number;
+}
+
+const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
+let ffmpegAvailable: boolean | null = null;
+
+// Longest a single transcode may take
+const TRANSCODE_TIMEOUT_MS = 120 * 1000;
+
+/**
+ * Check once whether ffmpeg can be run
+ */
+export const isFfmpegAvailable = (): boolean => {
+  if (ffmpegAvailable === null) {
+    try {
+      execFileSync(ffmpegPath, ['-version'], { stdio: 'ignore', timeout: 5000 });
+      ffmpegAvailable = true;
+    } catch {
+      ffmpegAvailable = false;
+      console.warn('ffmpeg is not available, uploads that need transcoding will be rejected');
+    }
+  }
+  return ffmpegAvailable;
+};
+
+/**
+ * Run ffmpeg on a buffer, writing the output in the given container with the given codec arguments
+ */
+const runFfmpeg = async (input: Buffer, extension: string, codecArgs: string[]): Promise<Buffer> => {
+  // Temporary files rather than pipes: MP4 needs a seekable input
+  const base = path.join(os.tmpdir(), `transcode-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  const inputPath = `${base}.in`;
+  const outputPath = `${base}.${extension}`;
+
+  fs.writeFileSync(inputPath, input);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      execFile(
+        ffmpegPath,
+        ['-hide_banner', '-loglevel', 'error', '-y', '-i', inputPath, ...codecArgs, outputPath],
+        { timeout: TRANSCODE_TIMEOUT_MS },
+        (error, _stdout, stderr) => {
+          if (error) {
+            reject(new Error(`ffmpeg failed: ${stderr || error.message}`));
+          } else {
+            resolve();
+          }
+        }
+      );
+    });
+
+    return fs.readFileSync(outputPath);
+  } finally {
+    fs.rmSync(inputPath, { force: true });
+    fs.rmSync(outputPath, { force: true });
+  }
+};
+
+/**
+ * Transcode any audio ffmpeg understands to 16-bit mono PCM WAV
+ */
+export const transcodeToWav = async (input: Buffer, sampleRate = 16000): Promise<Buffer> => {
+  return runFfmpeg(input, 'wav', ['-ac', '1', '-ar', String(sampleRate), '-c:a', 'pcm_s16le']);
+};
+
+/**
+ * Compress audio to mono Opus in Ogg, tuned for speech
+ */
+export const transcodeToOpus = async (input: Buffer, bitrateKbps = 24): Promise<Buffer> => {
+  return runFfmpeg(input, 'ogg', ['-ac', '1', '-c:a', 'libopus', '-b:a', `${bitrateKbps}k`, '-application', 'voip']);
+};
+
+/**
+ * Transcode to 16 kHz mono WAV, or explain why that is not possible
+ */
+const transcodeOrReject = async (buffer: Buffer, source: AudioFormatInfo, reason: string): Promise<PreparedAudio> => {
+  if (!isFfmpegAvailable()) {
+    throw new UnsupportedAudioError(`${reason} and ffmpeg is not available to convert it`, source);
+  }
+
+  console.log(`Transcoding ${source.container}/${source.codec || 'unknown'} upload to WAV: ${reason}`);
+  const wav = await transcodeToWav(buffer);
+  return { buffer: wav, format: detectAudioFormat(wav), source, transcoded: true };
+};
+
+/**
+ * Prepare an upload for providers that take a file and read its format themselves
+ * (Whisper, AssemblyAI, self-hosted servers). Only unrecognised audio is transcoded.
+ */
+export const prepareForFileUpload = async (buffer: Buffer): Promise<PreparedAudio> => {
+  const source = detectAudioFormat(buffer);
+
+  if (source.container === 'unknown') {
+    return transcodeOrReject(buffer, source, 'Unrecognised audio format');
+  }
+
+  return { buffer, format: source, source, transcoded: false };
+};
+
+/**
+ * Prepare an upload for Google Speech recognize, which needs the encoding declared
+ */
+export const prepareForGoogle = async (buffer: Buffer): Promise<GooglePreparedAudio> => {
+  const source = detectAudioFormat(buffer);
+  const asIs = (encoding: GoogleAudioEncoding, sampleRateHertz = source.sampleRate): GooglePreparedAudio => ({
+    buffer,
+    format: source,
+    source,
+    transcoded: false,
+    encoding,
+    sampleRateHertz,
+  });
+
+  switch (source.container) {
+    case 'wav': {
+      if (isPcm16Mono(source)) return asIs('LINEAR16');
+
+      // Float, 24-bit or stereo WAV can be converted without ffmpeg
+      const decoded = decodeWavToPcm16Mono(buffer);
+      if (decoded) {
+        return {
+          buffer: decoded.wav,
+          format: detectAudioFormat(decoded.wav),
+          source,
+          transcoded: true,
+          encoding: 'LINEAR16',
+          sampleRateHertz: decoded.sampleRate,
+        };
+      }
+      break;
+    }
+    case 'flac':
+      return asIs('FLAC');
+    case 'ogg':
+      if (source.codec === 'opus') return asIs('OGG_OPUS');
+      break;
+    case 'webm':
+      // Opus in WebM is always 48 kHz
+      if (source.codec === 'opus') return asIs('WEBM_OPUS', 48000);
+      break;
+    case 'mp3':
+      // MP3 support in the v1 API is limited, prefer converting it
+      if (!isFfmpegAvailable()) return asIs('MP3');
+      break;
+  }
+
+  const prepared = await transcodeOrReject(
+    buffer,
+    source,
+    `Google Speech cannot read ${source.container}${source.codec ? `/${source.codec}` : ''} audio`
+  );
+  return { ...prepared, encoding: 'LINEAR16', sampleRateHertz: prepared.format.sampleRate };
+};
+
+/**
+ * Summarise a detected format for API responses
+ */
+export const describeAudio = (format: AudioFormatInfo, transcoded: boolean) => ({
+  container: format.container,
+  codec: format.codec,
+  sampleRate: format.sampleRate,
+  channels: format.channels,
+  durationMs: format.durationMs !== undefined ? Math.round(format.durationMs) : undefined,
+  transcoded,
+});
@@ -0,0 +1,238 @@
+/**
+ * batchJobs.ts
+ * Background transcription of uploaded recordings
+ *
+ * A job decodes the upload to 16-bit mono PCM, splits it on silence into chunks each provider
+ * can take in one request, transcribes the chunks one after another and stitches the results
+ * onto the timeline of the original file. Jobs live in the server process and are polled for progress.
+ *
+ * Speaker labels come from each chunk separately, so the same voice may get different labels
+ * in different chunks of a long recording.
+ */
+
+import { randomUUID } from 'crypto';
+import { AudioFormatInfo, decodeWavSamples, detectAudioFormat, encodePcm16Wav } from './audioFormat';
+import { describeAudio, isFfmpegAvailable, transcodeToWav, UnsupportedAudioError } from './audioTranscode';
+import { splitOnSilence } from './audioSplit';
+import { FileEngine, ProviderWord, transcribeFile } from './transcriptionProviders';
+import { trackTranscription } from './usageMetrics';
+
+export type BatchJobStatus = 'queued' | 'decoding' | 'transcribing' | 'done' | 'error';
+
+export interface BatchSegment {
+  start: number; // milliseconds from the start of the uploaded file
+  end: number;
+  text: string;
+  confidence?: number;
+  speaker?: string;
+  language?: string; // detected language, when the job detects it
+  words: ProviderWord[];
+}
+
+export interface BatchJobOptions {
+  engine: FileEngine;
+  language: string;
+  diarization?: boolean;
+  vocabulary?: string[];
+  fileName?: string;
+  clinician?: string; // whose usage the job's requests count as
+}
+
+export interface BatchJob {
+  id: string;
+  engine: FileEngine;
+  language: string;
+  diarization: boolean;
+  vocabulary: string[];
+  fileName?: string;
+  clinician?: string;
+  status: BatchJobStatus;
+  createdAt: number;
+  updatedAt: number;
+  totalChunks: number;
+  completedChunks: number;
+  durationMs?: number;
+  audio?: ReturnType<typeof describeAudio>;
+  segments: BatchSegment[];
+  text: string;
+  error?: string;
+}
+
+// Request limits per engine: Whisper takes 25 MB per file, Google's synchronous recognize one minute
+const ENGINE_LIMITS: Record<FileEngine, { maxChunkMs: number; maxChunkBytes: number }> = {
+  whisper: { maxChunkMs: 10 * 60 * 1000, maxChunkBytes: 24 * 1024 * 1024 },
+  googleSpeech: { maxChunkMs: 55 * 1000, maxChunkBytes: 9 * 1024 * 1024 },
+  assemblyAINano: { maxChunkMs: 10 * 60 * 1000, maxChunkBytes: 100 * 1024 * 1024 },
+  realtime: { maxChunkMs: 5 * 60 * 1000, maxChunkBytes: 24 * 1024 * 1024 },
+};
+
+// Failed chunks are retried this many times before the job fails
+const CHUNK_RETRIES = 1;
+
+// Finished jobs are kept for polling this long
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+// Route modules are bundled separately, so the registry lives on globalThis
+const registry = globalThis as unknown as { batchJobs?: Map<string, BatchJob> };
+const jobs = registry.batchJobs ?? new Map<string, BatchJob>();
+registry.batchJobs = jobs;
+
+/**
+ * Update a job and its timestamp
+ */
+const updateJob = (job: BatchJob, changes: Partial<BatchJob>): void => {
+  Object.assign(job, changes, { updatedAt: Date.now() });
+};
+
+/**
+ * Forget finished jobs nobody polled for a while
+ */
+const pruneJobs = (): void => {
+  const now = Date.now();
+  jobs.forEach((job, id) => {
+    if ((job.status === 'done' || job.status === 'error') && now - job.updatedAt > JOB_RETENTION_MS) {
+      jobs.delete(id);
+    }
+  });
+};
+
+/**
+ * Decode the upload to 16-bit mono samples, transcoding with ffmpeg when it is not WAV
+ */
+const decodeUpload = async (buffer: Buffer, format: AudioFormatInfo): Promise<{ samples: Int16Array; sampleRate: number }> => {
+  const decoded = format.container === 'wav' ? decodeWavSamples(buffer) : null;
+  if (decoded) return decoded;
+
+  const transcoded = decodeWavSamples(await transcodeToWav(buffer));
+  if (!transcoded) {
+    throw new Error('Transcoded audio could not be decoded');
+  }
+  return transcoded;
+};
+
+/**
+ * Run a job to completion
+ */
+const processJob = async (job: BatchJob, buffer: Buffer, format: AudioFormatInfo): Promise<void> => {
+  try {
+    updateJob(job, { status: 'decoding' });
+    const { samples, sampleRate } = await decodeUpload(buffer, format);
+    const durationMs = (samples.length / sampleRate) * 1000;
+
+    // Keep every chunk inside the engine's duration and size limits
+    const limits = ENGINE_LIMITS[job.engine];
+    const maxChunkMs = Math.min(limits.maxChunkMs, ((limits.maxChunkBytes - 44) / (sampleRate * 2)) * 1000);
+    const chunks = splitOnSilence(samples, sampleRate, { maxChunkMs });
+
+    updateJob(job, { status: 'transcribing', totalChunks: chunks.length, durationMs });
+    console.log(`Batch job ${job.id}: ${Math.round(durationMs / 1000)}s of audio in ${chunks.length} chunks for ${job.engine}`);
+
+    for (const chunk of chunks) {
+      const offset = (chunk.start / sampleRate) * 1000;
+      const wav = encodePcm16Wav(samples.subarray(chunk.start, chunk.end), sampleRate);
+
+      let attempt = 0;
+      while (true) {
+        try {
+          const result = await trackTranscription(
+            { engine: job.engine, clinician: job.clinician },
+            () => transcribeFile(job.engine, wav, {
+              language: job.language,
+              diarization: job.diarization,
+              vocabulary: job.vocabulary,
+            }),
+            () => ({ audioSeconds: (chunk.end - chunk.start) / sampleRate })
+          );
+
+          // Shift the chunk's timings onto the timeline of the whole file
+          const shift = (words: ProviderWord[]) => words.map((word) => ({ ...word, start: word.start + offset, end: word.end + offset }));
+          const chunkEnd = (chunk.end / sampleRate) * 1000;
+          const segments: BatchSegment[] = result.utterances && result.utterances.length > 0
+            ? result.utterances.map((utterance) => ({
+                start: utterance.start + offset,
+                end: utterance.end + offset,
+                text: utterance.text.trim(),
+                confidence: utterance.confidence,
+                speaker: utterance.speaker,
+                language: result.language,
+                words: shift(utterance.words),
+              }))
+            : result.text.trim()
+              ? [{
+                  start: result.words.length > 0 ? result.words[0].start + offset : offset,
+                  end: result.words.length > 0 ? result.words[result.words.length - 1].end + offset : chunkEnd,
+                  text: result.text.trim(),
+                  confidence: result.confidence ?? undefined,
+                  language: result.language,
+                  words: shift(result.words),
+                }]
+              : [];
+
+          const allSegments = [...job.segments, ...segments];
+          updateJob(job, {
+            segments: allSegments,
+            text: allSegments.map((segment) => segment.text).join(' '),
+            completedChunks: job.completedChunks + 1,
+          });
+          break;
+        } catch (error) {
+          if (attempt >= CHUNK_RETRIES) throw error;
+          attempt++;
+          console.warn(`Batch job ${job.id}: chunk at ${Math.round(offset / 1000)}s failed, retrying`, error);
+        }
+      }
+    }
+
+    updateJob(job, { status: 'done' });
+    console.log(`Batch job ${job.id} finished`);
+  } catch (error) {
+    console.error(`Batch job ${job.id} failed:`, error);
+    updateJob(job, { status: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+/**
+ * Create a batch job and start processing it in the background
+ */
+export const createBatchJob = (buffer: Buffer, options: BatchJobOptions): BatchJob => {
+  const format = detectAudioFormat(buffer);
+
+  // Anything but WAV has to be decoded by ffmpeg before it can be split
+  if (format.container !== 'wav' && !isFfmpegAvailable()) {
+    throw new UnsupportedAudioError(`Splitting ${format.container} audio needs ffmpeg, which is not available`, format);
+  }
+
+  pruneJobs();
+
+  const now = Date.now();
+  const job: BatchJob = {
+    id: randomUUID(),
+    engine: options.engine,
+    language: options.language,
+    diarization: options.diarization ?? false,
+    vocabulary: options.vocabulary ?? [],
+    fileName: options.fileName,
+    clinician: options.clinician,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    totalChunks: 0,
+    completedChunks: 0,
+    durationMs: format.durationMs,
+    audio: describeAudio(format, format.container !== 'wav'),
+    segments: [],
+    text: '',
+  };
+
+  jobs.set(job.id, job);
+  void processJob(job, buffer, format);
+
+  return job;
+};
+
+/**
+ * Look up a job
+ */
+export const getBatchJob = (id: string): BatchJob | undefined => {
+  return jobs.get(id);
+};
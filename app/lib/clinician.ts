@@ -0,0 +1,9 @@
+/**
+ * clinician.ts
+ * Names shared by the browser and the server for attributing usage to a clinician
+ *
+ * Imported by browser code, so it must not depend on server modules.
+ */
+
+// Cookie naming the clinician whose consultations the browser's requests belong to
+export const CLINICIAN_COOKIE = 'sttClinician';
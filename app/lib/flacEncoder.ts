@@ -0,0 +1,303 @@
+/**
+ * flacEncoder.ts
+ * Lossless FLAC encoding of 16-bit mono PCM, without ffmpeg
+ *
+ * Each block is coded with the best of FLAC's fixed polynomial predictors (orders 0-4) and a
+ * Rice-coded residual, which keeps recorded speech at roughly half the size of the WAV. Frames can
+ * be encoded one at a time as audio arrives; this module has no Node dependencies, so the browser
+ * uses it for session recordings too.
+ */
+
+// Samples per frame (block size code 12); only the last frame of a stream may be shorter
+export const FLAC_BLOCK_SIZE = 4096;
+const BLOCK_SIZE = FLAC_BLOCK_SIZE;
+
+// Largest partition order tried for the residual
+const MAX_PARTITION_ORDER = 6;
+
+// Largest Rice parameter of the 4-bit residual coding (15 is the escape code)
+const MAX_RICE_PARAMETER = 14;
+
+// CRC-8 (polynomial 0x07) and CRC-16 (polynomial 0x8005) lookup tables
+const crc8Table = new Uint8Array(256);
+const crc16Table = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc8 = i;
+  let crc16 = i << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc8 = crc8 & 0x80 ? ((crc8 << 1) ^ 0x07) & 0xff : (crc8 << 1) & 0xff;
+    crc16 = crc16 & 0x8000 ? ((crc16 << 1) ^ 0x8005) & 0xffff : (crc16 << 1) & 0xffff;
+  }
+  crc8Table[i] = crc8;
+  crc16Table[i] = crc16;
+}
+
+/**
+ * Big-endian bit writer growing as needed
+ */
+class BitWriter {
+  private bytes: Uint8Array;
+  private length = 0; // complete bytes
+  private pending = 0; // bits not yet in a complete byte, fewer than 8
+  private pendingBits = 0;
+
+  constructor(capacity = 1 << 16) {
+    this.bytes = new Uint8Array(capacity);
+  }
+
+  write(value: number, count: number): void {
+    // At most 24 bits at a time, so the pending bits fit in 31
+    if (count > 24) {
+      this.write(Math.floor(value / 0x1000000), count - 24);
+      this.write(value % 0x1000000, 24);
+      return;
+    }
+
+    this.pending = ((this.pending << count) | (value & ((1 << count) - 1))) >>> 0;
+    this.pendingBits += count;
+    while (this.pendingBits >= 8) {
+      this.pendingBits -= 8;
+      this.pushByte((this.pending >>> this.pendingBits) & 0xff);
+    }
+    this.pending &= (1 << this.pendingBits) - 1;
+  }
+
+  writeUnary(zeros: number): void {
+    let remaining = zeros;
+    while (remaining >= 24) {
+      this.write(0, 24);
+      remaining -= 24;
+    }
+    this.write(1, remaining + 1);
+  }
+
+  align(): void {
+    if (this.pendingBits > 0) this.write(0, 8 - this.pendingBits);
+  }
+
+  getLength(): number {
+    return this.length;
+  }
+
+  slice(from: number, to = this.length): Uint8Array {
+    return this.bytes.slice(from, to);
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+/**
+ * Residual of the fixed predictor of an order (0-4)
+ */
+const fixedResidual = (block: Int16Array, order: number): Int32Array => {
+  const residual = new Int32Array(block.length - order);
+  for (let i = order; i < block.length; i++) {
+    const s = block[i];
+    switch (order) {
+      case 0:
+        residual[i] = s;
+        break;
+      case 1:
+        residual[i - 1] = s - block[i - 1];
+        break;
+      case 2:
+        residual[i - 2] = s - 2 * block[i - 1] + block[i - 2];
+        break;
+      case 3:
+        residual[i - 3] = s - 3 * block[i - 1] + 3 * block[i - 2] - block[i - 3];
+        break;
+      default:
+        residual[i - 4] = s - 4 * block[i - 1] + 6 * block[i - 2] - 4 * block[i - 3] + block[i - 4];
+    }
+  }
+  return residual;
+};
+
+/**
+ * Zigzag-fold a signed residual to an unsigned value
+ */
+const fold = (value: number): number => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+/**
+ * Rice parameter for a partition from the sum of its folded residuals, and the estimated bits
+ */
+const riceCost = (sum: number, count: number): { parameter: number; bits: number } => {
+  // The smallest parameter with count * 2^(parameter + 1) >= sum
+  const parameter = sum > count ? Math.min(MAX_RICE_PARAMETER, Math.max(0, Math.ceil(Math.log2(sum / count)) - 1)) : 0;
+  return { parameter, bits: count * (parameter + 1) + Math.floor(sum / (1 << parameter)) };
+};
+
+/**
+ * Choose the partitioning of a residual with the fewest bits, from the partition sums of the
+ * finest partitioning merged pairwise
+ */
+const planResidual = (residual: Int32Array, blockSize: number, order: number) => {
+  const folded = new Uint32Array(residual.length);
+  for (let i = 0; i < residual.length; i++) folded[i] = fold(residual[i]);
+
+  // Partitions must divide the block evenly and the first one must hold more than the warm-up
+  let maxOrder = 0;
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    blockSize % (1 << (maxOrder + 1)) === 0 &&
+    blockSize >> (maxOrder + 1) > order
+  ) {
+    maxOrder++;
+  }
+
+  let sums: number[] = [];
+  const finest = blockSize >> maxOrder;
+  for (let p = 0; p < 1 << maxOrder; p++) {
+    let sum = 0;
+    for (let i = p === 0 ? 0 : p * finest - order; i < (p + 1) * finest - order; i++) sum += folded[i];
+    sums.push(sum);
+  }
+
+  let best: { partitionOrder: number; parameters: number[]; bits: number } | null = null;
+  for (let partitionOrder = maxOrder; partitionOrder >= 0; partitionOrder--) {
+    const partitionSize = blockSize >> partitionOrder;
+    const parameters: number[] = [];
+    let bits = 0;
+    sums.forEach((sum, p) => {
+      const cost = riceCost(sum, p === 0 ? partitionSize - order : partitionSize);
+      parameters.push(cost.parameter);
+      bits += 4 + cost.bits;
+    });
+
+    if (!best || bits < best.bits) best = { partitionOrder, parameters, bits };
+    sums = sums.filter((_, p) => p % 2 === 0).map((sum, p) => sum + (sums[2 * p + 1] ?? 0));
+  }
+
+  return { folded, plan: best! };
+};
+
+/**
+ * Write one frame holding a block of samples
+ */
+const writeFrame = (writer: BitWriter, block: Int16Array, frameNumber: number): void => {
+  const start = writer.getLength();
+
+  // Frame header: sync code, fixed block size, block size and sample rate codes, mono, 16 bits
+  writer.write(0x3ffe, 14);
+  writer.write(0, 1);
+  writer.write(0, 1);
+  writer.write(block.length === BLOCK_SIZE ? 12 : 7, 4);
+  writer.write(0, 4); // sample rate from STREAMINFO
+  writer.write(0, 4);
+  writer.write(4, 3);
+  writer.write(0, 1);
+
+  // Frame number in FLAC's UTF-8-like coding
+  if (frameNumber < 0x80) {
+    writer.write(frameNumber, 8);
+  } else {
+    const bytes: number[] = [];
+    let value = frameNumber;
+    while (value >= 0x40 >> bytes.length) {
+      bytes.unshift(0x80 | (value & 0x3f));
+      value = Math.floor(value / 64);
+    }
+    writer.write(((0xff00 >> (bytes.length + 1)) & 0xff) | value, 8);
+    bytes.forEach((byte) => writer.write(byte, 8));
+  }
+  if (block.length !== BLOCK_SIZE) writer.write(block.length - 1, 16);
+
+  let crc8 = 0;
+  writer.slice(start).forEach((byte) => {
+    crc8 = crc8Table[crc8 ^ byte];
+  });
+  writer.write(crc8, 8);
+
+  // Subframe: the fixed predictor order that leaves the smallest residual
+  let best: { order: number; folded: Uint32Array; plan: ReturnType<typeof planResidual>['plan'] } | null = null;
+  for (let order = 0; order <= Math.min(4, block.length - 1); order++) {
+    const { folded, plan } = planResidual(fixedResidual(block, order), block.length, order);
+    if (!best || plan.bits + order * 16 < best.plan.bits + best.order * 16) {
+      best = { order, folded, plan };
+    }
+  }
+
+  const { order, folded, plan } = best!;
+  writer.write((0x08 | order) << 1, 8);
+  for (let i = 0; i < order; i++) writer.write(block[i] & 0xffff, 16);
+
+  writer.write(0, 2); // Rice coding with 4-bit parameters
+  writer.write(plan.partitionOrder, 4);
+  const partitionSize = block.length >> plan.partitionOrder;
+  plan.parameters.forEach((parameter, p) => {
+    writer.write(parameter, 4);
+    const from = p === 0 ? 0 : p * partitionSize - order;
+    const to = (p + 1) * partitionSize - order;
+    for (let i = from; i < to; i++) {
+      writer.writeUnary(folded[i] >>> parameter);
+      if (parameter > 0) writer.write(folded[i] & ((1 << parameter) - 1), parameter);
+    }
+  });
+
+  // Frame footer: padding and CRC-16 of the whole frame
+  writer.align();
+  let crc16 = 0;
+  writer.slice(start).forEach((byte) => {
+    crc16 = ((crc16 << 8) & 0xffff) ^ crc16Table[(crc16 >> 8) ^ byte];
+  });
+  writer.write(crc16, 16);
+};
+
+/**
+ * The stream marker and STREAMINFO block that start a FLAC file of 16-bit mono samples
+ */
+export const encodeFlacHeader = (sampleRate: number, totalSamples: number): Uint8Array => {
+  const writer = new BitWriter(42);
+
+  // Stream marker and the STREAMINFO block (the only metadata block); the MD5 is left unset
+  writer.write(0x664c6143, 32);
+  writer.write(1, 1);
+  writer.write(0, 7);
+  writer.write(34, 24);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(0, 24);
+  writer.write(0, 24);
+  writer.write(sampleRate, 20);
+  writer.write(0, 3); // one channel
+  writer.write(15, 5); // 16 bits per sample
+  writer.write(Math.floor(totalSamples / Math.pow(2, 32)), 4);
+  writer.write(totalSamples % Math.pow(2, 32), 32);
+  for (let i = 0; i < 16; i++) writer.write(0, 8);
+
+  return writer.slice(0);
+};
+
+/**
+ * One FLAC frame holding a block of up to FLAC_BLOCK_SIZE samples, numbered from 0
+ */
+export const encodeFlacFrame = (block: Int16Array, frameNumber: number): Uint8Array => {
+  // Room for the samples uncoded plus the headers, which a frame rarely needs
+  const writer = new BitWriter(block.length * 2 + 64);
+  writeFrame(writer, block, frameNumber);
+  return writer.slice(0);
+};
+
+/**
+ * Encode 16-bit mono samples as a FLAC file
+ */
+export const encodeFlac = (samples: Int16Array, sampleRate: number): Uint8Array => {
+  const parts = [encodeFlacHeader(sampleRate, samples.length)];
+  for (let offset = 0, frame = 0; offset < samples.length; offset += BLOCK_SIZE, frame++) {
+    parts.push(encodeFlacFrame(samples.subarray(offset, offset + BLOCK_SIZE), frame));
+  }
+
+  const file = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  parts.reduce((offset, part) => {
+    file.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return file;
+};
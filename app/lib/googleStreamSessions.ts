@@ -0,0 +1,406 @@
+/**
+ * googleStreamSessions.ts
+ * Server-side bridge between browser PCM uploads and Google streamingRecognize
+ *
+ * A session owns one Google stream at a time. Google closes streams after about five minutes
+ * of audio, so the session rotates to a fresh stream before that limit and shifts the result
+ * times of every stream onto the session's audio timeline. The browser uploads numbered chunks a
+ * few at a time, so chunks are written to Google in sequence order whatever order they arrive in.
+ */
+
+import { randomUUID } from 'crypto';
+import { SpeechClient, protos } from '@google-cloud/speech';
+import { durationToMs } from './transcriptionProviders';
+import { recordUsage } from './usageMetrics';
+
+type GoogleStream = ReturnType<SpeechClient['streamingRecognize']>;
+
+export interface StreamSessionConfig {
+  languageCode: string;
+  sampleRate: number;
+  diarization?: boolean;
+  speechContexts?: protos.google.cloud.speech.v1.ISpeechContext[];
+  clinician?: string; // whose usage the session counts as
+}
+
+interface StreamWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  speaker?: string;
+}
+
+// Events delivered to the browser over server-sent events
+export type StreamEvent =
+  | {
+      type: 'result';
+      text: string;
+      isFinal: boolean;
+      confidence?: number;
+      start: number; // milliseconds of session audio
+      end: number;
+      words: StreamWord[];
+      speaker?: string;
+    }
+  | { type: 'rotated'; offset: number }
+  | { type: 'error'; message: string }
+  | { type: 'end' };
+
+type StreamEventListener = (event: StreamEvent) => void;
+
+interface StreamSession {
+  id: string;
+  config: StreamSessionConfig;
+  client: SpeechClient;
+  stream: GoogleStream | null;
+  streamOffset: number; // session audio time at which the current stream started
+  streamAudioMs: number; // audio written to the current stream
+  audioMs: number; // audio received over the whole session
+  nextSequence: number; // number of the next chunk to write to Google
+  reordered: Map<number, Buffer>; // chunks that arrived ahead of an earlier one
+  lastFinalEnd: number;
+  listeners: Set<StreamEventListener>;
+  backlog: StreamEvent[]; // events emitted before the browser connected
+  lastActivity: number;
+  closing: boolean;
+  failed: boolean; // a stream ended with an error
+  openStreams: number;
+}
+
+// Rotate well before Google's ~305 second per-stream limit
+const ROTATE_AFTER_MS = 290 * 1000;
+
+// Sessions without audio or listeners for this long are closed
+const IDLE_TIMEOUT_MS = 60 * 1000;
+
+// Chunks kept waiting for a missing earlier one before it is given up on
+const MAX_REORDERED_CHUNKS = 16;
+
+// gRPC status Google uses when a stream exceeds its maximum duration
+const OUT_OF_RANGE = 11;
+
+// Route modules are bundled separately, so the registry lives on globalThis
+const registry = globalThis as unknown as {
+  googleStreamSessions?: Map<string, StreamSession>;
+  googleStreamSweep?: ReturnType<typeof setInterval>;
+};
+const sessions = registry.googleStreamSessions ?? new Map<string, StreamSession>();
+registry.googleStreamSessions = sessions;
+
+/**
+ * Deliver an event to the connected listeners, or keep it until one connects
+ */
+const emit = (session: StreamSession, event: StreamEvent): void => {
+  if (session.listeners.size === 0) {
+    session.backlog.push(event);
+    return;
+  }
+  session.listeners.forEach((listener) => listener(event));
+};
+
+/**
+ * Pick the speaker who said most of the words
+ */
+const dominantSpeaker = (words: StreamWord[]): string | undefined => {
+  const counts = new Map<string, number>();
+  words.forEach((word) => {
+    if (word.speaker) counts.set(word.speaker, (counts.get(word.speaker) || 0) + 1);
+  });
+
+  let best: string | undefined;
+  counts.forEach((count, speaker) => {
+    if (!best || count > (counts.get(best) || 0)) best = speaker;
+  });
+  return best;
+};
+
+/**
+ * Turn a Google streaming response into result events on the session timeline
+ */
+const handleResponse = (
+  session: StreamSession,
+  offset: number,
+  response: protos.google.cloud.speech.v1.IStreamingRecognizeResponse
+): void => {
+  for (const result of response.results || []) {
+    const alternative = result.alternatives?.[0];
+    if (!alternative?.transcript) continue;
+
+    const words: StreamWord[] = (alternative.words || [])
+      .filter((word) => word.word)
+      .map((word) => ({
+        text: word.word as string,
+        start: offset + durationToMs(word.startTime),
+        end: offset + durationToMs(word.endTime),
+        confidence: word.confidence || undefined,
+        speaker: session.config.diarization && word.speakerTag ? String(word.speakerTag) : undefined,
+      }));
+
+    const end = offset + durationToMs(result.resultEndTime);
+    const start = words.length > 0 ? words[0].start : session.lastFinalEnd;
+
+    if (result.isFinal) {
+      session.lastFinalEnd = end;
+    }
+
+    emit(session, {
+      type: 'result',
+      text: alternative.transcript.trim(),
+      isFinal: Boolean(result.isFinal),
+      confidence: alternative.confidence || undefined,
+      start,
+      end,
+      words,
+      speaker: dominantSpeaker(words),
+    });
+  }
+};
+
+/**
+ * Close a session once its last Google stream has finished
+ */
+const finishIfDone = (session: StreamSession): void => {
+  if (!session.closing || session.openStreams > 0) return;
+
+  emit(session, { type: 'end' });
+  sessions.delete(session.id);
+  recordUsage({
+    engine: 'googleSpeech',
+    clinician: session.config.clinician,
+    ok: !session.failed,
+    audioSeconds: session.audioMs / 1000,
+  });
+  console.log(`Google streaming session ${session.id} closed after ${Math.round(session.audioMs / 1000)}s of audio`);
+};
+
+/**
+ * Open a new Google stream for the session at the current audio position
+ */
+const openStream = (session: StreamSession): void => {
+  const offset = session.audioMs;
+  const stream = session.client.streamingRecognize({
+    config: {
+      encoding: 'LINEAR16',
+      sampleRateHertz: session.config.sampleRate,
+      languageCode: session.config.languageCode,
+      enableAutomaticPunctuation: true,
+      enableWordTimeOffsets: true,
+      ...(session.config.speechContexts?.length && { speechContexts: session.config.speechContexts }),
+      ...(session.config.diarization && {
+        diarizationConfig: {
+          enableSpeakerDiarization: true,
+          minSpeakerCount: 2,
+          maxSpeakerCount: 2,
+        },
+      }),
+    },
+    interimResults: true,
+  });
+
+  session.stream = stream;
+  session.streamOffset = offset;
+  session.streamAudioMs = 0;
+  session.openStreams += 1;
+
+  let finished = false;
+  const markFinished = () => {
+    if (finished) return;
+    finished = true;
+    session.openStreams -= 1;
+    finishIfDone(session);
+  };
+
+  stream.on('data', (response: protos.google.cloud.speech.v1.IStreamingRecognizeResponse) => {
+    handleResponse(session, offset, response);
+  });
+
+  stream.on('error', (error: Error & { code?: number }) => {
+    if (error.code === OUT_OF_RANGE && !session.closing) {
+      // Google ended the stream on its own limit, carry on with a new one
+      console.log(`Google stream for session ${session.id} hit the duration limit, rotating`);
+      if (session.stream === stream) {
+        rotateStream(session);
+      }
+    } else {
+      console.error(`Google streaming error in session ${session.id}:`, error);
+      emit(session, { type: 'error', message: error.message });
+      session.failed = true;
+      if (session.stream === stream) {
+        session.stream = null;
+        session.closing = true;
+      }
+    }
+    markFinished();
+  });
+
+  stream.on('end', markFinished);
+  stream.on('close', markFinished);
+};
+
+/**
+ * End the current stream (letting its last results arrive) and start the next one
+ */
+const rotateStream = (session: StreamSession): void => {
+  const previous = session.stream;
+  openStream(session);
+  if (previous) {
+    previous.end();
+  }
+
+  emit(session, { type: 'rotated', offset: session.streamOffset });
+  console.log(`Rotated Google stream for session ${session.id} at ${Math.round(session.streamOffset / 1000)}s`);
+};
+
+/**
+ * Close sessions the browser abandoned without saying goodbye
+ */
+const sweepIdleSessions = (): void => {
+  const now = Date.now();
+  sessions.forEach((session) => {
+    if (now - session.lastActivity > IDLE_TIMEOUT_MS) {
+      console.log(`Closing idle Google streaming session ${session.id}`);
+      if (session.closing) {
+        // The stream never reported its end, stop waiting for it
+        session.openStreams = 0;
+      }
+      closeSession(session.id);
+    }
+  });
+};
+
+/**
+ * Create a streaming session and open its first Google stream
+ */
+export const createSession = (config: StreamSessionConfig): string => {
+  const session: StreamSession = {
+    id: randomUUID(),
+    config,
+    client: new SpeechClient(),
+    stream: null,
+    streamOffset: 0,
+    streamAudioMs: 0,
+    audioMs: 0,
+    nextSequence: 0,
+    reordered: new Map(),
+    lastFinalEnd: 0,
+    listeners: new Set(),
+    backlog: [],
+    lastActivity: Date.now(),
+    closing: false,
+    failed: false,
+    openStreams: 0,
+  };
+
+  sessions.set(session.id, session);
+  openStream(session);
+
+  if (!registry.googleStreamSweep) {
+    registry.googleStreamSweep = setInterval(sweepIdleSessions, IDLE_TIMEOUT_MS / 2);
+    registry.googleStreamSweep.unref?.();
+  }
+
+  console.log(`Google streaming session ${session.id} created (${config.languageCode}, ${config.sampleRate} Hz)`);
+  return session.id;
+};
+
+/**
+ * Write audio to the session's current stream, rotating first when it is due
+ */
+const appendAudio = (session: StreamSession, pcm: Buffer): void => {
+  if (session.streamAudioMs >= ROTATE_AFTER_MS) {
+    rotateStream(session);
+  }
+
+  const durationMs = (pcm.length / 2 / session.config.sampleRate) * 1000;
+  session.stream?.write(pcm);
+  session.streamAudioMs += durationMs;
+  session.audioMs += durationMs;
+};
+
+/**
+ * Write a chunk of 16-bit PCM audio to a session, in the order of the chunks' sequence numbers
+ * when they have one; returns false for unknown or closed sessions
+ */
+export const writeAudio = (id: string, pcm: Buffer, sequence?: number): boolean => {
+  const session = sessions.get(id);
+  if (!session || session.closing || !session.stream) return false;
+
+  session.lastActivity = Date.now();
+
+  if (sequence === undefined) {
+    appendAudio(session, pcm);
+    return true;
+  }
+
+  // A chunk that arrives again after it was written is not written twice
+  if (sequence < session.nextSequence) return true;
+  session.reordered.set(sequence, pcm);
+
+  // A chunk that never arrives must not hold back the rest of the session
+  if (session.reordered.size > MAX_REORDERED_CHUNKS && !session.reordered.has(session.nextSequence)) {
+    const next = Math.min(...Array.from(session.reordered.keys()));
+    console.warn(`Google streaming session ${session.id}: chunks ${session.nextSequence} to ${next - 1} never arrived, skipping them`);
+    session.nextSequence = next;
+  }
+
+  let chunk = session.reordered.get(session.nextSequence);
+  while (chunk) {
+    session.reordered.delete(session.nextSequence);
+    session.nextSequence += 1;
+    appendAudio(session, chunk);
+    chunk = session.reordered.get(session.nextSequence);
+  }
+  return true;
+};
+
+/**
+ * Finalize the speech heard so far by ending the current stream, whose last results are still
+ * delivered, and carrying on in a new one; returns false for unknown or closed sessions
+ */
+export const flushSession = (id: string): boolean => {
+  const session = sessions.get(id);
+  if (!session || session.closing || !session.stream) return false;
+
+  session.lastActivity = Date.now();
+  rotateStream(session);
+  return true;
+};
+
+/**
+ * Listen to a session's events, returns an unsubscribe function or null for unknown sessions
+ */
+export const subscribe = (id: string, listener: StreamEventListener): (() => void) | null => {
+  const session = sessions.get(id);
+  if (!session) return null;
+
+  session.lastActivity = Date.now();
+  session.listeners.add(listener);
+
+  // Deliver what happened before the browser connected
+  const backlog = session.backlog;
+  session.backlog = [];
+  backlog.forEach(listener);
+
+  return () => {
+    session.listeners.delete(listener);
+  };
+};
+
+/**
+ * Finish a session: the current stream is ended and its final results are still delivered
+ */
+export const closeSession = (id: string): boolean => {
+  const session = sessions.get(id);
+  if (!session) return false;
+
+  if (!session.closing) {
+    session.closing = true;
+    const stream = session.stream;
+    session.stream = null;
+    stream?.end();
+  }
+
+  finishIfDone(session);
+  return true;
+};
@@ -0,0 +1,267 @@
+/**
+ * recordingArchive.ts
+ * Compressed archive of consultation recordings, kept on disk next to their transcripts
+ *
+ * Session recordings arrive as 16-bit mono FLAC, encoded by the browser while recording, or as
+ * PCM WAV. They are stored as FLAC (lossless; a WAV is encoded in process) or, with
+ * RECORDING_ARCHIVE_FORMAT=opus and ffmpeg installed, as Opus. Recordings older
+ * than RECORDING_RETENTION_DAYS are deleted whenever the archive is used; 0 keeps them forever.
+ * The archive directory (RECORDING_ARCHIVE_DIR) should be on persistent storage.
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { decodeWavSamples, detectAudioFormat } from './audioFormat';
+import { isFfmpegAvailable, transcodeToOpus, UnsupportedAudioError } from './audioTranscode';
+import { encodeFlac } from './flacEncoder';
+import type { TranscriptSegment } from '../services/TranscriptSegment';
+
+export type ArchiveFormat = 'flac' | 'opus';
+
+export interface ArchivedRecording {
+  id: string;
+  createdAt: number;
+  expiresAt: number | null; // null when recordings are kept forever
+  startedAt?: number; // wall-clock time the session started
+  durationMs: number;
+  sampleRate: number;
+  format: ArchiveFormat;
+  mimeType: string;
+  size: number; // bytes of the compressed audio
+  originalSize: number; // bytes of the upload
+  language?: string;
+  engines: string[];
+  segmentCount: number;
+}
+
+export interface ArchivedRecordingDetails {
+  segments: TranscriptSegment[];
+  language?: string;
+  engines?: string[];
+  startedAt?: number;
+}
+
+// Where each format is stored and how it is served
+const FORMATS: Record<ArchiveFormat, { extension: string; mimeType: string }> = {
+  flac: { extension: '.flac', mimeType: 'audio/flac' },
+  opus: { extension: '.ogg', mimeType: 'audio/ogg' },
+};
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// Recording ids are UUIDs; anything else never reaches the file system
+const RECORDING_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Directory the archive is kept in, created on first use
+ */
+const getArchiveDir = (): string => {
+  const dir = process.env.RECORDING_ARCHIVE_DIR || path.join(process.cwd(), 'recordings');
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+};
+
+/**
+ * Days recordings are kept, 0 for forever
+ */
+export const getRetentionDays = (): number => {
+  const days = Number(process.env.RECORDING_RETENTION_DAYS);
+  return process.env.RECORDING_RETENTION_DAYS !== undefined && Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+/**
+ * Format new recordings are stored in; Opus falls back to FLAC without ffmpeg
+ */
+const getArchiveFormat = (): ArchiveFormat => {
+  if (process.env.RECORDING_ARCHIVE_FORMAT !== 'opus') return 'flac';
+  if (isFfmpegAvailable()) return 'opus';
+
+  console.warn('RECORDING_ARCHIVE_FORMAT is opus but ffmpeg is not available, archiving as FLAC');
+  return 'flac';
+};
+
+/**
+ * Paths of a recording's metadata, transcript and audio
+ */
+const getPaths = (id: string, format: ArchiveFormat = 'flac') => {
+  const dir = getArchiveDir();
+  return {
+    meta: path.join(dir, `${id}.json`),
+    segments: path.join(dir, `${id}.segments.json`),
+    audio: path.join(dir, `${id}${FORMATS[format].extension}`),
+  };
+};
+
+/**
+ * Read a recording's metadata, null when it does not exist
+ */
+const readMeta = (id: string): ArchivedRecording | null => {
+  if (!RECORDING_ID_PATTERN.test(id)) return null;
+
+  try {
+    return JSON.parse(fs.readFileSync(getPaths(id).meta, 'utf8'));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Delete a recording's files, returns whether it existed
+ */
+export const deleteRecording = (id: string): boolean => {
+  const recording = readMeta(id);
+  if (!recording) return false;
+
+  const paths = getPaths(id, recording.format);
+  fs.rmSync(paths.audio, { force: true });
+  fs.rmSync(paths.segments, { force: true });
+  fs.rmSync(paths.meta, { force: true });
+  return true;
+};
+
+/**
+ * Delete the recordings past their retention, returns how many were deleted
+ */
+export const pruneExpiredRecordings = (): number => {
+  const now = Date.now();
+  let deleted = 0;
+
+  fs.readdirSync(getArchiveDir())
+    .filter((file) => file.endsWith('.json') && !file.endsWith('.segments.json'))
+    .forEach((file) => {
+      const recording = readMeta(file.slice(0, -'.json'.length));
+      if (recording?.expiresAt && recording.expiresAt <= now && deleteRecording(recording.id)) {
+        deleted++;
+      }
+    });
+
+  if (deleted > 0) console.log(`Deleted ${deleted} archived recording(s) past their retention`);
+  return deleted;
+};
+
+/**
+ * The sample rate and length of an uploaded session recording, with its FLAC encoding when it
+ * already is one; null when it is neither 16-bit mono FLAC nor PCM WAV
+ */
+const readSessionAudio = (upload: Buffer): { sampleRate: number; durationMs: number; flac: () => Uint8Array } | null => {
+  const info = detectAudioFormat(upload);
+  if (info.container === 'flac') {
+    if (info.channels !== 1 || info.bitsPerSample !== 16 || !info.sampleRate || !info.durationMs) return null;
+    return { sampleRate: info.sampleRate, durationMs: info.durationMs, flac: () => upload };
+  }
+
+  const decoded = decodeWavSamples(upload);
+  if (!decoded || decoded.samples.length === 0) return null;
+  return {
+    sampleRate: decoded.sampleRate,
+    durationMs: (decoded.samples.length / decoded.sampleRate) * 1000,
+    flac: () => encodeFlac(decoded.samples, decoded.sampleRate),
+  };
+};
+
+/**
+ * Compress a session recording and store it with its transcript
+ */
+export const archiveRecording = async (upload: Buffer, details: ArchivedRecordingDetails): Promise<ArchivedRecording> => {
+  const session = readSessionAudio(upload);
+  if (!session) {
+    throw new UnsupportedAudioError('Session recordings must be 16-bit mono FLAC or PCM WAV', detectAudioFormat(upload));
+  }
+
+  pruneExpiredRecordings();
+
+  const format = getArchiveFormat();
+  const audio = format === 'opus' ? await transcodeToOpus(upload) : session.flac();
+
+  const createdAt = Date.now();
+  const retentionDays = getRetentionDays();
+  const recording: ArchivedRecording = {
+    id: randomUUID(),
+    createdAt,
+    expiresAt: retentionDays > 0 ? createdAt + retentionDays * 24 * 60 * 60 * 1000 : null,
+    startedAt: details.startedAt,
+    durationMs: session.durationMs,
+    sampleRate: session.sampleRate,
+    format,
+    mimeType: FORMATS[format].mimeType,
+    size: audio.length,
+    originalSize: upload.length,
+    language: details.language,
+    engines: details.engines ?? [],
+    segmentCount: details.segments.length,
+  };
+
+  // Metadata last, so a recording is only listed once its files are complete
+  const paths = getPaths(recording.id, format);
+  fs.writeFileSync(paths.audio, audio);
+  fs.writeFileSync(paths.segments, JSON.stringify(details.segments));
+  fs.writeFileSync(paths.meta, JSON.stringify(recording));
+
+  console.log(`Archived recording ${recording.id}: ${Math.round(recording.durationMs / 1000)}s as ${format}, ${upload.length} -> ${audio.length} bytes`);
+  return recording;
+};
+
+/**
+ * Replace the transcript of a recording, e.g. with results that arrived after it was archived
+ */
+export const updateRecordingSegments = (id: string, segments: TranscriptSegment[], engines: string[]): ArchivedRecording | null => {
+  const recording = readMeta(id);
+  if (!recording) return null;
+
+  const updated: ArchivedRecording = { ...recording, engines, segmentCount: segments.length };
+  const paths = getPaths(id, recording.format);
+  fs.writeFileSync(paths.segments, JSON.stringify(segments));
+  fs.writeFileSync(paths.meta, JSON.stringify(updated));
+  return updated;
+};
+
+/**
+ * The archived recordings, newest first
+ */
+export const listRecordings = (): ArchivedRecording[] => {
+  pruneExpiredRecordings();
+
+  return fs.readdirSync(getArchiveDir())
+    .filter((file) => file.endsWith('.json') && !file.endsWith('.segments.json'))
+    .map((file) => readMeta(file.slice(0, -'.json'.length)))
+    .filter((recording): recording is ArchivedRecording => recording !== null)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * A recording with its transcript, null when it does not exist or has expired
+ */
+export const getRecording = (id: string): (ArchivedRecording & { segments: TranscriptSegment[] }) | null => {
+  const recording = readMeta(id);
+  if (!recording || (recording.expiresAt && recording.expiresAt <= Date.now())) return null;
+
+  try {
+    const segments: TranscriptSegment[] = JSON.parse(fs.readFileSync(getPaths(id).segments, 'utf8'));
+    return { ...recording, segments };
+  } catch {
+    return { ...recording, segments: [] };
+  }
+};
+
+/**
+ * A recording's compressed audio, null when it does not exist or has expired
+ */
+export const readRecordingAudio = (id: string): { recording: ArchivedRecording; audio: Buffer } | null => {
+  const recording = readMeta(id);
+  if (!recording || (recording.expiresAt && recording.expiresAt <= Date.now())) return null;
+
+  try {
+    return { recording, audio: fs.readFileSync(getPaths(id, recording.format).audio) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * File name offered when a recording is downloaded
+ */
+export const getDownloadName = (recording: ArchivedRecording): string => {
+  const date = new Date(recording.startedAt ?? recording.createdAt).toISOString().slice(0, 16).replace(/[T:]/g, '-');
+  return `consultation-${date}${FORMATS[recording.format].extension}`;
+};
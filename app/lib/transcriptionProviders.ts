@@ -0,0 +1,462 @@
+/**
+ * transcriptionProviders.ts
+ * Server-side clients for every transcription provider, shared by the single-request
+ * routes and the batch jobs
+ *
+ * Each client takes an audio buffer in any supported format and returns the text with
+ * word timings (milliseconds from the start of the buffer) and, when requested, speaker turns.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import OpenAI from 'openai';
+import { AssemblyAI, TranscriptWord } from 'assemblyai';
+import { SpeechClient, protos } from '@google-cloud/speech';
+import { describeAudio, prepareForFileUpload, prepareForGoogle } from './audioTranscode';
+import { AUTO_LANGUAGE, DEFAULT_LANGUAGE, normalizeDetectedLanguage } from '../services/Languages';
+
+// Engines that can transcribe a recorded file on the server
+export type FileEngine = 'whisper' | 'googleSpeech' | 'assemblyAINano' | 'realtime';
+
+export interface ProviderWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  speaker?: string;
+}
+
+export interface ProviderUtterance {
+  speaker: string;
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  words: ProviderWord[];
+}
+
+export interface ProviderOptions {
+  language: string; // engine language code, or AUTO_LANGUAGE for engines that detect it
+  diarization?: boolean;
+  speakersExpected?: number;
+  prompt?: string; // transcript preceding this audio, for engines that take context
+  vocabulary?: string[]; // terms to spell the way the clinic does
+  speechContexts?: protos.google.cloud.speech.v1.ISpeechContext[]; // boosted phrase hints for Google
+}
+
+export interface ProviderResult {
+  text: string;
+  confidence?: number | null;
+  words: ProviderWord[];
+  utterances?: ProviderUtterance[];
+  audio: ReturnType<typeof describeAudio>;
+  id?: string; // provider-side transcript id, when there is one
+  language?: string; // BCP-47 tag of the detected language, with automatic detection
+}
+
+// A provider client; the real ones call the vendor, a stand-in may replay recorded responses
+export type ProviderClient = (buffer: Buffer, options: ProviderOptions) => Promise<ProviderResult>;
+
+// Route modules are bundled separately, so replaced clients live on globalThis
+const registry = globalThis as unknown as { transcriptionClients?: Map<FileEngine, ProviderClient> };
+const replacedClients = registry.transcriptionClients ?? new Map<FileEngine, ProviderClient>();
+registry.transcriptionClients = replacedClients;
+
+/**
+ * Replace an engine's provider client, or restore the real one with null
+ */
+export const setProviderClient = (engine: FileEngine, client: ProviderClient | null): void => {
+  if (client) {
+    replacedClients.set(engine, client);
+  } else {
+    replacedClients.delete(engine);
+  }
+};
+
+/**
+ * Whether an engine's provider client was replaced, so its requests never reach the provider
+ */
+export const isProviderClientReplaced = (engine: FileEngine): boolean => {
+  return replacedClients.has(engine);
+};
+
+/**
+ * Whether an engine can transcribe: its credentials are configured or its client was replaced
+ */
+export const isProviderConfigured = (engine: FileEngine): boolean => {
+  if (replacedClients.has(engine)) return true;
+
+  switch (engine) {
+    case 'whisper':
+      return Boolean(process.env.OPENAI_API_KEY);
+    case 'assemblyAINano':
+      return Boolean(process.env.ASSEMBLYAI_API_KEY);
+    case 'realtime':
+      return Boolean(process.env.SELF_HOSTED_STT_URL);
+    default:
+      // Google reads its credentials from the environment on its own
+      return true;
+  }
+};
+
+/**
+ * Convert a protobuf duration to milliseconds
+ */
+export const durationToMs = (duration?: protos.google.protobuf.IDuration | null): number => {
+  if (!duration) return 0;
+  return Number(String(duration.seconds || 0)) * 1000 + Math.round((duration.nanos || 0) / 1e6);
+};
+
+// Boost for vocabulary sent to Google without its own speech contexts
+const DEFAULT_PHRASE_BOOST = 10;
+
+/**
+ * Read a vocabulary form field, sent as a JSON array or a comma-separated list
+ */
+export const parseVocabulary = (value: FormDataEntryValue | null): string[] => {
+  if (typeof value !== 'string') return [];
+
+  let terms: unknown[] = value.split(',');
+  if (value.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+      terms = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      terms = [];
+    }
+  }
+
+  return terms
+    .filter((term): term is string => typeof term === 'string')
+    .map(term => term.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Read Google speech contexts sent as JSON, ignoring anything malformed
+ */
+export const parseSpeechContexts = (value: unknown): protos.google.cloud.speech.v1.ISpeechContext[] | undefined => {
+  let contexts = value;
+  if (typeof value === 'string') {
+    try {
+      contexts = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!Array.isArray(contexts)) return undefined;
+
+  return contexts
+    .filter((context) => context && Array.isArray(context.phrases))
+    .map((context) => ({
+      phrases: context.phrases.filter((phrase: unknown): phrase is string => typeof phrase === 'string' && phrase.trim() !== ''),
+      ...(typeof context.boost === 'number' && { boost: context.boost }),
+    }))
+    .filter((context) => context.phrases.length > 0);
+};
+
+/**
+ * Google speech contexts for a request: the explicit ones, or the vocabulary at the default boost
+ */
+export const toSpeechContexts = (options: Pick<ProviderOptions, 'speechContexts' | 'vocabulary'>): protos.google.cloud.speech.v1.ISpeechContext[] => {
+  if (options.speechContexts && options.speechContexts.length > 0) return options.speechContexts;
+  if (options.vocabulary && options.vocabulary.length > 0) {
+    return [{ phrases: options.vocabulary, boost: DEFAULT_PHRASE_BOOST }];
+  }
+  return [];
+};
+
+/**
+ * Convert Google word infos to word timings in milliseconds
+ */
+const toGoogleWords = (words: protos.google.cloud.speech.v1.IWordInfo[], diarization: boolean): ProviderWord[] => {
+  return words
+    .filter((word) => word.word)
+    .map((word) => ({
+      text: word.word as string,
+      start: durationToMs(word.startTime),
+      end: durationToMs(word.endTime),
+      confidence: word.confidence || undefined,
+      speaker: diarization ? String(word.speakerLabel || word.speakerTag || 0) : undefined,
+    }));
+};
+
+/**
+ * Group diarized words into consecutive runs of the same speaker
+ */
+export const groupWordsBySpeaker = (words: ProviderWord[]): ProviderUtterance[] => {
+  const utterances: ProviderUtterance[] = [];
+
+  for (const word of words) {
+    const speaker = word.speaker || '0';
+    const last = utterances[utterances.length - 1];
+
+    if (last && last.speaker === speaker) {
+      last.text += ' ' + word.text;
+      last.end = word.end;
+      last.words.push(word);
+    } else {
+      utterances.push({ speaker, text: word.text, start: word.start, end: word.end, words: [word] });
+    }
+  }
+
+  return utterances;
+};
+
+/**
+ * Transcribe with Google Cloud Speech recognize
+ */
+export const transcribeWithGoogle = async (buffer: Buffer, options: ProviderOptions): Promise<ProviderResult> => {
+  const { diarization = false, speakersExpected = 2 } = options;
+  const speechContexts = toSpeechContexts(options);
+
+  // Google needs to be told the language
+  const language = options.language === AUTO_LANGUAGE ? DEFAULT_LANGUAGE : options.language;
+
+  // Detect what was actually uploaded and convert it if Google cannot read it
+  const prepared = await prepareForGoogle(buffer);
+
+  console.log(`Google upload detected as ${prepared.source.container}/${prepared.source.codec || 'unknown'}, sending ${prepared.encoding} at ${prepared.sampleRateHertz || 'header'} Hz`);
+
+  const speechClient = new SpeechClient();
+
+  // Detects speech in the audio file
+  const [response] = await speechClient.recognize({
+    audio: {
+      content: prepared.buffer.toString('base64'),
+    },
+    config: {
+      encoding: prepared.encoding,
+      ...(prepared.sampleRateHertz && { sampleRateHertz: prepared.sampleRateHertz }),
+      languageCode: language,
+      model: 'default',
+      useEnhanced: true,
+      enableAutomaticPunctuation: true,
+      enableWordTimeOffsets: true,
+      ...(speechContexts.length > 0 && { speechContexts }),
+      ...(diarization && {
+        diarizationConfig: {
+          enableSpeakerDiarization: true,
+          minSpeakerCount: 2,
+          maxSpeakerCount: Math.max(2, speakersExpected),
+        },
+      }),
+    },
+  });
+
+  const results = response.results || [];
+
+  // Extract the transcription
+  const text = results
+    .map(result => result.alternatives?.[0]?.transcript)
+    .filter(Boolean)
+    .join('\n');
+
+  // Average the confidence of the best alternatives
+  const confidences = results
+    .map(result => result.alternatives?.[0]?.confidence)
+    .filter((value): value is number => typeof value === 'number' && value > 0);
+  const confidence = confidences.length > 0
+    ? confidences.reduce((acc, value) => acc + value, 0) / confidences.length
+    : null;
+
+  // With diarization the last result carries every word of the request with its speaker tag,
+  // otherwise each result carries the words of its own transcript
+  const words = diarization
+    ? toGoogleWords(results[results.length - 1]?.alternatives?.[0]?.words || [], true)
+    : toGoogleWords(results.flatMap(result => result.alternatives?.[0]?.words || []), false);
+
+  return {
+    text,
+    confidence,
+    words,
+    utterances: diarization ? groupWordsBySpeaker(words) : undefined,
+    audio: describeAudio(prepared.source, prepared.transcoded),
+  };
+};
+
+// Whisper only reads the last 224 tokens of a prompt, roughly this many characters
+const MAX_PROMPT_CHARS = 800;
+
+/**
+ * Build a Whisper prompt from the vocabulary and the preceding transcript. Whisper continues
+ * in the style of the prompt, and keeps its end when it is too long, so the transcript goes last.
+ */
+export const buildWhisperPrompt = (options: Pick<ProviderOptions, 'prompt' | 'vocabulary'>): string | undefined => {
+  const tail = (options.prompt || '').trim().slice(-MAX_PROMPT_CHARS);
+  const terms = (options.vocabulary || []).map((term) => term.trim()).filter(Boolean);
+
+  // Vocabulary fills whatever room the transcript leaves
+  let glossary = '';
+  for (const term of terms) {
+    const candidate = glossary ? `${glossary}, ${term}` : term;
+    if (candidate.length + tail.length + 2 > MAX_PROMPT_CHARS) break;
+    glossary = candidate;
+  }
+
+  const prompt = [glossary && `${glossary}.`, tail].filter(Boolean).join(' ');
+  return prompt || undefined;
+};
+
+/**
+ * Transcribe with an OpenAI-compatible transcriptions endpoint (OpenAI Whisper or a self-hosted server)
+ */
+const transcribeWithOpenAIClient = async (
+  client: OpenAI,
+  model: string,
+  buffer: Buffer,
+  options: ProviderOptions
+): Promise<ProviderResult> => {
+  // Name the upload after its real format so the server decodes it correctly
+  const prepared = await prepareForFileUpload(buffer);
+  const prompt = buildWhisperPrompt(options);
+
+  const response = await client.audio.transcriptions.create({
+    file: new File([prepared.buffer], `audio${prepared.format.extension}`, { type: prepared.format.mimeType }),
+    model,
+    ...(options.language !== AUTO_LANGUAGE && { language: options.language }),
+    ...(prompt && { prompt }),
+    response_format: 'verbose_json',
+    timestamp_granularities: ['word'],
+  });
+
+  // Word times are reported in seconds, and not every self-hosted server reports them
+  const words = (response.words || []).map((word) => ({
+    text: word.word,
+    start: Math.round(word.start * 1000),
+    end: Math.round(word.end * 1000),
+  }));
+
+  return {
+    text: response.text,
+    words,
+    audio: describeAudio(prepared.source, prepared.transcoded),
+    ...(options.language === AUTO_LANGUAGE && { language: normalizeDetectedLanguage(response.language) }),
+  };
+};
+
+/**
+ * Transcribe with OpenAI Whisper
+ */
+export const transcribeWithWhisper = async (buffer: Buffer, options: ProviderOptions): Promise<ProviderResult> => {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OpenAI API key is not configured');
+  }
+
+  const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return transcribeWithOpenAIClient(client, 'whisper-1', buffer, options);
+};
+
+/**
+ * Transcribe with the on-premise server in SELF_HOSTED_STT_URL (with or without the /v1 suffix)
+ */
+export const transcribeWithSelfHosted = async (buffer: Buffer, options: ProviderOptions): Promise<ProviderResult> => {
+  const serverUrl = process.env.SELF_HOSTED_STT_URL;
+  if (!serverUrl) {
+    throw new Error('SELF_HOSTED_STT_URL is not configured');
+  }
+
+  const baseURL = serverUrl.replace(/\/+$/, '');
+  const client = new OpenAI({
+    // Most self-hosted servers ignore the key, but the client requires one
+    apiKey: process.env.SELF_HOSTED_STT_API_KEY || 'self-hosted',
+    baseURL: baseURL.endsWith('/v1') ? baseURL : `${baseURL}/v1`,
+  });
+
+  // The audio never leaves the clinic network: it goes straight to the on-premise server
+  return transcribeWithOpenAIClient(client, process.env.SELF_HOSTED_STT_MODEL || 'whisper-1', buffer, options);
+};
+
+/**
+ * Convert an AssemblyAI word to a provider word
+ */
+const toAssemblyAIWord = (word: TranscriptWord): ProviderWord => ({
+  text: word.text,
+  start: word.start,
+  end: word.end,
+  confidence: word.confidence,
+  speaker: word.speaker || undefined,
+});
+
+/**
+ * Transcribe with AssemblyAI's Nano model
+ */
+export const transcribeWithAssemblyAINano = async (buffer: Buffer, options: ProviderOptions): Promise<ProviderResult> => {
+  const { language, diarization = false, speakersExpected, vocabulary = [] } = options;
+
+  if (!process.env.ASSEMBLYAI_API_KEY) {
+    throw new Error('AssemblyAI API key is not configured');
+  }
+
+  // Detect the real format so the temporary file gets the right extension
+  const prepared = await prepareForFileUpload(buffer);
+  console.log(`Detected ${prepared.source.container}/${prepared.source.codec || 'unknown'} audio`);
+
+  // Save buffer to a temporary file
+  const tempFilePath = path.join(os.tmpdir(), `audio-${Date.now()}-${Math.random().toString(36).slice(2)}${prepared.format.extension}`);
+  fs.writeFileSync(tempFilePath, prepared.buffer);
+
+  try {
+    const client = new AssemblyAI({ apiKey: process.env.ASSEMBLYAI_API_KEY });
+
+    // Transcribe the audio using the Nano model (free tier)
+    const transcript = await client.transcripts.transcribe({
+      audio: tempFilePath,
+      speech_model: 'nano',
+      ...(language === AUTO_LANGUAGE ? { language_detection: true } : { language_code: language }),
+      speaker_labels: diarization,
+      ...(vocabulary.length > 0 && { word_boost: vocabulary, boost_param: 'high' as const }),
+      ...(diarization && speakersExpected && { speakers_expected: speakersExpected }),
+    });
+
+    if (transcript.status === 'error') {
+      throw new Error(transcript.error || 'AssemblyAI transcription failed');
+    }
+
+    return {
+      text: transcript.text || '',
+      confidence: transcript.confidence,
+      words: (transcript.words || []).map(toAssemblyAIWord),
+      utterances: diarization
+        ? (transcript.utterances || []).map(utterance => ({
+            speaker: utterance.speaker,
+            text: utterance.text,
+            start: utterance.start,
+            end: utterance.end,
+            confidence: utterance.confidence,
+            words: utterance.words.map(toAssemblyAIWord),
+          }))
+        : undefined,
+      audio: describeAudio(prepared.source, prepared.transcoded),
+      id: transcript.id,
+      ...(language === AUTO_LANGUAGE && { language: normalizeDetectedLanguage(transcript.language_code) }),
+    };
+  } finally {
+    // Clean up the temporary file
+    fs.rmSync(tempFilePath, { force: true });
+  }
+};
+
+/**
+ * Transcribe a buffer with the given engine
+ */
+export const transcribeFile = (engine: FileEngine, buffer: Buffer, options: ProviderOptions): Promise<ProviderResult> => {
+  const replaced = replacedClients.get(engine);
+  if (replaced) {
+    return replaced(buffer, options);
+  }
+
+  switch (engine) {
+    case 'whisper':
+      return transcribeWithWhisper(buffer, options);
+    case 'googleSpeech':
+      return transcribeWithGoogle(buffer, options);
+    case 'assemblyAINano':
+      return transcribeWithAssemblyAINano(buffer, options);
+    case 'realtime':
+      return transcribeWithSelfHosted(buffer, options);
+    default:
+      throw new Error(`Unsupported engine: ${engine}`);
+  }
+};
@@ -0,0 +1,496 @@
+/**
+ * usageMetrics.ts
+ * Usage, latency and estimated cost of every paid engine, per day, engine and clinician
+ *
+ * The API routes record each provider request: its outcome, latency, the seconds of audio it
+ * carried and, for OpenAI chat, the tokens the response reports. Figures are aggregated into
+ * buckets of one UTC day, engine and clinician and kept in one JSON file per day in METRICS_DIR.
+ * Latency percentiles come from a bounded sample of each bucket's requests. Costs are estimated
+ * when the report is read, from the built-in price table or the JSON file at
+ * METRICS_PRICE_TABLE, so changing a price also re-prices past days.
+ *
+ * Audio that streams from the browser straight to a provider is reported by the browser, but
+ * only against a session the server opened when it issued the session's token: each session is
+ * reported once, with no more audio than the time it has been open.
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { CLINICIAN_COOKIE } from './clinician';
+import { FileEngine, isProviderClientReplaced, ProviderResult } from './transcriptionProviders';
+
+// One provider request
+export interface UsageEvent {
+  engine: string;
+  clinician?: string;
+  ok: boolean;
+  requests?: number; // requests the event stands for, 1 unless it only adds usage to earlier ones
+  latencyMs?: number;
+  audioSeconds?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+// Who a request is made for and which engine serves it
+export interface UsageContext {
+  engine: string;
+  clinician?: string;
+}
+
+// What a successful request consumed
+export type UsageAmounts = Pick<UsageEvent, 'audioSeconds' | 'promptTokens' | 'completionTokens'>;
+
+// Prices of one engine, in the currency of the price table
+export interface EnginePrice {
+  perAudioMinute?: number;
+  perRequest?: number;
+  perMillionPromptTokens?: number;
+  perMillionCompletionTokens?: number;
+}
+
+export type PriceTable = Record<string, EnginePrice>;
+
+// Days (YYYY-MM-DD, UTC) and filters of a report; missing values come from the query string as null
+export interface UsageQuery {
+  from?: string | null;
+  to?: string | null;
+  engine?: string | null;
+  clinician?: string | null;
+}
+
+export interface UsageReportRow {
+  day: string; // YYYY-MM-DD, UTC
+  engine: string;
+  clinician: string;
+  requests: number;
+  errors: number;
+  errorRate: number; // 0 to 1
+  audioSeconds: number;
+  latencyP50Ms: number | null;
+  latencyP90Ms: number | null;
+  latencyP99Ms: number | null;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  currency: string;
+  rows: UsageReportRow[];
+  prices: PriceTable;
+}
+
+// Stored aggregate of one day, engine and clinician
+interface UsageBucket {
+  day: string;
+  engine: string;
+  clinician: string;
+  requests: number;
+  errors: number;
+  audioSeconds: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyCount: number; // requests with a latency, of which `latencies` is a sample
+  latencies: number[];
+}
+
+// Requests recorded without a clinician
+export const UNASSIGNED_CLINICIAN = 'unassigned';
+
+// List prices in USD at the time of writing; METRICS_PRICE_TABLE overrides them per engine
+const DEFAULT_PRICES: PriceTable = {
+  whisper: { perAudioMinute: 0.006 },
+  assemblyAI: { perAudioMinute: 0.0025 },
+  assemblyAINano: { perAudioMinute: 0.002 },
+  googleSpeech: { perAudioMinute: 0.024 },
+  realtime: {}, // self-hosted
+  openaiChat: { perMillionPromptTokens: 0.5, perMillionCompletionTokens: 1.5 },
+};
+
+const DEFAULT_CURRENCY = 'USD';
+
+// Latencies kept per bucket for the percentiles
+const LATENCY_SAMPLE_SIZE = 1000;
+
+// Changes are written to disk at most this often
+const WRITE_DELAY_MS = 2000;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const MAX_CLINICIAN_LENGTH = 64;
+
+// Longest range one report covers
+const MAX_REPORT_DAYS = 366;
+
+// Streaming sessions not reported within this time are dropped
+const STREAMING_SESSION_MAX_MS = 4 * 60 * 60 * 1000;
+
+// A streaming session whose audio the browser has yet to report
+interface StreamingSession {
+  engine: string;
+  clinician: string;
+  openedAt: number;
+}
+
+// Route modules are bundled separately, so the loaded days live on globalThis
+const registry = globalThis as unknown as {
+  usageRecordingDisabled?: boolean;
+  usageDays?: Map<string, Map<string, UsageBucket>>;
+  usageDirtyDays?: Set<string>;
+  usageWriteTimer?: ReturnType<typeof setTimeout> | null;
+  usageStreamingSessions?: Map<string, StreamingSession>;
+};
+const days = registry.usageDays ?? new Map<string, Map<string, UsageBucket>>();
+const dirtyDays = registry.usageDirtyDays ?? new Set<string>();
+const streamingSessions = registry.usageStreamingSessions ?? new Map<string, StreamingSession>();
+registry.usageDays = days;
+registry.usageDirtyDays = dirtyDays;
+registry.usageStreamingSessions = streamingSessions;
+
+/**
+ * Directory the daily files are kept in, created on first use
+ */
+const getMetricsDir = (): string => {
+  const dir = process.env.METRICS_DIR || path.join(process.cwd(), 'metrics');
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+};
+
+/**
+ * The UTC day of a timestamp, as YYYY-MM-DD
+ */
+export const toDay = (time: number = Date.now()): string => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * A day's buckets, read from disk the first time the day is used
+ */
+const loadDay = (day: string): Map<string, UsageBucket> => {
+  const loaded = days.get(day);
+  if (loaded) return loaded;
+
+  const buckets = new Map<string, UsageBucket>();
+  try {
+    const stored: UsageBucket[] = JSON.parse(fs.readFileSync(path.join(getMetricsDir(), `usage-${day}.json`), 'utf8'));
+    stored.forEach((bucket) => buckets.set(`${bucket.engine}\n${bucket.clinician}`, bucket));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Error reading usage metrics of ${day}:`, error);
+    }
+  }
+
+  days.set(day, buckets);
+  return buckets;
+};
+
+/**
+ * Write the changed days to disk, replacing each file in one step
+ */
+const writeDirtyDays = (): void => {
+  registry.usageWriteTimer = null;
+  const dir = getMetricsDir();
+
+  dirtyDays.forEach((day) => {
+    const file = path.join(dir, `usage-${day}.json`);
+    try {
+      fs.writeFileSync(`${file}.tmp`, JSON.stringify(Array.from(loadDay(day).values())));
+      fs.renameSync(`${file}.tmp`, file);
+    } catch (error) {
+      console.error(`Error writing usage metrics of ${day}:`, error);
+    }
+  });
+  dirtyDays.clear();
+};
+
+/**
+ * Write the changes soon, batching requests that arrive together
+ */
+const scheduleWrite = (day: string): void => {
+  dirtyDays.add(day);
+  if (registry.usageWriteTimer) return;
+
+  registry.usageWriteTimer = setTimeout(writeDirtyDays, WRITE_DELAY_MS);
+};
+
+/**
+ * Keep a uniform sample of a bucket's latencies (reservoir sampling)
+ */
+const sampleLatency = (bucket: UsageBucket, latencyMs: number): void => {
+  bucket.latencyCount++;
+  if (bucket.latencies.length < LATENCY_SAMPLE_SIZE) {
+    bucket.latencies.push(latencyMs);
+    return;
+  }
+
+  const index = Math.floor(Math.random() * bucket.latencyCount);
+  if (index < LATENCY_SAMPLE_SIZE) {
+    bucket.latencies[index] = latencyMs;
+  }
+};
+
+/**
+ * Clean up a clinician name taken from a request
+ */
+export const normalizeClinician = (value?: string | null): string => {
+  const name = (value || '').replace(/\s+/g, ' ').trim().slice(0, MAX_CLINICIAN_LENGTH);
+  return name || UNASSIGNED_CLINICIAN;
+};
+
+/**
+ * The clinician a request is made for, from the cookie the consultation page sets
+ */
+export const getClinician = (request: NextRequest): string => {
+  const value = request.cookies.get(CLINICIAN_COOKIE)?.value;
+  if (!value) return UNASSIGNED_CLINICIAN;
+
+  try {
+    return normalizeClinician(decodeURIComponent(value));
+  } catch {
+    return normalizeClinician(value);
+  }
+};
+
+/**
+ * Turn recording on or off for this process, e.g. for benchmark runs that are not clinic usage
+ */
+export const setUsageRecording = (enabled: boolean): void => {
+  registry.usageRecordingDisabled = !enabled;
+};
+
+/**
+ * Add one provider request to its day's figures
+ */
+export const recordUsage = (event: UsageEvent): void => {
+  if (registry.usageRecordingDisabled) return;
+
+  const day = toDay();
+  const clinician = normalizeClinician(event.clinician);
+  const buckets = loadDay(day);
+  const key = `${event.engine}\n${clinician}`;
+
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = {
+      day,
+      engine: event.engine,
+      clinician,
+      requests: 0,
+      errors: 0,
+      audioSeconds: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      latencyCount: 0,
+      latencies: [],
+    };
+    buckets.set(key, bucket);
+  }
+
+  const requests = event.requests ?? 1;
+  bucket.requests += requests;
+  if (!event.ok) bucket.errors += requests;
+  bucket.audioSeconds += Math.max(0, event.audioSeconds || 0);
+  bucket.promptTokens += Math.max(0, event.promptTokens || 0);
+  bucket.completionTokens += Math.max(0, event.completionTokens || 0);
+  if (event.latencyMs !== undefined && Number.isFinite(event.latencyMs)) {
+    sampleLatency(bucket, Math.max(0, Math.round(event.latencyMs)));
+  }
+
+  scheduleWrite(day);
+};
+
+/**
+ * Run a provider request, recording its latency, outcome and what it consumed
+ */
+export const trackUsage = async <T>(
+  context: UsageContext,
+  run: () => Promise<T>,
+  measure?: (result: T) => UsageAmounts
+): Promise<T> => {
+  const startedAt = Date.now();
+
+  try {
+    const result = await run();
+    recordUsage({ ...context, ok: true, latencyMs: Date.now() - startedAt, ...measure?.(result) });
+    return result;
+  } catch (error) {
+    recordUsage({ ...context, ok: false, latencyMs: Date.now() - startedAt });
+    throw error;
+  }
+};
+
+/**
+ * Audio a transcription carried: the decoded duration, or the end of its last word when the
+ * container does not say
+ */
+export const measureTranscription = (result: ProviderResult): UsageAmounts => {
+  const durationMs = result.audio.durationMs ?? (result.words.length > 0 ? result.words[result.words.length - 1].end : 0);
+  return { audioSeconds: durationMs / 1000 };
+};
+
+/**
+ * Run a transcription and record its usage, unless the engine's client was replaced (recorded
+ * or stand-in responses), in which case nothing was spent with the provider
+ */
+export const trackTranscription = (
+  context: UsageContext & { engine: FileEngine },
+  run: () => Promise<ProviderResult>,
+  measure: (result: ProviderResult) => UsageAmounts = measureTranscription
+): Promise<ProviderResult> => {
+  if (isProviderClientReplaced(context.engine)) return run();
+  return trackUsage(context, run, measure);
+};
+
+/**
+ * Drop the streaming sessions that were never reported
+ */
+const pruneStreamingSessions = (now: number): void => {
+  streamingSessions.forEach((session, id) => {
+    if (now - session.openedAt > STREAMING_SESSION_MAX_MS) streamingSessions.delete(id);
+  });
+};
+
+/**
+ * Open a streaming session whose audio the browser reports when it ends; returns its id
+ */
+export const openStreamingSession = (context: UsageContext): string => {
+  const now = Date.now();
+  pruneStreamingSessions(now);
+
+  const id = randomUUID();
+  streamingSessions.set(id, { engine: context.engine, clinician: normalizeClinician(context.clinician), openedAt: now });
+  return id;
+};
+
+/**
+ * Record the audio a streaming session sent, at most as much as the time it has been open;
+ * false when the session is unknown, expired or already reported
+ */
+export const closeStreamingSession = (id: string, audioSeconds: number): boolean => {
+  const now = Date.now();
+  pruneStreamingSessions(now);
+
+  const session = streamingSessions.get(id);
+  if (!session) return false;
+  streamingSessions.delete(id);
+
+  // The session's token request already counted as its request
+  const openSeconds = (now - session.openedAt) / 1000;
+  recordUsage({ engine: session.engine, clinician: session.clinician, ok: true, requests: 0, audioSeconds: Math.min(audioSeconds, openSeconds) });
+  return true;
+};
+
+/**
+ * The price table: the built-in prices with the configured file's entries on top
+ */
+export const getPriceTable = (): { currency: string; prices: PriceTable } => {
+  const file = process.env.METRICS_PRICE_TABLE;
+  if (!file) return { currency: DEFAULT_CURRENCY, prices: DEFAULT_PRICES };
+
+  try {
+    const configured = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const { currency, ...prices } = configured;
+    return {
+      currency: typeof currency === 'string' ? currency : DEFAULT_CURRENCY,
+      prices: { ...DEFAULT_PRICES, ...(prices as PriceTable) },
+    };
+  } catch (error) {
+    console.error(`Error reading the price table ${file}, using the built-in prices:`, error);
+    return { currency: DEFAULT_CURRENCY, prices: DEFAULT_PRICES };
+  }
+};
+
+/**
+ * Estimated cost of a bucket's usage
+ */
+const estimateCost = (bucket: UsageBucket, price: EnginePrice = {}): number => {
+  return (price.perAudioMinute || 0) * (bucket.audioSeconds / 60)
+    + (price.perRequest || 0) * (bucket.requests - bucket.errors)
+    + (price.perMillionPromptTokens || 0) * (bucket.promptTokens / 1e6)
+    + (price.perMillionCompletionTokens || 0) * (bucket.completionTokens / 1e6);
+};
+
+/**
+ * A percentile of sorted values, null without values
+ */
+const percentile = (sorted: number[], fraction: number): number | null => {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+};
+
+/**
+ * The days a report covers, oldest first
+ */
+const listDays = (from: string, to: string): string[] => {
+  const result: string[] = [];
+  for (let time = Date.parse(from); time <= Date.parse(to) && result.length < MAX_REPORT_DAYS; time += 24 * 60 * 60 * 1000) {
+    result.push(toDay(time));
+  }
+  return result;
+};
+
+/**
+ * Usage per day, engine and clinician between two days, inclusive, optionally of one engine or clinician
+ */
+export const getUsageReport = (query: UsageQuery = {}): UsageReport => {
+  const to = query.to && DAY_PATTERN.test(query.to) ? query.to : toDay();
+  const from = query.from && DAY_PATTERN.test(query.from) ? query.from : toDay(Date.parse(to) - 29 * 24 * 60 * 60 * 1000);
+  const { currency, prices } = getPriceTable();
+
+  const rows: UsageReportRow[] = [];
+  listDays(from, to).forEach((day) => {
+    loadDay(day).forEach((bucket) => {
+      if (query.engine && bucket.engine !== query.engine) return;
+      if (query.clinician && bucket.clinician !== query.clinician) return;
+
+      const sorted = [...bucket.latencies].sort((a, b) => a - b);
+      rows.push({
+        day,
+        engine: bucket.engine,
+        clinician: bucket.clinician,
+        requests: bucket.requests,
+        errors: bucket.errors,
+        errorRate: bucket.requests > 0 ? bucket.errors / bucket.requests : 0,
+        audioSeconds: Math.round(bucket.audioSeconds * 10) / 10,
+        latencyP50Ms: percentile(sorted, 0.5),
+        latencyP90Ms: percentile(sorted, 0.9),
+        latencyP99Ms: percentile(sorted, 0.99),
+        promptTokens: bucket.promptTokens,
+        completionTokens: bucket.completionTokens,
+        estimatedCost: Math.round(estimateCost(bucket, prices[bucket.engine]) * 10000) / 10000,
+      });
+    });
+  });
+
+  rows.sort((a, b) => a.day.localeCompare(b.day) || a.engine.localeCompare(b.engine) || a.clinician.localeCompare(b.clinician));
+  return { from, to, currency, rows, prices };
+};
+
+/**
+ * Quote a CSV field when it needs it; names that look like formulas are kept as text in spreadsheets
+ */
+const csvField = (value: string | number | null): string => {
+  if (value === null) return '';
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * A report as CSV, one line per row
+ */
+export const usageReportToCsv = (report: UsageReport): string => {
+  const header = [
+    'day', 'engine', 'clinician', 'requests', 'errors', 'error_rate', 'audio_seconds',
+    'latency_p50_ms', 'latency_p90_ms', 'latency_p99_ms', 'prompt_tokens', 'completion_tokens',
+    `estimated_cost_${report.currency.toLowerCase()}`,
+  ];
+  const lines = report.rows.map((row) => [
+    row.day, row.engine, row.clinician, row.requests, row.errors, Math.round(row.errorRate * 10000) / 10000,
+    row.audioSeconds, row.latencyP50Ms, row.latencyP90Ms, row.latencyP99Ms, row.promptTokens,
+    row.completionTokens, row.estimatedCost,
+  ].map(csvField).join(','));
+
+  return [header.join(','), ...lines].join('\n') + '\n';
+};
@@ -0,0 +1,145 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { FaArrowLeft, FaChartBar, FaClinicMedical, FaDownload, FaSpinner, FaSyncAlt } from 'react-icons/fa';
+import UsageMetricsTable from '../components/UsageMetricsTable';
+import createUsageMetricsService, { UsageMetricsServiceInstance, UsageReport } from '../services/UsageMetricsService';
+
+// The UTC day of a timestamp, as YYYY-MM-DD
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+export default function MetricsPage() {
+  const [from, setFrom] = useState<string>(() => toDay(Date.now() - 29 * 24 * 60 * 60 * 1000));
+  const [to, setTo] = useState<string>(() => toDay(Date.now()));
+  const [engine, setEngine] = useState<string>('');
+  const [clinician, setClinician] = useState<string>('');
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const metricsServiceRef = useRef<UsageMetricsServiceInstance | null>(null);
+
+  // Load the period's figures; engine and clinician only narrow down what is shown
+  const loadReport = useCallback(async () => {
+    if (!metricsServiceRef.current) {
+      metricsServiceRef.current = createUsageMetricsService();
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setReport(await metricsServiceRef.current.getReport({ from, to }));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    void loadReport();
+  }, [loadReport]);
+
+  const rows = (report?.rows ?? []).filter((row) => (!engine || row.engine === engine) && (!clinician || row.clinician === clinician));
+  const engines = Array.from(new Set((report?.rows ?? []).map((row) => row.engine))).sort();
+  const clinicians = Array.from(new Set((report?.rows ?? []).map((row) => row.clinician))).sort();
+  const csvUrl = metricsServiceRef.current?.getCsvUrl({ from, to, engine, clinician });
+
+  return (
+    <div className="min-h-screen bg-blue-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8">
+        <header className="mb-8 text-center">
+          <div className="flex items-center justify-center mb-3">
+            <FaClinicMedical className="text-teal-600 text-4xl mr-3" />
+            <h1 className="text-3xl font-bold text-teal-700 dark:text-teal-400">Usage &amp; Costs</h1>
+          </div>
+          <p className="text-gray-600 dark:text-gray-400">
+            Audio, requests, latency and estimated cost of every engine, per day and clinician
+          </p>
+        </header>
+
+        <main className="max-w-5xl mx-auto space-y-6">
+          <Link href="/" className="inline-flex items-center text-sm text-teal-700 dark:text-teal-400 hover:underline">
+            <FaArrowLeft className="mr-1" />
+            Back to the consultation
+          </Link>
+
+          <section className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md border-l-4 border-teal-500 space-y-4">
+            <div className="flex items-center">
+              <FaChartBar className="text-teal-600 mr-2 text-xl" />
+              <h2 className="text-xl font-semibold text-teal-700 dark:text-teal-400">Usage</h2>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3 text-sm">
+              <label className="flex flex-col text-gray-600 dark:text-gray-400">
+                From (UTC)
+                <input
+                  type="date"
+                  value={from}
+                  max={to}
+                  onChange={(e) => e.target.value && setFrom(e.target.value)}
+                  className="p-1 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700"
+                />
+              </label>
+              <label className="flex flex-col text-gray-600 dark:text-gray-400">
+                To (UTC)
+                <input
+                  type="date"
+                  value={to}
+                  min={from}
+                  onChange={(e) => e.target.value && setTo(e.target.value)}
+                  className="p-1 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700"
+                />
+              </label>
+              <label className="flex flex-col text-gray-600 dark:text-gray-400">
+                Engine
+                <select
+                  value={engine}
+                  onChange={(e) => setEngine(e.target.value)}
+                  className="p-1 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700"
+                >
+                  <option value="">All engines</option>
+                  {engines.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col text-gray-600 dark:text-gray-400">
+                Clinician
+                <select
+                  value={clinician}
+                  onChange={(e) => setClinician(e.target.value)}
+                  className="p-1 border border-teal-300 rounded-md bg-white dark:bg-gray-800 dark:border-teal-700"
+                >
+                  <option value="">All clinicians</option>
+                  {clinicians.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={() => void loadReport()}
+                disabled={isLoading}
+                className="flex items-center px-3 py-1 rounded-md bg-teal-500 text-white hover:bg-teal-600 disabled:opacity-50"
+              >
+                {isLoading ? <FaSpinner className="animate-spin mr-1" /> : <FaSyncAlt className="mr-1" />}
+                Refresh
+              </button>
+              {csvUrl && (
+                <a href={csvUrl} className="flex items-center px-3 py-1 rounded-md bg-blue-500 text-white hover:bg-blue-600">
+                  <FaDownload className="mr-1" />
+                  Export CSV
+                </a>
+              )}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {report && <UsageMetricsTable rows={rows} currency={report.currency} />}
+          </section>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * Accuracy.ts
+ * Word and character error rates of a transcript against a clinician-corrected reference
+ */
+
+export interface ErrorRate {
+  rate: number; // (substitutions + deletions + insertions) / reference length
+  substitutions: number;
+  deletions: number; // reference tokens the transcript missed
+  insertions: number; // transcript tokens not in the reference
+  referenceLength: number;
+}
+
+/**
+ * Lowercase and strip punctuation, so only the words themselves are compared
+ */
+export const normalizeForScoring = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/[.,!?;:"()[\]{}…“”‘’«»–—/\\]/g, ' ')
+    .replace(/(^|\s)['-]+|['-]+(?=\s|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Minimum edits turning the reference tokens into the hypothesis tokens, by type
+ */
+const countEdits = (reference: string[], hypothesis: string[]): ErrorRate => {
+  const columns = hypothesis.length + 1;
+
+  // Rolling rows of the edit-distance table, with the edit types behind each cost
+  let previous = { cost: new Int32Array(columns), sub: new Int32Array(columns), del: new Int32Array(columns), ins: new Int32Array(columns) };
+  let current = { cost: new Int32Array(columns), sub: new Int32Array(columns), del: new Int32Array(columns), ins: new Int32Array(columns) };
+
+  for (let j = 0; j < columns; j++) {
+    previous.cost[j] = j;
+    previous.ins[j] = j;
+  }
+
+  for (let i = 1; i <= reference.length; i++) {
+    current.cost[0] = i;
+    current.sub[0] = 0;
+    current.del[0] = i;
+    current.ins[0] = 0;
+
+    for (let j = 1; j < columns; j++) {
+      const same = reference[i - 1] === hypothesis[j - 1];
+      const substitution = previous.cost[j - 1] + (same ? 0 : 1);
+      const deletion = previous.cost[j] + 1;
+      const insertion = current.cost[j - 1] + 1;
+
+      if (substitution <= deletion && substitution <= insertion) {
+        current.cost[j] = substitution;
+        current.sub[j] = previous.sub[j - 1] + (same ? 0 : 1);
+        current.del[j] = previous.del[j - 1];
+        current.ins[j] = previous.ins[j - 1];
+      } else if (deletion <= insertion) {
+        current.cost[j] = deletion;
+        current.sub[j] = previous.sub[j];
+        current.del[j] = previous.del[j] + 1;
+        current.ins[j] = previous.ins[j];
+      } else {
+        current.cost[j] = insertion;
+        current.sub[j] = current.sub[j - 1];
+        current.del[j] = current.del[j - 1];
+        current.ins[j] = current.ins[j - 1] + 1;
+      }
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  const last = hypothesis.length;
+  return {
+    rate: reference.length > 0 ? previous.cost[last] / reference.length : hypothesis.length > 0 ? 1 : 0,
+    substitutions: previous.sub[last],
+    deletions: previous.del[last],
+    insertions: previous.ins[last],
+    referenceLength: reference.length,
+  };
+};
+
+/**
+ * Word error rate of a transcript
+ */
+export const computeWer = (reference: string, hypothesis: string): ErrorRate => {
+  const split = (text: string) => normalizeForScoring(text).split(' ').filter(Boolean);
+  return countEdits(split(reference), split(hypothesis));
+};
+
+/**
+ * Character error rate of a transcript, spaces between words included
+ */
+export const computeCer = (reference: string, hypothesis: string): ErrorRate => {
+  return countEdits(Array.from(normalizeForScoring(reference)), Array.from(normalizeForScoring(hypothesis)));
+};
+
+export interface TermRecall {
+  recall: number | null; // share of the term mentions in the reference that the transcript got right; null without any
+  found: number;
+  expected: number;
+  missed: string[]; // terms mentioned in the reference that the transcript misses at least once
+}
+
+/**
+ * Count the whole-word occurrences of a normalized phrase in normalized text
+ */
+const countPhrase = (text: string, phrase: string): number => {
+  let count = 0;
+  let index = text.indexOf(phrase);
+
+  while (index !== -1) {
+    const before = index === 0 || text[index - 1] === ' ';
+    const after = index + phrase.length === text.length || text[index + phrase.length] === ' ';
+    if (before && after) count++;
+    index = text.indexOf(phrase, index + 1);
+  }
+
+  return count;
+};
+
+/**
+ * Recall of the clinic vocabulary: how many mentions of each term in the reference the transcript
+ * also contains
+ */
+export const computeTermRecall = (reference: string, hypothesis: string, terms: string[]): TermRecall => {
+  const normalizedReference = normalizeForScoring(reference);
+  const normalizedHypothesis = normalizeForScoring(hypothesis);
+
+  let found = 0;
+  let expected = 0;
+  const missed: string[] = [];
+
+  for (const term of terms) {
+    const phrase = normalizeForScoring(term);
+    if (!phrase) continue;
+
+    const mentions = countPhrase(normalizedReference, phrase);
+    if (mentions === 0) continue;
+
+    const recognized = Math.min(mentions, countPhrase(normalizedHypothesis, phrase));
+    expected += mentions;
+    found += recognized;
+    if (recognized < mentions) missed.push(term);
+  }
+
+  return { recall: expected > 0 ? found / expected : null, found, expected, missed };
+};
@@ -3,39 +3,52 @@
  * A service for speech-to-text processing using AssemblyAI's free Nano model
  */
 
+import { AudioCaptureServiceInstance, AudioFrame } from './AudioCaptureService';
+import createVoiceActivityDetector, { VadConfig, VoiceSegment } from './VoiceActivityDetector';
+import { createDroppedSegment, createSegmentId, offsetWords, SpeakerUtterance, TranscriptSegment, TranscriptSegmentListener } from './TranscriptSegment';
+import { segmentLanguage } from './Languages';
+import createSeamMerger from './TranscriptMerge';
+import { EngineReportListener } from './EngineHealth';
+import createUploadQueue, { isConnectivityError, UploadAttempt, UploadError, UploadQueueConfig } from './UploadQueue';
+import { OfflineChunkBufferInstance } from './OfflineChunkBuffer';
+
 // Define types for the service
 export interface AssemblyAINanoServiceOptions {
-  onTranscriptUpdate: (text: string) => void;
+  onSegment: TranscriptSegmentListener;
   onTranscriptionStart?: () => void;
+  onHealthReport?: EngineReportListener; // outcome and latency of every request
   language?: string;
-  sampleRate?: number;
-  bufferSize?: number;
+  diarization?: boolean;
+  wordBoost?: string[]; // clinic vocabulary to boost
+  capture: AudioCaptureServiceInstance;
+  vad?: VadConfig;
+  upload?: UploadQueueConfig;
+  offlineBuffer?: OfflineChunkBufferInstance; // holds chunks while the network is down
   debug?: boolean;
 }
 
 export interface AssemblyAINanoServiceInstance {
   start: () => Promise<void>;
+  resume: () => Promise<void>; // continue the session after stop() without starting a new one
   stop: () => void;
   isListening: () => boolean;
+  flush: () => void;
   updateLanguage: (newLanguage: string) => void;
 }
 
-// Speech detection state
-interface SpeechState {
-  isSpeaking: boolean;
-  lastSpeechTime: number;
-  currentSentence: string;
-  silenceStart: number | null;
-}
-
 export const createAssemblyAINanoService = (options: AssemblyAINanoServiceOptions): AssemblyAINanoServiceInstance => {
   // Default options
   const {
-    onTranscriptUpdate,
+    onSegment,
     onTranscriptionStart,
+    onHealthReport,
     language = 'en',
-    sampleRate = 16000,
-    bufferSize = 4096,
+    diarization = false,
+    wordBoost = [],
+    capture,
+    vad = {},
+    upload = {},
+    offlineBuffer,
     debug = true, // Enable debug mode by default
   } = options;
 
@@ -45,162 +58,128 @@ export const createAssemblyAINanoService = (options: AssemblyAINanoServiceOption
   console.log(`Creating AssemblyAINanoService with language: ${currentLanguage}`);
 
   // Service state
-  let audioContext: AudioContext | null = null;
-  let mediaStream: MediaStream | null = null;
-  let processor: ScriptProcessorNode | null = null;
-  let input: MediaStreamAudioSourceNode | null = null;
+  let unsubscribe: (() => void) | null = null;
   let isCurrentlyListening = false;
-  let audioChunks: Float32Array[] = [];
-  let finalizationTimer: NodeJS.Timeout | null = null;
-  
-  // Speech detection state
-  const speechState: SpeechState = {
-    isSpeaking: false,
-    lastSpeechTime: 0,
-    currentSentence: '',
-    silenceStart: null,
-  };
 
-  // Constants for speech detection
-  const noiseThreshold = 0.005;
-  const silenceThreshold = 1000; // in milliseconds
-  const maxRecordingTime = 3000; // Force finalization after 3 seconds
+  // Voice activity detection decides where each chunk starts and ends
+  const detector = createVoiceActivityDetector({
+    // Repeat the last second after a cut so a word spoken across it is heard whole
+    overlapMs: 1000,
+    ...vad,
+    debug,
+    onSegment: (segment) => {
+      merger.submit(segment.overlapMs, finalizeSentence(segment));
+    },
+  });
 
-  /**
-   * Process audio data from the microphone
-   */
-  const processAudioData = (inputData: Float32Array): void => {
-    // Add the audio chunk to the buffer
-    audioChunks.push(new Float32Array(inputData));
-    
-    // Check if we have collected enough audio to force finalization
-    // This is a fallback in case silence detection doesn't work
-    if (audioChunks.length > 50) { // Reduced from 100 to 50 (about 1 second of audio)
-      if (debug) console.log(`Forcing finalization after ${audioChunks.length} chunks`);
-      finalizeSentence();
-      return;
-    }
-    
-    // Check if the user is speaking
-    const volume = calculateVolume(inputData);
-    const now = Date.now();
-    
-    // Log volume occasionally (every 50 chunks to avoid flooding the console)
-    if (debug && audioChunks.length % 10 === 0) {
-      console.log(`Current volume: ${volume.toFixed(4)}, threshold: ${noiseThreshold}, speaking: ${volume > noiseThreshold}`);
-    }
-    
-    if (volume > noiseThreshold) {
-      // User is speaking
-      speechState.isSpeaking = true;
-      speechState.lastSpeechTime = now;
-      speechState.silenceStart = null;
-      
-      // Log when speech is detected
-      if (debug && audioChunks.length % 10 === 0) {
-        console.log('Speech detected');
-      }
-    } else if (speechState.isSpeaking) {
-      // User was speaking but has stopped
-      if (speechState.silenceStart === null) {
-        speechState.silenceStart = now;
-        if (debug) console.log('Silence started after speech');
-      } else if (now - speechState.silenceStart > silenceThreshold) {
-        // Silence has been detected for long enough, finalize the sentence
-        if (debug) console.log(`Silence threshold reached (${now - speechState.silenceStart}ms > ${silenceThreshold}ms), finalizing sentence`);
-        finalizeSentence();
-      } else if (debug && audioChunks.length % 10 === 0) {
-        // Log silence duration occasionally
-        console.log(`Silence duration: ${now - speechState.silenceStart}ms / ${silenceThreshold}ms`);
-      }
-    }
-  };
+  // Emits the chunk transcripts in order, without the words repeated at the cuts
+  const merger = createSeamMerger({ onSegment, debug });
 
-  /**
-   * Calculate the volume of an audio buffer
-   */
-  const calculateVolume = (buffer: Float32Array): number => {
-    let sum = 0;
-    for (let i = 0; i < buffer.length; i++) {
-      sum += buffer[i] * buffer[i];
-    }
-    return Math.sqrt(sum / buffer.length);
-  };
+  // Uploads the chunks of a session in order, a few at a time, retrying temporary failures
+  const uploads = createUploadQueue({ ...upload, label: 'AssemblyAI Nano chunk', debug });
 
   /**
-   * Finalize the current sentence and send it to the AssemblyAI Nano API
+   * Send one attempt of a sentence to the AssemblyAI Nano API
    */
-  const finalizeSentence = async (): Promise<void> => {
-    if (audioChunks.length === 0) {
-      if (debug) console.log('No audio chunks to finalize');
-      return;
-    }
-    
-    if (debug) console.log(`Finalizing sentence with ${audioChunks.length} chunks`);
-    
-    // Reset speech state
-    speechState.isSpeaking = false;
-    speechState.silenceStart = null;
-    
-    // Convert audio chunks to a single buffer
-    const totalLength = audioChunks.reduce((acc, chunk) => acc + chunk.length, 0);
-    const audioBuffer = new Float32Array(totalLength);
-    
-    let offset = 0;
-    for (const chunk of audioChunks) {
-      audioBuffer.set(chunk, offset);
-      offset += chunk.length;
-    }
-    
-    if (debug) console.log(`Created audio buffer with ${totalLength} samples`);
-    
-    // Clear audio chunks
-    audioChunks = [];
-    
-    // Convert to WAV format
-    const wavBuffer = float32ToWav(audioBuffer, sampleRate);
-    
-    if (debug) console.log(`Converted to WAV format, size: ${wavBuffer.byteLength} bytes`);
+  const transcribe = async (segment: Pick<VoiceSegment, 'startTime' | 'endTime'>, audio: Blob, { sequence, attempt, signal }: UploadAttempt): Promise<TranscriptSegment[]> => {
+    const requestStart = Date.now();
     
     try {
-      // Notify that transcription is starting
-      if (onTranscriptionStart) {
-        onTranscriptionStart();
-      }
-      
       // Send to server for AssemblyAI Nano API processing
       const formData = new FormData();
-      const audioBlob = new Blob([wavBuffer], { type: 'audio/wav' });
-      formData.append('audio', audioBlob);
+      formData.append('audio', audio);
       formData.append('language', currentLanguage);
+      formData.append('diarization', String(diarization));
+      if (wordBoost.length > 0) {
+        formData.append('wordBoost', JSON.stringify(wordBoost));
+      }
       
-      console.log(`Sending audio to AssemblyAI Nano API with language: ${currentLanguage}`);
+      console.log(`Sending chunk #${sequence} (attempt ${attempt}) to AssemblyAI Nano API with language: ${currentLanguage}`);
       
       const response = await fetch('/api/assemblyai/transcribe', {
         method: 'POST',
         body: formData,
+        signal,
       });
       
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`Failed to transcribe audio: ${response.statusText}, ${errorText}`);
+        throw new UploadError(`Failed to transcribe audio: ${response.statusText}, ${errorText}`, response.status);
       }
       
       const data = await response.json();
+      onHealthReport?.({ ok: true, latencyMs: Date.now() - requestStart });
       
       if (debug) console.log(`Received response from AssemblyAI Nano API:`, data);
       
-      if (data.text) {
-        speechState.currentSentence += data.text + ' ';
-        onTranscriptUpdate(speechState.currentSentence.trim());
+      const utterances: SpeakerUtterance[] = data.utterances || [];
+      
+      if (utterances.length > 0) {
+        // One segment per speaker turn, shifted from chunk time to session time
+        return utterances.map((utterance): TranscriptSegment => ({
+          id: createSegmentId('assemblyAINano'),
+          status: 'final',
+          startTime: segment.startTime + (utterance.start ?? 0),
+          endTime: utterance.end !== undefined ? segment.startTime + utterance.end : segment.endTime,
+          text: utterance.text.trim(),
+          confidence: utterance.confidence,
+          engine: 'assemblyAINano',
+          language: segmentLanguage(data.language, currentLanguage),
+          speaker: utterance.speaker,
+          words: offsetWords(utterance.words, segment.startTime),
+        }));
+      } else if (data.text) {
+        return [{
+          id: createSegmentId('assemblyAINano'),
+          status: 'final',
+          startTime: segment.startTime,
+          endTime: segment.endTime,
+          text: data.text.trim(),
+          confidence: data.confidence ?? undefined,
+          engine: 'assemblyAINano',
+          language: segmentLanguage(data.language, currentLanguage),
+          words: offsetWords(data.words, segment.startTime),
+        }];
       } else {
         if (debug) console.log('No text in response from AssemblyAI Nano API');
+        return [];
       }
     } catch (error) {
       console.error('Error transcribing audio with AssemblyAI Nano:', error);
+      // A dropped connection is not the engine's fault; the chunk waits for the network instead
+      if (!isConnectivityError(error)) {
+        onHealthReport?.({ ok: false, latencyMs: Date.now() - requestStart, error: error instanceof Error ? error.message : String(error) });
+      }
+      throw error;
     }
   };
 
+  /**
+   * Finalize the current sentence: queue its upload, holding it while offline and marking the
+   * audio as missing if it fails for good
+   */
+  const finalizeSentence = (segment: VoiceSegment): Promise<TranscriptSegment[]> => {
+    if (debug) console.log(`Finalizing sentence with ${segment.samples.length} samples (${segment.reason})`);
+    
+    // Convert to WAV format
+    const wavBuffer = float32ToWav(segment.samples, segment.sampleRate);
+    
+    if (debug) console.log(`Converted to WAV format, size: ${wavBuffer.byteLength} bytes`);
+    
+    // Notify that transcription is starting
+    if (onTranscriptionStart) {
+      onTranscriptionStart();
+    }
+    const audio = new Blob([wavBuffer], { type: 'audio/wav' });
+    const span = { startTime: segment.startTime, endTime: segment.endTime };
+    const uploadChunk = (stored: Blob) => uploads.add((attempt) => transcribe(span, stored, attempt)).result;
+    
+    return (offlineBuffer ? offlineBuffer.send(audio, uploadChunk) : uploadChunk(audio)).catch(() => {
+      console.warn(`AssemblyAI Nano chunk at ${Math.round(span.startTime / 1000)}s dropped, marking ${Math.round(span.endTime - span.startTime)}ms as not transcribed`);
+      return [createDroppedSegment('assemblyAINano', span.startTime, span.endTime)];
+    });
+  };
+
   /**
    * Convert Float32Array to WAV format
    */
@@ -253,6 +232,18 @@ export const createAssemblyAINanoService = (options: AssemblyAINanoServiceOption
     }
   };
 
+  /**
+   * Receive frames from the shared capture pipeline
+   */
+  const listen = (): void => {
+    unsubscribe = capture.subscribeFrames((frame: AudioFrame) => {
+      detector.process(frame);
+    });
+    
+    // Update state
+    isCurrentlyListening = true;
+  };
+
   /**
    * Start the speech recognition service
    */
@@ -262,46 +253,12 @@ export const createAssemblyAINanoService = (options: AssemblyAINanoServiceOption
     console.log(`Starting AssemblyAINanoService with language: ${currentLanguage}`);
     
     try {
-      // Request microphone access
-      mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      
-      // Create audio context
-      audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate,
-      });
-      
-      // Create audio source
-      input = audioContext.createMediaStreamSource(mediaStream);
-      
-      // Create script processor
-      processor = audioContext.createScriptProcessor(bufferSize, 1, 1);
-      
-      // Process audio data
-      processor.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        processAudioData(inputData);
-      };
-      
-      // Connect nodes
-      input.connect(processor);
-      processor.connect(audioContext.destination);
-      
-      // Update state
-      isCurrentlyListening = true;
-      speechState.currentSentence = '';
-      audioChunks = []; // Clear any existing audio chunks
-      
-      // Set up a timer to force finalization after maxRecordingTime
-      if (finalizationTimer) {
-        clearTimeout(finalizationTimer);
-      }
+      // Recalibrate the detector to the current room and begin a new session
+      detector.reset();
+      merger.reset();
+      uploads.reset();
       
-      finalizationTimer = setTimeout(() => {
-        if (debug) console.log(`Forcing finalization after ${maxRecordingTime}ms timer`);
-        if (audioChunks.length > 0) {
-          finalizeSentence();
-        }
-      }, maxRecordingTime);
+      listen();
       
       console.log('AssemblyAI Nano service started');
     } catch (error) {
@@ -310,58 +267,46 @@ export const createAssemblyAINanoService = (options: AssemblyAINanoServiceOption
     }
   };
 
+  /**
+   * Continue after a pause, keeping the chunk numbering and the transcript seams
+   */
+  const resume = async (): Promise<void> => {
+    if (isCurrentlyListening) return;
+    
+    listen();
+    
+    console.log('AssemblyAI Nano service resumed');
+  };
+
   /**
    * Stop the speech recognition service
    */
   const stop = (): void => {
     if (!isCurrentlyListening) return;
     
-    // Clear the finalization timer
-    if (finalizationTimer) {
-      clearTimeout(finalizationTimer);
-      finalizationTimer = null;
-    }
+    // Finalize any remaining speech
+    detector.flush();
     
-    // Finalize any remaining audio
-    if (audioChunks.length > 0) {
-      if (debug) console.log(`Finalizing ${audioChunks.length} chunks on stop`);
-      finalizeSentence();
-    }
-    
-    // Disconnect and clean up
-    if (processor && input) {
-      try {
-        input.disconnect(processor);
-        processor.disconnect();
-      } catch (e) {
-        console.error('Error disconnecting audio nodes:', e);
-      }
-    }
-    
-    // Stop the media stream
-    if (mediaStream) {
-      mediaStream.getTracks().forEach(track => track.stop());
-    }
-    
-    // Close the audio context
-    if (audioContext && audioContext.state !== 'closed') {
-      try {
-        audioContext.close();
-      } catch (e) {
-        console.error('Error closing audio context:', e);
-      }
+    // Stop receiving frames
+    if (unsubscribe) {
+      unsubscribe();
+      unsubscribe = null;
     }
     
     // Reset state
-    processor = null;
-    input = null;
-    mediaStream = null;
-    audioContext = null;
     isCurrentlyListening = false;
     
     console.log('AssemblyAI Nano service stopped');
   };
 
+  /**
+   * Send the speech heard so far without waiting for a pause; listening carries on
+   */
+  const flush = (): void => {
+    if (!isCurrentlyListening) return;
+    detector.cut();
+  };
+
   /**
    * Check if the service is currently listening
    */
@@ -372,8 +317,10 @@ export const createAssemblyAINanoService = (options: AssemblyAINanoServiceOption
   // Return the service instance with an additional method to update the language
   return {
     start,
+    resume,
     stop,
     isListening,
+    flush,
     updateLanguage: (newLanguage: string) => {
       currentLanguage = newLanguage;
       console.log(`Updated AssemblyAINanoService language to: ${currentLanguage}`);
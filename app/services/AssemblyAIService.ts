@@ -4,20 +4,28 @@
  */
 
 import { AssemblyAI, RealtimeTranscriber } from 'assemblyai';
+import { AudioCaptureServiceInstance, AudioFrame } from './AudioCaptureService';
+import { createSegmentId, offsetWords, TranscriptSegmentListener } from './TranscriptSegment';
+import { segmentLanguage } from './Languages';
+import { EngineReportListener } from './EngineHealth';
+import createUsageMetricsService from './UsageMetricsService';
 
 // Define types for the service
 export interface AssemblyAIServiceOptions {
-  onTranscriptUpdate: (text: string) => void;
+  onSegment: TranscriptSegmentListener;
+  onHealthReport?: EngineReportListener; // final transcripts and session errors
   apiKey?: string;
-  sampleRate?: number;
-  bufferSize?: number;
+  capture: AudioCaptureServiceInstance;
+  language?: string; // AssemblyAI language code of the session
   wordBoost?: string[];
 }
 
 export interface AssemblyAIServiceInstance {
   start: () => Promise<void>;
+  resume: () => Promise<void>; // continue the session after stop() without starting a new one
   stop: () => void;
   isListening: () => boolean;
+  flush: () => void;
 }
 
 /**
@@ -26,23 +34,30 @@ export interface AssemblyAIServiceInstance {
 export const createAssemblyAIService = (options: AssemblyAIServiceOptions): AssemblyAIServiceInstance => {
   // Default options
   const {
-    onTranscriptUpdate,
+    onSegment,
+    onHealthReport,
     apiKey = process.env.NEXT_PUBLIC_ASSEMBLYAI_API_KEY || '',
-    sampleRate = 16000,
-    bufferSize = 4096,
+    capture,
+    language = 'en',
     wordBoost = [],
   } = options;
 
   // Service state
   let transcriber: RealtimeTranscriber | null = null;
-  let audioContext: AudioContext | null = null;
-  let mediaStream: MediaStream | null = null;
-  let source: MediaStreamAudioSourceNode | null = null;
-  let processor: ScriptProcessorNode | null = null;
+  let unsubscribe: (() => void) | null = null;
   let listening = false;
   
-  // Transcript history
-  let fullTranscript = '';
+  // Id of the utterance currently receiving partial transcripts
+  let currentUtteranceId: string | null = null;
+  
+  // Session time of the first frame sent, AssemblyAI timestamps are relative to it
+  let streamOffset: number | null = null;
+  
+  // Audio sent this session; it goes straight to AssemblyAI, so the server learns of it from us,
+  // against the usage session it opened with the token
+  let streamedSeconds = 0;
+  let usageSessionId: string | null = null;
+  const usageMetrics = createUsageMetricsService({ debug: false });
 
   /**
    * Convert Float32Array to Int16Array for AssemblyAI
@@ -70,14 +85,8 @@ export const createAssemblyAIService = (options: AssemblyAIServiceOptions): Asse
         throw new Error('AssemblyAI API key is required');
       }
       
-      // Get microphone access
-      mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        }
-      });
+      // The transcriber must be told the rate of the frames we will send
+      const sampleRate = capture.getSampleRate();
       
       // Initialize AssemblyAI client
       const client = new AssemblyAI({
@@ -95,6 +104,7 @@ export const createAssemblyAIService = (options: AssemblyAIServiceOptions): Asse
         
         const data = await response.json();
         const tempToken = data.token;
+        usageSessionId = data.usageSessionId ?? null;
         
         if (!tempToken) {
           throw new Error('No token received from server');
@@ -124,7 +134,11 @@ export const createAssemblyAIService = (options: AssemblyAIServiceOptions): Asse
       
       transcriber.on('error', (error) => {
         console.error('AssemblyAI error:', error);
+        const wasListening = listening;
         stop();
+        if (wasListening) {
+          onHealthReport?.({ ok: false, error: error.message, fatal: true });
+        }
       });
       
       transcriber.on('close', (code, reason) => {
@@ -134,45 +148,52 @@ export const createAssemblyAIService = (options: AssemblyAIServiceOptions): Asse
       transcriber.on('transcript', (transcriptMessage) => {
         if (!transcriptMessage.text) return;
         
-        if (transcriptMessage.message_type === 'FinalTranscript') {
-          // Add final transcript to the full transcript
-          fullTranscript += ' ' + transcriptMessage.text;
-          
-          // Update the transcript
-          onTranscriptUpdate(fullTranscript.trim());
-          
+        // Partials and the final transcript of one utterance share a segment id
+        if (!currentUtteranceId) {
+          currentUtteranceId = createSegmentId('assemblyAI');
+        }
+        
+        const isFinal = transcriptMessage.message_type === 'FinalTranscript';
+        
+        onSegment({
+          id: currentUtteranceId,
+          status: isFinal ? 'final' : 'interim',
+          startTime: (streamOffset ?? 0) + transcriptMessage.audio_start,
+          endTime: (streamOffset ?? 0) + transcriptMessage.audio_end,
+          text: transcriptMessage.text,
+          confidence: transcriptMessage.confidence,
+          engine: 'assemblyAI',
+          language: segmentLanguage(undefined, language),
+          words: offsetWords(transcriptMessage.words, streamOffset ?? 0),
+        });
+        
+        if (isFinal) {
+          currentUtteranceId = null;
           console.log('Final transcript:', transcriptMessage.text);
+          onHealthReport?.({ ok: true });
         }
       });
       
       // Connect to AssemblyAI
       await transcriber.connect();
       
-      // Create audio context
-      audioContext = new AudioContext({ sampleRate });
-      
-      // Create source from microphone
-      source = audioContext.createMediaStreamSource(mediaStream);
-      
-      // Create processor node
-      processor = audioContext.createScriptProcessor(bufferSize, 1, 1);
-      
-      // Process audio data
-      processor.onaudioprocess = (e) => {
+      // Stream frames from the shared capture pipeline
+      streamOffset = null;
+      streamedSeconds = 0;
+      unsubscribe = capture.subscribeFrames((frame: AudioFrame) => {
         if (!transcriber) return;
         
-        const inputData = e.inputBuffer.getChannelData(0);
+        if (streamOffset === null) {
+          streamOffset = frame.timestamp;
+        }
         
         // Convert audio data to format expected by AssemblyAI
-        const audioData = convertFloat32ToInt16(inputData);
+        const audioData = convertFloat32ToInt16(frame.samples);
         
         // Send audio data to AssemblyAI
         transcriber.sendAudio(audioData);
-      };
-      
-      // Connect nodes
-      source.connect(processor);
-      processor.connect(audioContext.destination);
+        streamedSeconds += frame.samples.length / frame.sampleRate;
+      });
       
       // Set listening state
       listening = true;
@@ -196,27 +217,19 @@ export const createAssemblyAIService = (options: AssemblyAIServiceOptions): Asse
       transcriber = null;
     }
     
-    // Disconnect and clean up audio nodes
-    if (processor && source) {
-      processor.disconnect();
-      source.disconnect();
-    }
-    
-    // Stop all tracks in the media stream
-    if (mediaStream) {
-      mediaStream.getTracks().forEach(track => track.stop());
+    // Stop receiving frames
+    if (unsubscribe) {
+      unsubscribe();
+      unsubscribe = null;
     }
     
-    // Close audio context
-    if (audioContext && audioContext.state !== 'closed') {
-      audioContext.close();
+    // Count the session's audio in the usage metrics; without a server token there is no session to count it against
+    if (usageSessionId) {
+      usageMetrics.reportStreamedAudio(usageSessionId, streamedSeconds)
+        .catch((error) => console.error('Error reporting AssemblyAI usage:', error));
     }
-    
-    // Reset references
-    processor = null;
-    source = null;
-    mediaStream = null;
-    audioContext = null;
+    usageSessionId = null;
+    streamedSeconds = 0;
     
     // Set listening state
     listening = false;
@@ -224,6 +237,14 @@ export const createAssemblyAIService = (options: AssemblyAIServiceOptions): Asse
     console.log('AssemblyAI service stopped');
   };
 
+  /**
+   * Ask AssemblyAI to end the current utterance now, finalizing its transcript
+   */
+  const flush = (): void => {
+    if (!listening || !transcriber) return;
+    transcriber.forceEndUtterance();
+  };
+
   /**
    * Check if the service is currently listening
    */
@@ -234,8 +255,10 @@ export const createAssemblyAIService = (options: AssemblyAIServiceOptions): Asse
   // Return the service instance
   return {
     start,
+    resume: start, // a stream is closed by stop(), so resuming opens a new one
     stop,
     isListening,
+    flush,
   };
 };
 
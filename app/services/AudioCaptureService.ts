@@ -0,0 +1,451 @@
+/**
+ * AudioCaptureService.ts
+ * A shared microphone capture pipeline built on AudioWorklet
+ *
+ * Owns the single MediaStream and AudioContext for a session and fans PCM frames
+ * and level readings out to every subscriber (the active engine, the level meter, ...).
+ *
+ * The AudioContext runs at the device's own rate, which some browsers force anyway, and frames
+ * are resampled to the requested rate, so every subscriber gets audio at the rate it is told.
+ * The preprocessing chain runs on the resampled frames, so no subscriber hears the raw microphone.
+ *
+ * Pausing suspends the AudioContext with the microphone still open: no frames are delivered
+ * and frame timestamps continue where they stopped, so paused time is not part of the timeline.
+ */
+
+import { createResampler, ResamplerInstance } from './Resampler';
+import createAudioPreprocessor, {
+  AudioPreprocessorInstance,
+  DEFAULT_PREPROCESSING,
+  hasProcessingStages,
+  PreprocessingConfig,
+  toMediaConstraints,
+} from './AudioPreprocessing';
+
+// Define types for the service
+export interface AudioFrame {
+  samples: Float32Array;
+  sampleRate: number;
+  timestamp: number; // milliseconds of audio captured before this frame
+}
+
+export type AudioFrameListener = (frame: AudioFrame) => void;
+export type AudioLevelListener = (level: number) => void;
+
+// A microphone the browser can capture from
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string; // empty until the page has been allowed to use the microphone
+}
+
+export interface AudioCaptureServiceOptions {
+  sampleRate?: number; // rate of the delivered frames
+  deviceId?: string; // input device, the system default when not set
+  bufferSize?: number;
+  levelIntervalMs?: number;
+  constraints?: MediaTrackConstraints; // on top of the ones the preprocessing asks for
+  preprocessing?: PreprocessingConfig;
+  debug?: boolean;
+}
+
+export interface AudioCaptureServiceInstance {
+  start: () => Promise<void>;
+  stop: () => void;
+  isCapturing: () => boolean;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  isPaused: () => boolean;
+  setDeviceId: (deviceId: string | null) => void;
+  setPreprocessing: (config: PreprocessingConfig) => Promise<void>;
+  getPreprocessing: () => PreprocessingConfig;
+  getDeviceLabel: () => string | null;
+  getSampleRate: () => number;
+  getMediaStream: () => MediaStream | null;
+  subscribeFrames: (listener: AudioFrameListener) => () => void;
+  subscribeLevel: (listener: AudioLevelListener) => () => void;
+}
+
+// Messages posted from the worklet to the main thread
+type CaptureMessage =
+  | { type: 'frame'; samples: Float32Array }
+  | { type: 'level'; level: number };
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+/**
+ * Source of the AudioWorklet processor. It batches the 128-sample render quanta
+ * into frames of `bufferSize` samples and reports the RMS level every `levelSize` samples.
+ */
+const processorSource = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { bufferSize, levelSize } = options.processorOptions;
+    this.buffer = new Float32Array(bufferSize);
+    this.offset = 0;
+    this.levelSize = levelSize;
+    this.levelSum = 0;
+    this.levelCount = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      const sample = channel[i];
+      this.buffer[this.offset++] = sample;
+      this.levelSum += sample * sample;
+      this.levelCount++;
+
+      if (this.offset === this.buffer.length) {
+        const samples = this.buffer;
+        this.port.postMessage({ type: 'frame', samples }, [samples.buffer]);
+        this.buffer = new Float32Array(samples.length);
+        this.offset = 0;
+      }
+
+      if (this.levelCount === this.levelSize) {
+        this.port.postMessage({ type: 'level', level: Math.sqrt(this.levelSum / this.levelCount) });
+        this.levelSum = 0;
+        this.levelCount = 0;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+/**
+ * Creates the shared audio capture service
+ */
+export const createAudioCaptureService = (options: AudioCaptureServiceOptions = {}): AudioCaptureServiceInstance => {
+  // Default options
+  const {
+    sampleRate = 16000,
+    bufferSize = 4096,
+    levelIntervalMs = 50,
+    constraints = {},
+    debug = false,
+  } = options;
+
+  // Input device for the next start
+  let deviceId = options.deviceId || null;
+  let preprocessing = options.preprocessing || DEFAULT_PREPROCESSING;
+
+  // Service state
+  let audioContext: AudioContext | null = null;
+  let mediaStream: MediaStream | null = null;
+  let source: MediaStreamAudioSourceNode | null = null;
+  let workletNode: AudioWorkletNode | null = null;
+  let resampler: ResamplerInstance | null = null;
+  let preprocessor: AudioPreprocessorInstance | null = null;
+  let capturing = false;
+  let paused = false;
+  let samplesCaptured = 0;
+
+  // Subscribers
+  const frameListeners = new Set<AudioFrameListener>();
+  const levelListeners = new Set<AudioLevelListener>();
+
+  /**
+   * Deliver a message from the worklet to the subscribers
+   */
+  const handleMessage = (message: CaptureMessage): void => {
+    if (!audioContext) return;
+
+    if (message.type === 'frame') {
+      const resampled = resampler ? resampler.process(message.samples) : message.samples;
+      const samples = preprocessor ? preprocessor.process(resampled) : resampled;
+      if (samples.length === 0) return;
+
+      const frame: AudioFrame = {
+        samples,
+        sampleRate,
+        timestamp: (samplesCaptured / sampleRate) * 1000,
+      };
+      samplesCaptured += samples.length;
+
+      frameListeners.forEach((listener) => listener(frame));
+    } else {
+      levelListeners.forEach((listener) => listener(message.level));
+    }
+  };
+
+  /**
+   * Create the processing chain for the current configuration, none when it has no stages
+   */
+  const createPreprocessor = (): AudioPreprocessorInstance | null => {
+    return hasProcessingStages(preprocessing) ? createAudioPreprocessor({ config: preprocessing, sampleRate }) : null;
+  };
+
+  /**
+   * Open the chosen microphone, or the default one when the chosen one is gone
+   */
+  const openMicrophone = async (): Promise<MediaStream> => {
+    const audio = { ...toMediaConstraints(preprocessing), ...constraints };
+    const openDefault = () => navigator.mediaDevices.getUserMedia({ audio });
+    if (!deviceId) return openDefault();
+
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { ...audio, deviceId: { exact: deviceId } } });
+    } catch (error) {
+      // OverconstrainedError is not an Error in every browser
+      const name = (error as { name?: string } | null)?.name;
+      if (name !== 'OverconstrainedError' && name !== 'NotFoundError') throw error;
+
+      console.warn(`Microphone ${deviceId} is not available, using the default microphone`);
+      return openDefault();
+    }
+  };
+
+  /**
+   * Start capturing audio from the microphone
+   */
+  const start = async (): Promise<void> => {
+    if (capturing) return;
+
+    try {
+      // Request microphone access
+      mediaStream = await openMicrophone();
+
+      // Run at the device's rate; Firefox cannot connect a microphone to a context at another rate
+      audioContext = new AudioContext();
+      resampler = createResampler({ fromRate: audioContext.sampleRate, toRate: sampleRate });
+      preprocessor = createPreprocessor();
+
+      // Load the capture processor from an in-memory module
+      const moduleUrl = URL.createObjectURL(new Blob([processorSource], { type: 'application/javascript' }));
+      try {
+        await audioContext.audioWorklet.addModule(moduleUrl);
+      } finally {
+        URL.revokeObjectURL(moduleUrl);
+      }
+
+      // Create the graph: microphone -> capture processor
+      source = audioContext.createMediaStreamSource(mediaStream);
+      workletNode = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions: {
+          bufferSize,
+          levelSize: Math.max(128, Math.round((audioContext.sampleRate * levelIntervalMs) / 1000)),
+        },
+      });
+      workletNode.port.onmessage = (event: MessageEvent<CaptureMessage>) => handleMessage(event.data);
+      source.connect(workletNode);
+
+      samplesCaptured = 0;
+      capturing = true;
+
+      if (debug) {
+        console.log(`Audio capture started on ${getDeviceLabel() || 'the default microphone'} at ${audioContext.sampleRate} Hz, delivering ${sampleRate} Hz`);
+      }
+    } catch (error) {
+      console.error('Error starting audio capture:', error);
+      stop();
+      throw error;
+    }
+  };
+
+  /**
+   * Stop capturing and release the microphone
+   */
+  const stop = (): void => {
+    // Disconnect and clean up audio nodes
+    if (workletNode) {
+      workletNode.port.onmessage = null;
+      workletNode.disconnect();
+    }
+
+    if (source) {
+      source.disconnect();
+    }
+
+    // Stop all tracks in the media stream
+    if (mediaStream) {
+      mediaStream.getTracks().forEach((track) => track.stop());
+    }
+
+    // Close audio context
+    if (audioContext && audioContext.state !== 'closed') {
+      audioContext.close().catch((e) => console.error('Error closing audio context:', e));
+    }
+
+    // Reset references
+    workletNode = null;
+    source = null;
+    mediaStream = null;
+    audioContext = null;
+    resampler = null;
+    preprocessor = null;
+
+    paused = false;
+
+    if (capturing) {
+      capturing = false;
+      levelListeners.forEach((listener) => listener(0));
+      if (debug) console.log('Audio capture stopped');
+    }
+  };
+
+  /**
+   * Check if the microphone is currently being captured
+   */
+  const isCapturing = (): boolean => {
+    return capturing;
+  };
+
+  /**
+   * Stop delivering audio while keeping the microphone open
+   */
+  const pause = async (): Promise<void> => {
+    if (!capturing || paused || !audioContext) return;
+
+    paused = true;
+    mediaStream?.getTracks().forEach((track) => {
+      track.enabled = false;
+    });
+    await audioContext.suspend();
+
+    levelListeners.forEach((listener) => listener(0));
+    if (debug) console.log(`Audio capture paused after ${Math.round((samplesCaptured / sampleRate) * 1000)}ms of audio`);
+  };
+
+  /**
+   * Deliver audio again after a pause
+   */
+  const resume = async (): Promise<void> => {
+    if (!capturing || !paused || !audioContext) return;
+
+    mediaStream?.getTracks().forEach((track) => {
+      track.enabled = true;
+    });
+    await audioContext.resume();
+    paused = false;
+
+    if (debug) console.log('Audio capture resumed');
+  };
+
+  /**
+   * Check if the capture is paused
+   */
+  const isPaused = (): boolean => {
+    return paused;
+  };
+
+  /**
+   * Choose the input device for the next start, or the system default with null
+   */
+  const setDeviceId = (id: string | null): void => {
+    deviceId = id || null;
+    if (debug) console.log(`Input device set to ${deviceId || 'the system default'}`);
+  };
+
+  /**
+   * Change the preprocessing, on the running capture too
+   */
+  const setPreprocessing = async (config: PreprocessingConfig): Promise<void> => {
+    preprocessing = config;
+    if (!capturing) return;
+
+    // The chain starts over; its filters would otherwise carry state from other settings
+    preprocessor = createPreprocessor();
+
+    const track = mediaStream?.getAudioTracks()[0];
+    if (track) {
+      try {
+        await track.applyConstraints({ ...track.getConstraints(), ...toMediaConstraints(config), ...constraints });
+      } catch (error) {
+        console.warn('Could not change the microphone processing while capturing:', error);
+      }
+    }
+
+    if (debug) console.log('Audio preprocessing changed', config);
+  };
+
+  /**
+   * Get the preprocessing applied to the capture
+   */
+  const getPreprocessing = (): PreprocessingConfig => {
+    return preprocessing;
+  };
+
+  /**
+   * Get the name of the microphone being captured
+   */
+  const getDeviceLabel = (): string | null => {
+    return mediaStream?.getAudioTracks()[0]?.label || null;
+  };
+
+  /**
+   * Get the sample rate of the delivered frames
+   */
+  const getSampleRate = (): number => {
+    return sampleRate;
+  };
+
+  /**
+   * Get the underlying media stream (for MediaRecorder based consumers)
+   */
+  const getMediaStream = (): MediaStream | null => {
+    return mediaStream;
+  };
+
+  /**
+   * Subscribe to PCM frames, returns an unsubscribe function
+   */
+  const subscribeFrames = (listener: AudioFrameListener): (() => void) => {
+    frameListeners.add(listener);
+    return () => {
+      frameListeners.delete(listener);
+    };
+  };
+
+  /**
+   * Subscribe to RMS level readings, returns an unsubscribe function
+   */
+  const subscribeLevel = (listener: AudioLevelListener): (() => void) => {
+    levelListeners.add(listener);
+    return () => {
+      levelListeners.delete(listener);
+    };
+  };
+
+  // Return the service instance
+  return {
+    start,
+    stop,
+    isCapturing,
+    pause,
+    resume,
+    isPaused,
+    setDeviceId,
+    setPreprocessing,
+    getPreprocessing,
+    getDeviceLabel,
+    getSampleRate,
+    getMediaStream,
+    subscribeFrames,
+    subscribeLevel,
+  };
+};
+
+/**
+ * List the microphones the browser can capture from
+ */
+export const listAudioInputDevices = async (): Promise<AudioInputDevice[]> => {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'audioinput' && device.deviceId !== 'default' && device.deviceId !== 'communications')
+    .map((device) => ({ deviceId: device.deviceId, label: device.label }));
+};
+
+export default createAudioCaptureService;
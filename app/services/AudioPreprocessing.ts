@@ -0,0 +1,446 @@
+/**
+ * AudioPreprocessing.ts
+ * The preprocessing applied to captured audio before any engine hears it, and the
+ * workstation profiles it is configured in
+ *
+ * The browser's own processing (echo cancellation, noise suppression, gain control) is requested
+ * as microphone constraints. The rest runs on the resampled frames, in this order: a high-pass
+ * filter against HVAC rumble and table knocks, spectral noise reduction, and a normalizer that
+ * brings quiet speakers up to a target level with a limiter that keeps peaks from clipping.
+ */
+
+import { fft } from './VoiceActivityDetector';
+
+export interface PreprocessingConfig {
+  echoCancellation: boolean;
+  noiseSuppression: boolean; // the browser's, on top of or instead of noiseReduction
+  autoGainControl: boolean;
+  highPass: boolean;
+  highPassHz: number;
+  noiseReduction: boolean;
+  noiseReductionDb: number; // most a frequency band is attenuated
+  normalize: boolean;
+  targetLevelDb: number; // speech level the normalizer aims for, dBFS RMS
+  maxGainDb: number; // most the normalizer amplifies
+  limiterDb: number; // peak ceiling, dBFS
+}
+
+// A named configuration, e.g. for one consultation room
+export interface PreprocessingProfile {
+  id: string;
+  name: string;
+  config: PreprocessingConfig;
+}
+
+export interface AudioPreprocessorOptions {
+  config: PreprocessingConfig;
+  sampleRate: number;
+}
+
+export interface AudioPreprocessorInstance {
+  process: (samples: Float32Array) => Float32Array;
+  reset: () => void;
+}
+
+export interface PreprocessingProfileStoreOptions {
+  storageKey?: string;
+  activeKey?: string;
+}
+
+export interface PreprocessingProfileStoreInstance {
+  getProfiles: () => PreprocessingProfile[];
+  getActiveProfile: () => PreprocessingProfile;
+  setActiveProfile: (id: string) => void;
+  saveProfile: (profile: PreprocessingProfile) => void;
+  removeProfile: (id: string) => void;
+  subscribe: (listener: (profiles: PreprocessingProfile[], active: PreprocessingProfile) => void) => () => void;
+}
+
+// What every workstation starts with: the browser's processing and rumble removal
+export const DEFAULT_PREPROCESSING: PreprocessingConfig = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  highPass: true,
+  highPassHz: 80,
+  noiseReduction: false,
+  noiseReductionDb: 12,
+  normalize: false,
+  targetLevelDb: -20,
+  maxGainDb: 18,
+  limiterDb: -1,
+};
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Spectral noise reduction frame, in samples at 16 kHz (scaled with the sample rate)
+const NOISE_FRAME_SIZE = 512;
+
+// Below this level audio is not speech, so the normalizer leaves its gain alone
+const NORMALIZER_GATE_DB = -50;
+
+/**
+ * Convert decibels to a linear factor
+ */
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+/**
+ * Microphone constraints for the browser's own processing
+ */
+export const toMediaConstraints = (config: PreprocessingConfig): MediaTrackConstraints => ({
+  echoCancellation: config.echoCancellation,
+  noiseSuppression: config.noiseSuppression,
+  autoGainControl: config.autoGainControl,
+});
+
+/**
+ * Second-order Butterworth high-pass filter
+ */
+const createHighPass = (cutoffHz: number, sampleRate: number) => {
+  const omega = (2 * Math.PI * Math.min(cutoffHz, sampleRate / 2 - 1)) / sampleRate;
+  const alpha = Math.sin(omega) / Math.SQRT2;
+  const cos = Math.cos(omega);
+  const a0 = 1 + alpha;
+  const b0 = (1 + cos) / 2 / a0;
+  const b1 = -(1 + cos) / a0;
+  const a1 = (-2 * cos) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+
+  return (samples: Float32Array): Float32Array => {
+    const output = new Float32Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      const x = samples[i];
+      const y = b0 * x + b1 * x1 + b0 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+      output[i] = y;
+    }
+    return output;
+  };
+};
+
+/**
+ * Spectral noise reduction: a per-band noise estimate that follows the quietest recent level,
+ * and a smoothed gain that attenuates the bands where the noise dominates. Output lags the
+ * input by one frame.
+ */
+const createNoiseReducer = (maxReductionDb: number, sampleRate: number) => {
+  let size = 1;
+  while (size < (NOISE_FRAME_SIZE * sampleRate) / 16000) size <<= 1;
+  const hop = size / 2;
+  const bins = size / 2 + 1;
+  const floor = dbToGain(-maxReductionDb);
+
+  // Square-root Hann analysis and synthesis windows add up to one at half overlap
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size));
+  }
+
+  const noise = new Float64Array(bins);
+  const smoothed = new Float64Array(bins);
+  const gains = new Float64Array(bins).fill(1);
+  let noiseInitialized = false;
+  let input = new Float32Array(size - hop); // the previous half frame
+  let overlap = new Float64Array(size - hop);
+
+  /**
+   * Clean one frame and return the output hop it completes
+   */
+  const processFrame = (frame: Float32Array): Float32Array => {
+    const re = new Float64Array(size);
+    const im = new Float64Array(size);
+    for (let i = 0; i < size; i++) {
+      re[i] = frame[i] * window[i];
+    }
+    fft(re, im);
+
+    for (let k = 0; k < bins; k++) {
+      const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+      smoothed[k] = noiseInitialized ? 0.6 * smoothed[k] + 0.4 * power : power;
+
+      // Levels near the estimate are averaged into it; louder ones (speech) only let it creep up,
+      // so a noise that gets louder for good is still followed
+      if (!noiseInitialized) {
+        noise[k] = power;
+      } else if (power < 4 * noise[k]) {
+        noise[k] = 0.95 * noise[k] + 0.05 * power;
+      } else {
+        noise[k] *= 1.01;
+      }
+
+      const gain = Math.max(floor, 1 - (2 * noise[k]) / smoothed[k]);
+      gains[k] = gain < gains[k] ? 0.5 * gains[k] + 0.5 * gain : 0.2 * gains[k] + 0.8 * gain;
+
+      re[k] *= gains[k];
+      im[k] *= gains[k];
+      if (k > 0 && k < size / 2) {
+        re[size - k] = re[k];
+        im[size - k] = -im[k];
+      }
+    }
+    noiseInitialized = true;
+
+    // Inverse transform through the forward one: conjugate, transform, conjugate and scale
+    for (let i = 0; i < size; i++) im[i] = -im[i];
+    fft(re, im);
+
+    const output = new Float32Array(hop);
+    for (let i = 0; i < size; i++) {
+      const sample = (re[i] / size) * window[i];
+      if (i < hop) {
+        output[i] = overlap[i] + sample;
+      } else {
+        overlap[i - hop] = sample;
+      }
+    }
+    return output;
+  };
+
+  const process = (samples: Float32Array): Float32Array => {
+    const joined = new Float32Array(input.length + samples.length);
+    joined.set(input);
+    joined.set(samples, input.length);
+
+    const hops = Math.floor((joined.length - (size - hop)) / hop);
+    const output = new Float32Array(hops * hop);
+    for (let h = 0; h < hops; h++) {
+      output.set(processFrame(joined.subarray(h * hop, h * hop + size)), h * hop);
+    }
+
+    input = joined.slice(hops * hop);
+    return output;
+  };
+
+  const reset = (): void => {
+    noiseInitialized = false;
+    gains.fill(1);
+    input = new Float32Array(size - hop);
+    overlap = new Float64Array(size - hop);
+  };
+
+  return { process, reset };
+};
+
+/**
+ * Normalizer with a peak limiter: a slowly moving gain towards the target speech level,
+ * reduced at once wherever a peak would exceed the ceiling
+ */
+const createNormalizer = (targetLevelDb: number, maxGainDb: number, limiterDb: number, sampleRate: number) => {
+  const target = dbToGain(targetLevelDb);
+  const maxGain = dbToGain(maxGainDb);
+  const ceiling = dbToGain(limiterDb);
+  const gate = dbToGain(NORMALIZER_GATE_DB);
+
+  // Per-sample smoothing for a ~1 s level meter, gain moving within ~0.5 s and limiter release of ~50 ms
+  const levelCoefficient = Math.exp(-1 / sampleRate);
+  const gainCoefficient = Math.exp(-1 / (0.5 * sampleRate));
+  const releaseCoefficient = Math.exp(-1 / (0.05 * sampleRate));
+
+  let meanSquare = 0;
+  let gain = 1;
+  let limiterGain = 1;
+
+  const process = (samples: Float32Array): Float32Array => {
+    const output = new Float32Array(samples.length);
+
+    for (let i = 0; i < samples.length; i++) {
+      const x = samples[i];
+      meanSquare = levelCoefficient * meanSquare + (1 - levelCoefficient) * x * x;
+
+      // Only speech-level audio moves the gain, so pauses are not pumped up to the target
+      const level = Math.sqrt(meanSquare);
+      if (level > gate) {
+        const desired = Math.min(maxGain, target / level);
+        gain = gainCoefficient * gain + (1 - gainCoefficient) * desired;
+      }
+
+      const y = x * gain;
+      const peak = Math.abs(y) * limiterGain;
+      limiterGain = peak > ceiling
+        ? ceiling / Math.abs(y)
+        : releaseCoefficient * limiterGain + (1 - releaseCoefficient);
+
+      output[i] = y * limiterGain;
+    }
+
+    return output;
+  };
+
+  const reset = (): void => {
+    meanSquare = 0;
+    gain = 1;
+    limiterGain = 1;
+  };
+
+  return { process, reset };
+};
+
+/**
+ * Creates the processing chain for one configuration
+ */
+export const createAudioPreprocessor = (options: AudioPreprocessorOptions): AudioPreprocessorInstance => {
+  // Default options
+  const {
+    config,
+    sampleRate,
+  } = options;
+
+  // Chain state: the stages the configuration turns on, in order
+  let highPass = config.highPass ? createHighPass(config.highPassHz, sampleRate) : null;
+  const noiseReducer = config.noiseReduction ? createNoiseReducer(config.noiseReductionDb, sampleRate) : null;
+  const normalizer = config.normalize ? createNormalizer(config.targetLevelDb, config.maxGainDb, config.limiterDb, sampleRate) : null;
+
+  /**
+   * Run a block of samples through the chain
+   */
+  const process = (samples: Float32Array): Float32Array => {
+    let output = samples;
+    if (highPass) output = highPass(output);
+    if (noiseReducer) output = noiseReducer.process(output);
+    if (normalizer) output = normalizer.process(output);
+    return output;
+  };
+
+  /**
+   * Forget the signal so far
+   */
+  const reset = (): void => {
+    highPass = config.highPass ? createHighPass(config.highPassHz, sampleRate) : null;
+    noiseReducer?.reset();
+    normalizer?.reset();
+  };
+
+  // Return the service instance
+  return {
+    process,
+    reset,
+  };
+};
+
+/**
+ * Whether a configuration changes the audio after capture
+ */
+export const hasProcessingStages = (config: PreprocessingConfig): boolean => {
+  return config.highPass || config.noiseReduction || config.normalize;
+};
+
+/**
+ * Fill in missing or invalid settings from the defaults
+ */
+export const normalizePreprocessingConfig = (config: Partial<PreprocessingConfig>): PreprocessingConfig => {
+  const number = (value: unknown, fallback: number, min: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+  const flag = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+
+  return {
+    echoCancellation: flag(config.echoCancellation, DEFAULT_PREPROCESSING.echoCancellation),
+    noiseSuppression: flag(config.noiseSuppression, DEFAULT_PREPROCESSING.noiseSuppression),
+    autoGainControl: flag(config.autoGainControl, DEFAULT_PREPROCESSING.autoGainControl),
+    highPass: flag(config.highPass, DEFAULT_PREPROCESSING.highPass),
+    highPassHz: number(config.highPassHz, DEFAULT_PREPROCESSING.highPassHz, 20, 300),
+    noiseReduction: flag(config.noiseReduction, DEFAULT_PREPROCESSING.noiseReduction),
+    noiseReductionDb: number(config.noiseReductionDb, DEFAULT_PREPROCESSING.noiseReductionDb, 3, 30),
+    normalize: flag(config.normalize, DEFAULT_PREPROCESSING.normalize),
+    targetLevelDb: number(config.targetLevelDb, DEFAULT_PREPROCESSING.targetLevelDb, -40, -6),
+    maxGainDb: number(config.maxGainDb, DEFAULT_PREPROCESSING.maxGainDb, 0, 30),
+    limiterDb: number(config.limiterDb, DEFAULT_PREPROCESSING.limiterDb, -12, 0),
+  };
+};
+
+/**
+ * Creates the store of workstation profiles saved in this browser, one of them active
+ */
+export const createPreprocessingProfileStore = (options: PreprocessingProfileStoreOptions = {}): PreprocessingProfileStoreInstance => {
+  // Default options
+  const {
+    storageKey = 'preprocessingProfiles',
+    activeKey = 'preprocessingProfile',
+  } = options;
+
+  // Store state
+  const listeners = new Set<(profiles: PreprocessingProfile[], active: PreprocessingProfile) => void>();
+  const defaultProfile: PreprocessingProfile = { id: DEFAULT_PROFILE_ID, name: 'Default', config: DEFAULT_PREPROCESSING };
+
+  /**
+   * Load the saved profiles, always including the default one
+   */
+  const load = (): PreprocessingProfile[] => {
+    if (typeof window === 'undefined') return [defaultProfile];
+
+    try {
+      const saved = window.localStorage.getItem(storageKey);
+      const parsed: PreprocessingProfile[] = saved ? JSON.parse(saved) : [];
+      const loaded = parsed
+        .filter((profile) => profile && typeof profile.id === 'string' && typeof profile.name === 'string')
+        .map((profile) => ({ ...profile, config: normalizePreprocessingConfig(profile.config || {}) }));
+
+      return loaded.some((profile) => profile.id === DEFAULT_PROFILE_ID) ? loaded : [defaultProfile, ...loaded];
+    } catch (error) {
+      console.error('Error loading preprocessing profiles:', error);
+      return [defaultProfile];
+    }
+  };
+
+  let profiles = load();
+  let activeId = (typeof window !== 'undefined' && window.localStorage.getItem(activeKey)) || DEFAULT_PROFILE_ID;
+
+  /**
+   * The active profile, or the default one when it was removed
+   */
+  const getActiveProfile = (): PreprocessingProfile => {
+    return profiles.find((profile) => profile.id === activeId) || profiles[0];
+  };
+
+  /**
+   * Save everything and notify listeners
+   */
+  const save = (): void => {
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(storageKey, JSON.stringify(profiles));
+      window.localStorage.setItem(activeKey, activeId);
+    }
+
+    listeners.forEach((listener) => listener(profiles, getActiveProfile()));
+  };
+
+  // Return the store instance
+  return {
+    getProfiles: () => profiles,
+    getActiveProfile,
+    setActiveProfile: (id) => {
+      activeId = id;
+      save();
+    },
+    // Adds a new profile or replaces the one with the same id
+    saveProfile: (profile) => {
+      const normalized = { ...profile, config: normalizePreprocessingConfig(profile.config) };
+      profiles = profiles.some((entry) => entry.id === profile.id)
+        ? profiles.map((entry) => (entry.id === profile.id ? normalized : entry))
+        : [...profiles, normalized];
+      save();
+    },
+    // The default profile stays
+    removeProfile: (id) => {
+      if (id === DEFAULT_PROFILE_ID) return;
+      profiles = profiles.filter((profile) => profile.id !== id);
+      if (activeId === id) activeId = DEFAULT_PROFILE_ID;
+      save();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export default createAudioPreprocessor;
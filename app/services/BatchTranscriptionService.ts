@@ -0,0 +1,187 @@
+/**
+ * BatchTranscriptionService.ts
+ * A service for transcribing pre-recorded consultations uploaded as audio files
+ */
+
+import type { STTApi } from './SpeechRecognitionService';
+import { segmentLanguage } from './Languages';
+import { getEnginesWith } from './Engines';
+import { createSegmentId, offsetWords, TranscriptSegment, WordTiming } from './TranscriptSegment';
+
+// Engines that can transcribe an uploaded file on the server
+export type BatchEngine = Extract<STTApi, 'whisper' | 'googleSpeech' | 'assemblyAINano' | 'realtime'>;
+
+export const BATCH_ENGINES = getEnginesWith('fileTranscription').map((engine) => engine.id) as BatchEngine[];
+
+export type BatchStatus = 'uploading' | 'queued' | 'decoding' | 'transcribing' | 'done' | 'error';
+
+export interface BatchProgress {
+  status: BatchStatus;
+  completedChunks: number;
+  totalChunks: number;
+  durationMs?: number;
+}
+
+export interface BatchTranscriptionOptions {
+  engine: BatchEngine;
+  language: string; // BCP-47 tag, or AUTO_LANGUAGE
+  diarization?: boolean;
+  vocabulary?: string[]; // clinic vocabulary to bias the engine towards
+}
+
+export interface BatchTranscriptionServiceOptions {
+  onProgress?: (progress: BatchProgress) => void;
+  pollIntervalMs?: number;
+  debug?: boolean;
+}
+
+export interface BatchTranscriptionServiceInstance {
+  transcribe: (file: File, options: BatchTranscriptionOptions) => Promise<TranscriptSegment[]>;
+  cancel: () => void;
+  isRunning: () => boolean;
+}
+
+// Segment of a batch job as reported by /api/batch/[jobId]
+interface BatchJobSegment {
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number;
+  speaker?: string;
+  language?: string;
+  words: WordTiming[];
+}
+
+interface BatchJobResponse {
+  status: Exclude<BatchStatus, 'uploading'>;
+  totalChunks: number;
+  completedChunks: number;
+  durationMs?: number;
+  segments: BatchJobSegment[];
+  error?: string;
+}
+
+export const createBatchTranscriptionService = (
+  options: BatchTranscriptionServiceOptions = {}
+): BatchTranscriptionServiceInstance => {
+  // Default options
+  const {
+    onProgress,
+    pollIntervalMs = 1000,
+    debug = true,
+  } = options;
+
+  // Service state
+  let running = false;
+  let cancelled = false;
+
+  /**
+   * Wait before the next poll
+   */
+  const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+  /**
+   * Convert the job's segments to final transcript segments on the file's timeline
+   */
+  const toTranscriptSegments = (job: BatchJobResponse, transcription: BatchTranscriptionOptions): TranscriptSegment[] => {
+    return job.segments.map((segment) => ({
+      id: createSegmentId(transcription.engine),
+      status: 'final',
+      startTime: segment.start,
+      endTime: segment.end,
+      text: segment.text,
+      confidence: segment.confidence,
+      engine: transcription.engine,
+      language: segmentLanguage(segment.language, transcription.language),
+      speaker: segment.speaker,
+      words: offsetWords(segment.words, 0),
+    }));
+  };
+
+  /**
+   * Upload a file and wait for its transcript
+   */
+  const transcribe = async (file: File, transcription: BatchTranscriptionOptions): Promise<TranscriptSegment[]> => {
+    if (running) {
+      throw new Error('A batch transcription is already running');
+    }
+
+    running = true;
+    cancelled = false;
+
+    try {
+      onProgress?.({ status: 'uploading', completedChunks: 0, totalChunks: 0 });
+      if (debug) console.log(`Uploading ${file.name} (${file.size} bytes) for ${transcription.engine}`);
+
+      const formData = new FormData();
+      formData.append('audio', file);
+      formData.append('engine', transcription.engine);
+      formData.append('language', transcription.language);
+      formData.append('diarization', String(transcription.diarization ?? false));
+      if (transcription.vocabulary && transcription.vocabulary.length > 0) {
+        formData.append('vocabulary', JSON.stringify(transcription.vocabulary));
+      }
+
+      const response = await fetch('/api/batch', { method: 'POST', body: formData });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || `Upload failed with status ${response.status}`);
+      }
+
+      const { jobId } = await response.json();
+      if (debug) console.log(`Batch job ${jobId} started`);
+
+      // Poll until the job finishes
+      while (!cancelled) {
+        const jobResponse = await fetch(`/api/batch/${jobId}`);
+        if (!jobResponse.ok) {
+          throw new Error(`Batch job ${jobId} could not be read (status ${jobResponse.status})`);
+        }
+
+        const job: BatchJobResponse = await jobResponse.json();
+        onProgress?.({
+          status: job.status,
+          completedChunks: job.completedChunks,
+          totalChunks: job.totalChunks,
+          durationMs: job.durationMs,
+        });
+
+        if (job.status === 'error') {
+          throw new Error(job.error || 'Batch transcription failed');
+        }
+
+        if (job.status === 'done') {
+          if (debug) console.log(`Batch job ${jobId} finished with ${job.segments.length} segments`);
+          return toTranscriptSegments(job, transcription);
+        }
+
+        await wait(pollIntervalMs);
+      }
+
+      throw new Error('Batch transcription cancelled');
+    } finally {
+      running = false;
+    }
+  };
+
+  /**
+   * Stop waiting for the current job
+   */
+  const cancel = () => {
+    cancelled = true;
+  };
+
+  /**
+   * Check if a transcription is in progress
+   */
+  const isRunning = () => running;
+
+  // Return the service instance
+  return {
+    transcribe,
+    cancel,
+    isRunning,
+  };
+};
+
+export default createBatchTranscriptionService;
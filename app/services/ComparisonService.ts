@@ -0,0 +1,277 @@
+/**
+ * ComparisonService.ts
+ * Runs several speech recognition engines side by side on one microphone capture and scores
+ * their transcripts against a clinician-corrected reference
+ */
+
+import type { EngineServiceInstance, SpeechRecognitionServiceInstance, STTApi } from './SpeechRecognitionService';
+import { segmentsToText, TranscriptSegment, upsertSegment } from './TranscriptSegment';
+import { computeCer, computeWer, ErrorRate } from './Accuracy';
+
+// What one engine produced during a comparison
+export interface ComparisonEngineRun {
+  engine: STTApi;
+  segments: TranscriptSegment[];
+  latencies: number[]; // milliseconds from the end of each utterance to its final transcript
+  failures: number;
+  lastError?: string;
+}
+
+// Accuracy and speed of one engine against the reference
+export interface ComparisonEngineScore {
+  engine: STTApi;
+  transcript: string;
+  wer: ErrorRate;
+  cer: ErrorRate;
+  averageLatencyMs: number | null;
+  failures: number;
+}
+
+// A scored comparison, kept for later review
+export interface ComparisonRecord {
+  id: string;
+  createdAt: number;
+  label?: string; // e.g. the clinic or workstation
+  language: string;
+  durationMs: number;
+  reference: string;
+  scores: ComparisonEngineScore[];
+}
+
+export interface ComparisonServiceOptions {
+  speechService: SpeechRecognitionServiceInstance; // provides the microphone capture and the engines
+  onUpdate?: (runs: ComparisonEngineRun[]) => void;
+  debug?: boolean;
+}
+
+export interface ComparisonServiceInstance {
+  start: (engines: STTApi[]) => Promise<void>;
+  stop: () => void;
+  isRunning: () => boolean;
+  getRuns: () => ComparisonEngineRun[];
+  getDuration: () => number;
+}
+
+export interface ComparisonStoreOptions {
+  storageKey?: string;
+  maxRecords?: number;
+}
+
+export interface ComparisonStoreInstance {
+  getRecords: () => ComparisonRecord[];
+  addRecord: (record: ComparisonRecord) => void;
+  removeRecord: (id: string) => void;
+  subscribe: (listener: (records: ComparisonRecord[]) => void) => () => void;
+}
+
+/**
+ * Score an engine's final transcript against the reference
+ */
+export const scoreRun = (run: ComparisonEngineRun, reference: string): ComparisonEngineScore => {
+  const finalSegments = [...run.segments]
+    // Audio the engine failed to transcribe counts as missed words, not as the placeholder text
+    .filter((segment) => segment.status === 'final' && !segment.dropped)
+    .sort((a, b) => a.startTime - b.startTime);
+  const transcript = segmentsToText(finalSegments);
+
+  return {
+    engine: run.engine,
+    transcript,
+    wer: computeWer(reference, transcript),
+    cer: computeCer(reference, transcript),
+    averageLatencyMs: run.latencies.length > 0
+      ? run.latencies.reduce((sum, latency) => sum + latency, 0) / run.latencies.length
+      : null,
+    failures: run.failures,
+  };
+};
+
+/**
+ * Score every engine of a comparison into a record for the store
+ */
+export const createComparisonRecord = (
+  runs: ComparisonEngineRun[],
+  reference: string,
+  details: { language: string; durationMs: number; label?: string }
+): ComparisonRecord => ({
+  id: `comparison-${Date.now().toString(36)}`,
+  createdAt: Date.now(),
+  ...details,
+  reference,
+  scores: runs.map((run) => scoreRun(run, reference)),
+});
+
+/**
+ * Creates a service that feeds one microphone capture to several engines at once
+ */
+export const createComparisonService = (options: ComparisonServiceOptions): ComparisonServiceInstance => {
+  // Default options
+  const {
+    speechService,
+    onUpdate,
+    debug = false,
+  } = options;
+
+  // Service state
+  let engines: { api: STTApi; service: EngineServiceInstance }[] = [];
+  let runs: ComparisonEngineRun[] = [];
+  let running = false;
+  let startedAt = 0;
+  let durationMs = 0;
+
+  /**
+   * Replace an engine's run and notify the listener
+   */
+  const updateRun = (api: STTApi, update: (run: ComparisonEngineRun) => ComparisonEngineRun): void => {
+    runs = runs.map((run) => (run.engine === api ? update(run) : run));
+    if (onUpdate) {
+      onUpdate(runs);
+    }
+  };
+
+  /**
+   * Add a segment to an engine's run, timing final transcripts when they first arrive
+   */
+  const handleSegment = (api: STTApi, segment: TranscriptSegment): void => {
+    updateRun(api, (run) => {
+      const previous = run.segments.find((existing) => existing.id === segment.id);
+      const firstFinal = segment.status === 'final' && previous?.status !== 'final' && !segment.dropped;
+      const latency = speechService.getSessionTime() - segment.endTime;
+
+      return {
+        ...run,
+        segments: upsertSegment(run.segments, segment),
+        latencies: firstFinal ? [...run.latencies, Math.max(0, latency)] : run.latencies,
+      };
+    });
+  };
+
+  /**
+   * Start the engines on a shared microphone capture
+   */
+  const start = async (apis: STTApi[]): Promise<void> => {
+    if (running) return;
+
+    runs = apis.map((api) => ({ engine: api, segments: [], latencies: [], failures: 0 }));
+    await speechService.startCapture();
+
+    engines = apis.map((api) => ({
+      api,
+      service: speechService.createEngine(api, {
+        onSegment: (segment) => handleSegment(api, segment),
+        onHealthReport: (report) => {
+          if (report.ok) return;
+          updateRun(api, (run) => ({ ...run, failures: run.failures + 1, lastError: report.error ?? run.lastError }));
+        },
+      }),
+    }));
+
+    // An engine that fails to start is left out; the others carry on
+    const started = await Promise.all(engines.map(async ({ api, service }) => {
+      try {
+        await service.start();
+        return true;
+      } catch (error) {
+        console.error(`Error starting ${api} for comparison:`, error);
+        updateRun(api, (run) => ({ ...run, failures: run.failures + 1, lastError: error instanceof Error ? error.message : String(error) }));
+        return false;
+      }
+    }));
+
+    if (!started.some(Boolean)) {
+      speechService.stopCapture();
+      throw new Error('None of the engines could be started');
+    }
+
+    running = true;
+    startedAt = Date.now();
+    durationMs = 0;
+    if (debug) console.log(`Comparing ${apis.join(', ')}`);
+    if (onUpdate) {
+      onUpdate(runs);
+    }
+  };
+
+  /**
+   * Stop every engine; transcripts of the last utterances may still arrive afterwards
+   */
+  const stop = (): void => {
+    if (!running) return;
+
+    engines.forEach(({ service }) => service.stop());
+    speechService.stopCapture();
+
+    running = false;
+    durationMs = Date.now() - startedAt;
+    if (debug) console.log(`Comparison stopped after ${Math.round(durationMs / 1000)}s`);
+  };
+
+  // Return the service instance
+  return {
+    start,
+    stop,
+    isRunning: () => running,
+    getRuns: () => runs,
+    getDuration: () => (running ? Date.now() - startedAt : durationMs),
+  };
+};
+
+/**
+ * Creates a store of scored comparisons persisted in localStorage
+ */
+export const createComparisonStore = (options: ComparisonStoreOptions = {}): ComparisonStoreInstance => {
+  // Default options
+  const {
+    storageKey = 'engineComparisons',
+    maxRecords = 50,
+  } = options;
+
+  // Store state
+  const listeners = new Set<(records: ComparisonRecord[]) => void>();
+
+  /**
+   * Load the saved comparisons
+   */
+  const load = (): ComparisonRecord[] => {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const saved = window.localStorage.getItem(storageKey);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('Error loading saved comparisons:', error);
+      return [];
+    }
+  };
+
+  let records = load();
+
+  /**
+   * Replace every record, save and notify listeners
+   */
+  const save = (updated: ComparisonRecord[]): void => {
+    records = updated;
+
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(storageKey, JSON.stringify(records));
+    }
+
+    listeners.forEach((listener) => listener(records));
+  };
+
+  // Return the store instance
+  return {
+    getRecords: () => records,
+    // Newest first, dropping the oldest beyond the limit
+    addRecord: (record) => save([record, ...records].slice(0, maxRecords)),
+    removeRecord: (id) => save(records.filter((record) => record.id !== id)),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export default createComparisonService;
@@ -0,0 +1,128 @@
+/**
+ * EngineHealth.ts
+ * Tracks how each speech recognition engine is doing during a session, so a failing engine
+ * can be handed over to the next one in the failover chain
+ */
+
+import type { STTApi } from './SpeechRecognitionService';
+
+// Outcome of one request to an engine, or an error from a streaming engine
+export interface EngineReport {
+  ok: boolean;
+  latencyMs?: number; // time until the transcript arrived
+  error?: string;
+  fatal?: boolean; // the engine stopped and cannot go on
+}
+
+export type EngineReportListener = (report: EngineReport) => void;
+
+export type EngineHealthStatus = 'healthy' | 'degraded' | 'failing';
+
+export interface EngineHealth {
+  engine: STTApi;
+  status: EngineHealthStatus;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  averageLatencyMs: number | null; // over the latest successful requests
+  lastError?: string;
+}
+
+export interface EngineHealthTrackerOptions {
+  maxConsecutiveFailures?: number; // failures in a row before an engine counts as failing
+  maxLatencyMs?: number; // average latency above which an engine counts as failing
+  latencyWindow?: number; // successful requests the average latency is taken over
+}
+
+export interface EngineHealthTrackerInstance {
+  record: (engine: STTApi, report: EngineReport) => EngineHealth;
+  getHealth: (engine: STTApi) => EngineHealth;
+  getAll: () => EngineHealth[];
+  reset: () => void;
+}
+
+/**
+ * Creates a tracker of per-engine health
+ */
+export const createEngineHealthTracker = (options: EngineHealthTrackerOptions = {}): EngineHealthTrackerInstance => {
+  // Default options
+  const {
+    maxConsecutiveFailures = 3,
+    maxLatencyMs = 15000,
+    latencyWindow = 5,
+  } = options;
+
+  // Tracker state
+  let counters = new Map<STTApi, Omit<EngineHealth, 'status' | 'averageLatencyMs'> & { latencies: number[] }>();
+
+  /**
+   * Counters of an engine, created on first use
+   */
+  const getCounters = (engine: STTApi) => {
+    let entry = counters.get(engine);
+    if (!entry) {
+      entry = { engine, requests: 0, failures: 0, consecutiveFailures: 0, latencies: [] };
+      counters.set(engine, entry);
+    }
+    return entry;
+  };
+
+  /**
+   * Current health of an engine
+   */
+  const getHealth = (engine: STTApi): EngineHealth => {
+    const { latencies, ...entry } = getCounters(engine);
+    const averageLatencyMs = latencies.length > 0
+      ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
+      : null;
+
+    // Slow only counts once there are enough requests to judge by
+    const tooSlow = averageLatencyMs !== null && latencies.length >= latencyWindow && averageLatencyMs > maxLatencyMs;
+
+    const status: EngineHealthStatus = entry.consecutiveFailures >= maxConsecutiveFailures || tooSlow
+      ? 'failing'
+      : entry.consecutiveFailures > 0 || (averageLatencyMs !== null && averageLatencyMs > maxLatencyMs / 2)
+        ? 'degraded'
+        : 'healthy';
+
+    return { ...entry, averageLatencyMs, status };
+  };
+
+  /**
+   * Record the outcome of a request and return the engine's health
+   */
+  const record = (engine: STTApi, report: EngineReport): EngineHealth => {
+    const entry = getCounters(engine);
+    entry.requests++;
+
+    if (report.ok) {
+      entry.consecutiveFailures = 0;
+      if (report.latencyMs !== undefined) {
+        entry.latencies = [...entry.latencies, report.latencyMs].slice(-latencyWindow);
+      }
+    } else {
+      entry.failures++;
+      entry.consecutiveFailures++;
+      entry.lastError = report.error ?? entry.lastError;
+    }
+
+    return getHealth(engine);
+  };
+
+  /**
+   * Forget every engine's history, for a new session
+   */
+  const reset = (): void => {
+    counters = new Map();
+  };
+
+  // Return the tracker instance
+  return {
+    record,
+    getHealth,
+    getAll: () => Array.from(counters.keys()).map(getHealth),
+    reset,
+  };
+};
+
+export default createEngineHealthTracker;
@@ -0,0 +1,157 @@
+/**
+ * Engines.ts
+ * Registry of the speech recognition engines and what each of them can do
+ *
+ * The UI renders engine options from these capabilities, so a new engine only needs an entry
+ * here and a case in SpeechRecognitionService.createService.
+ */
+
+import type { STTApi } from './SpeechRecognitionService';
+import { getLanguagesForEngine, supportsAutoDetect } from './Languages';
+
+// Streaming engines transcribe continuously; chunked engines transcribe VAD-cut speech segments
+export type EngineMode = 'streaming' | 'chunked';
+
+export interface EngineCapabilities {
+  mode: EngineMode;
+  interimResults: boolean; // shows words while they are being spoken
+  languages: string[]; // BCP-47 tags of the supported languages
+  languageDetection: boolean;
+  diarization: boolean;
+  wordTimings: boolean;
+  vocabularyBiasing: boolean; // accepts the clinic vocabulary
+  fileTranscription: boolean; // can transcribe uploaded recordings
+  sharedCapture: boolean; // listens to the shared microphone capture, so it can run beside other engines
+  serverKey: boolean; // needs a provider key configured on the server
+  offline: boolean; // audio never leaves the clinic network
+}
+
+export interface EngineInfo {
+  id: STTApi;
+  name: string;
+  description: string;
+  selectable: boolean; // offered in the engine picker
+  capabilities: EngineCapabilities;
+}
+
+/**
+ * Registry entry for an engine, filling in its languages from the language registry
+ */
+const engine = (
+  id: STTApi,
+  name: string,
+  description: string,
+  selectable: boolean,
+  capabilities: Omit<EngineCapabilities, 'languages' | 'languageDetection'>
+): EngineInfo => ({
+  id,
+  name,
+  description,
+  selectable,
+  capabilities: {
+    ...capabilities,
+    languages: getLanguagesForEngine(id).map((language) => language.code),
+    languageDetection: supportsAutoDetect(id),
+  },
+});
+
+export const ENGINES: EngineInfo[] = [
+  engine('webSpeech', 'Web Speech API', "The browser's built-in speech recognition", true, {
+    mode: 'streaming',
+    interimResults: true,
+    diarization: false,
+    wordTimings: false,
+    vocabularyBiasing: true, // JSGF grammar, in browsers that support SpeechGrammarList
+    fileTranscription: false,
+    sharedCapture: false,
+    serverKey: false,
+    offline: false,
+  }),
+  engine('assemblyAINano', 'AssemblyAI Nano (Free)', 'AssemblyAI batch transcription of each speech segment', true, {
+    mode: 'chunked',
+    interimResults: false,
+    diarization: true,
+    wordTimings: true,
+    vocabularyBiasing: true,
+    fileTranscription: true,
+    sharedCapture: true,
+    serverKey: true,
+    offline: false,
+  }),
+  engine('whisper', 'OpenAI Whisper', 'OpenAI transcription of each speech segment', true, {
+    mode: 'chunked',
+    interimResults: false,
+    diarization: false,
+    wordTimings: true,
+    vocabularyBiasing: true,
+    fileTranscription: true,
+    sharedCapture: true,
+    serverKey: true,
+    offline: false,
+  }),
+  engine('realtime', 'On-premise Whisper', 'Self-hosted Whisper server; audio stays on-premise', true, {
+    mode: 'chunked',
+    interimResults: false,
+    diarization: false,
+    wordTimings: true,
+    vocabularyBiasing: true,
+    fileTranscription: true,
+    sharedCapture: true,
+    serverKey: false,
+    offline: true,
+  }),
+  engine('googleSpeech', 'Google Speech', 'Google Cloud Speech-to-Text streaming recognition', true, {
+    mode: 'streaming',
+    interimResults: true,
+    diarization: true,
+    wordTimings: true,
+    vocabularyBiasing: true,
+    fileTranscription: true,
+    sharedCapture: true,
+    serverKey: true,
+    offline: false,
+  }),
+  engine('assemblyAI', 'AssemblyAI', 'AssemblyAI real-time streaming transcription', false, {
+    mode: 'streaming',
+    interimResults: true,
+    diarization: false,
+    wordTimings: true,
+    vocabularyBiasing: true,
+    fileTranscription: false,
+    sharedCapture: true,
+    serverKey: true,
+    offline: false,
+  }),
+];
+
+/**
+ * Look up an engine
+ */
+export const getEngineInfo = (id: STTApi): EngineInfo => {
+  const info = ENGINES.find((entry) => entry.id === id);
+  if (!info) {
+    throw new Error(`Unknown engine: ${id}`);
+  }
+  return info;
+};
+
+/**
+ * Whether a value names a known engine, e.g. one read back from storage
+ */
+export const isEngineId = (value: unknown): value is STTApi => {
+  return ENGINES.some((entry) => entry.id === value);
+};
+
+/**
+ * Engines offered in the engine picker
+ */
+export const getSelectableEngines = (): EngineInfo[] => {
+  return ENGINES.filter((entry) => entry.selectable);
+};
+
+/**
+ * Engines with a capability
+ */
+export const getEnginesWith = (capability: keyof Omit<EngineCapabilities, 'mode' | 'languages'>): EngineInfo[] => {
+  return ENGINES.filter((entry) => entry.capabilities[capability]);
+};
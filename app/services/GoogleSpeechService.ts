@@ -1,187 +1,439 @@
 /**
  * GoogleSpeechService.ts
  * A service for speech-to-text processing using Google Cloud Speech-to-Text API
+ *
+ * In streaming mode PCM is uploaded continuously to /api/google/stream, which bridges it to
+ * Google's streamingRecognize and sends interim and final results back as server-sent events.
+ * Audio goes up in numbered chunks of about a quarter second, a few requests at a time; audio
+ * that waits for a free request joins the next chunk, so a slow network means bigger requests
+ * rather than a queue that falls further and further behind.
+ * Otherwise each VAD-delimited recording is sent to the one-shot /api/google/transcribe route.
+ * Both take the shared capture's frames, so Google hears the same preprocessed audio as every
+ * other engine.
  */
 
+import { AudioCaptureServiceInstance, AudioFrame } from './AudioCaptureService';
+import createVoiceActivityDetector, { VadConfig, VoiceSegment } from './VoiceActivityDetector';
+import { createDroppedSegment, createSegmentId, offsetWords, SpeakerUtterance, TranscriptSegment, TranscriptSegmentListener } from './TranscriptSegment';
+import createSeamMerger from './TranscriptMerge';
+import type { StreamEvent } from '../lib/googleStreamSessions';
+import type { SpeechContext } from './Vocabulary';
+import { EngineReportListener } from './EngineHealth';
+import createUploadQueue, { isConnectivityError, UploadAttempt, UploadError, UploadQueueConfig } from './UploadQueue';
+import { OfflineChunkBufferInstance } from './OfflineChunkBuffer';
+
 // Define types for the service
 export interface GoogleSpeechServiceOptions {
-  onTranscriptUpdate: (text: string) => void;
+  onSegment: TranscriptSegmentListener;
+  onHealthReport?: EngineReportListener; // outcome of requests and streaming errors
   language?: string;
-  sampleRate?: number;
-  bufferSize?: number;
+  diarization?: boolean;
+  streaming?: boolean; // stream to streamingRecognize instead of posting recordings
+  speechContexts?: SpeechContext[]; // clinic vocabulary as boosted phrase hints
+  capture: AudioCaptureServiceInstance;
+  vad?: VadConfig;
+  upload?: UploadQueueConfig;
+  offlineBuffer?: OfflineChunkBufferInstance; // holds recordings while the network is down
 }
 
 export interface GoogleSpeechServiceInstance {
   start: () => Promise<void>;
+  resume: () => Promise<void>; // continue the session after stop() without starting a new one
   stop: () => void;
   isListening: () => boolean;
+  flush: () => void;
 }
 
-// Speech detection state
-interface SpeechState {
-  isSpeaking: boolean;
-  lastSpeechTime: number;
-  currentSentence: string;
-  silenceStart: number | null;
-  isRecording: boolean;
+// Server-side streaming session state
+interface StreamState {
+  sessionId: string;
+  events: EventSource;
+  offset: number | null; // session time of the first uploaded frame
+  chunkSamples: number; // samples per upload
+  buffered: Int16Array[]; // audio not uploaded yet
+  bufferedSamples: number;
+  nextSequence: number; // the server writes the chunks in this order
+  uploads: Set<Promise<void>>; // uploads in flight
+  utteranceId: string | null;
 }
 
 export const createGoogleSpeechService = (options: GoogleSpeechServiceOptions): GoogleSpeechServiceInstance => {
   // Default options
   const {
-    onTranscriptUpdate,
+    onSegment,
+    onHealthReport,
     language = 'en-US',
-    sampleRate = 16000,
-    bufferSize = 4096,
+    diarization = false,
+    streaming = true,
+    speechContexts = [],
+    capture,
+    vad = {},
+    upload = {},
+    offlineBuffer,
   } = options;
 
   // Service state
-  let audioContext: AudioContext | null = null;
-  let mediaStream: MediaStream | null = null;
-  let processor: ScriptProcessorNode | null = null;
-  let input: MediaStreamAudioSourceNode | null = null;
+  let unsubscribe: (() => void) | null = null;
   let isCurrentlyListening = false;
-  let audioChunks: Float32Array[] = [];
-  let mediaRecorder: MediaRecorder | null = null;
-  let recordedChunks: Blob[] = [];
   
-  // Speech detection state
-  const speechState: SpeechState = {
-    isSpeaking: false,
-    lastSpeechTime: 0,
-    currentSentence: '',
-    silenceStart: null,
-    isRecording: false,
-  };
+  // Streaming mode state
+  let streamState: StreamState | null = null;
+  
+  // How long to wait for the last final results after stopping a stream
+  const streamCloseTimeout = 10000;
+  
+  // Audio per streaming upload, and uploads in flight at once
+  const streamChunkMs = 250;
+  const maxStreamUploads = 3;
 
-  // Constants for speech detection
-  const noiseThreshold = 0.01;
-  const silenceThreshold = 2000; // in milliseconds - longer for Google to get more context
+  // Voice activity detection decides when a recording is complete; silence is never sent
+  const detector = createVoiceActivityDetector({
+    // Google benefits from more context per request
+    hangoverMs: 2000,
+    ...vad,
+    onSegment: (segment) => {
+      merger.submit(segment.overlapMs, finalizeSentence(segment));
+    },
+  });
 
-  /**
-   * Process audio data from the microphone
-   */
-  const processAudioData = (inputData: Float32Array): void => {
-    // Add the audio chunk to the buffer
-    audioChunks.push(new Float32Array(inputData));
-    
-    // Check if the user is speaking
-    const volume = calculateVolume(inputData);
-    const now = Date.now();
-    
-    if (volume > noiseThreshold) {
-      // User is speaking
-      speechState.isSpeaking = true;
-      speechState.lastSpeechTime = now;
-      speechState.silenceStart = null;
-    } else if (speechState.isSpeaking) {
-      // User was speaking but has stopped
-      if (speechState.silenceStart === null) {
-        speechState.silenceStart = now;
-      } else if (now - speechState.silenceStart > silenceThreshold) {
-        // Silence has been detected for long enough, finalize the sentence
-        finalizeSentence();
-      }
-    }
-  };
+  // Emits the transcripts of the recordings in the order they were spoken
+  const merger = createSeamMerger({ onSegment });
 
-  /**
-   * Calculate the volume of an audio buffer
-   */
-  const calculateVolume = (buffer: Float32Array): number => {
-    let sum = 0;
-    for (let i = 0; i < buffer.length; i++) {
-      sum += buffer[i] * buffer[i];
-    }
-    return Math.sqrt(sum / buffer.length);
-  };
+  // Uploads the recordings of a session in order, a few at a time, retrying temporary failures
+  const uploads = createUploadQueue({ ...upload, label: 'Google recording' });
 
   /**
-   * Finalize the current sentence and send it to the Google Cloud Speech API
+   * Send one attempt of a recording to the Google Cloud Speech API
    */
-  const finalizeSentence = async (): Promise<void> => {
-    if (recordedChunks.length === 0) return;
-    
-    // Reset speech state
-    speechState.isSpeaking = false;
-    speechState.silenceStart = null;
-    speechState.isRecording = false;
-    
-    // Create a blob from the recorded chunks
-    const audioBlob = new Blob(recordedChunks, { type: 'audio/webm' });
-    recordedChunks = [];
+  const transcribe = async (segment: Pick<VoiceSegment, 'startTime' | 'endTime'>, audioBlob: Blob, { signal }: UploadAttempt): Promise<TranscriptSegment[]> => {
+    const { startTime, endTime } = segment;
+    const requestStart = Date.now();
     
     try {
       // Send to server for Google Cloud Speech API processing
       const formData = new FormData();
       formData.append('audio', audioBlob);
       formData.append('language', language);
+      formData.append('diarization', String(diarization));
+      if (speechContexts.length > 0) {
+        formData.append('speechContexts', JSON.stringify(speechContexts));
+      }
       
       const response = await fetch('/api/google/transcribe', {
         method: 'POST',
         body: formData,
+        signal,
       });
       
       if (!response.ok) {
-        throw new Error(`Failed to transcribe audio: ${response.statusText}`);
+        throw new UploadError(`Failed to transcribe audio: ${response.statusText}`, response.status);
       }
       
       const data = await response.json();
+      onHealthReport?.({ ok: true, latencyMs: Date.now() - requestStart });
       
-      if (data.text) {
-        speechState.currentSentence += data.text + ' ';
-        onTranscriptUpdate(speechState.currentSentence.trim());
+      const utterances: SpeakerUtterance[] = data.utterances || [];
+      
+      if (utterances.length > 0) {
+        // One segment per speaker turn, shifted from recording time to session time
+        return utterances.map((utterance): TranscriptSegment => ({
+          id: createSegmentId('googleSpeech'),
+          status: 'final',
+          startTime: utterance.start !== undefined ? startTime + utterance.start : startTime,
+          endTime: utterance.end !== undefined ? startTime + utterance.end : endTime,
+          text: utterance.text.trim(),
+          confidence: data.confidence ?? undefined,
+          engine: 'googleSpeech',
+          language,
+          speaker: utterance.speaker,
+          words: offsetWords(utterance.words, startTime),
+        }));
+      } else if (data.text) {
+        return [{
+          id: createSegmentId('googleSpeech'),
+          status: 'final',
+          startTime,
+          endTime,
+          text: data.text.trim(),
+          confidence: data.confidence ?? undefined,
+          engine: 'googleSpeech',
+          language,
+          words: offsetWords(data.words, startTime),
+        }];
       }
+      return [];
     } catch (error) {
       console.error('Error transcribing audio with Google Cloud Speech:', error);
+      // A dropped connection is not the engine's fault; the recording waits for the network instead
+      if (!isConnectivityError(error)) {
+        onHealthReport?.({ ok: false, latencyMs: Date.now() - requestStart, error: error instanceof Error ? error.message : String(error) });
+      }
+      throw error;
     }
+  };
+
+  /**
+   * Finalize the current sentence: queue its upload, holding it while offline and marking the
+   * audio as missing if it fails for good
+   */
+  const finalizeSentence = (segment: VoiceSegment): Promise<TranscriptSegment[]> => {
+    // 16-bit PCM WAV, which Google takes as LINEAR16 without transcoding
+    const audioBlob = new Blob([float32ToWav(segment.samples, segment.sampleRate)], { type: 'audio/wav' });
     
-    // Start recording again
-    if (isCurrentlyListening && mediaRecorder) {
-      startRecording();
-    }
+    const span = { startTime: segment.startTime, endTime: segment.endTime };
+    const uploadChunk = (stored: Blob) => uploads.add((attempt) => transcribe(span, stored, attempt)).result;
+    
+    return (offlineBuffer ? offlineBuffer.send(audioBlob, uploadChunk) : uploadChunk(audioBlob)).catch(() => {
+      console.warn(`Google recording at ${Math.round(span.startTime / 1000)}s dropped, marking ${Math.round(span.endTime - span.startTime)}ms as not transcribed`);
+      return [createDroppedSegment('googleSpeech', span.startTime, span.endTime)];
+    });
   };
 
   /**
-   * Start recording audio
+   * Convert Float32Array to WAV format
    */
-  const startRecording = (): void => {
-    if (!mediaStream) return;
+  const float32ToWav = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
     
-    try {
-      // Create a new MediaRecorder
-      mediaRecorder = new MediaRecorder(mediaStream, {
-        mimeType: 'audio/webm',
-      });
-      
-      // Handle data available event
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          recordedChunks.push(event.data);
+    // RIFF identifier
+    writeString(view, 0, 'RIFF');
+    // File length
+    view.setUint32(4, 36 + samples.length * 2, true);
+    // RIFF type
+    writeString(view, 8, 'WAVE');
+    // Format chunk identifier
+    writeString(view, 12, 'fmt ');
+    // Format chunk length
+    view.setUint32(16, 16, true);
+    // Sample format (1 is PCM)
+    view.setUint16(20, 1, true);
+    // Channel count
+    view.setUint16(22, 1, true);
+    // Sample rate
+    view.setUint32(24, sampleRate, true);
+    // Byte rate (sample rate * block align)
+    view.setUint32(28, sampleRate * 2, true);
+    // Block align (channel count * bytes per sample)
+    view.setUint16(32, 2, true);
+    // Bits per sample
+    view.setUint16(34, 16, true);
+    // Data chunk identifier
+    writeString(view, 36, 'data');
+    // Data chunk length
+    view.setUint32(40, samples.length * 2, true);
+    
+    // Write the PCM samples
+    for (let i = 0; i < samples.length; i++) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+    }
+    
+    return buffer;
+  };
+
+  /**
+   * Write a string to a DataView
+   */
+  const writeString = (view: DataView, offset: number, string: string): void => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  /**
+   * Turn a streaming result event into a transcript segment
+   */
+  const handleStreamEvent = (state: StreamState, event: StreamEvent): void => {
+    switch (event.type) {
+      case 'result': {
+        // Interim results and the final result of one utterance share a segment id
+        if (!state.utteranceId) {
+          state.utteranceId = createSegmentId('googleSpeech');
         }
-      };
-      
-      // Handle stop event
-      mediaRecorder.onstop = () => {
-        if (speechState.isRecording) {
-          finalizeSentence();
+        
+        const offset = state.offset ?? 0;
+        onSegment({
+          id: state.utteranceId,
+          status: event.isFinal ? 'final' : 'interim',
+          startTime: offset + event.start,
+          endTime: offset + event.end,
+          text: event.text,
+          confidence: event.confidence,
+          engine: 'googleSpeech',
+          language,
+          speaker: diarization ? event.speaker : undefined,
+          words: offsetWords(event.words, offset),
+        });
+        
+        if (event.isFinal) {
+          state.utteranceId = null;
+          onHealthReport?.({ ok: true });
         }
-      };
-      
-      // Start recording
-      mediaRecorder.start();
-      speechState.isRecording = true;
-      
-      // Set a timeout to stop recording after a certain amount of time
-      // This is to ensure we don't record for too long
-      setTimeout(() => {
-        if (mediaRecorder && mediaRecorder.state === 'recording') {
-          mediaRecorder.stop();
+        break;
+      }
+      case 'rotated':
+        console.log(`Google stream rotated at ${Math.round(event.offset / 1000)}s`);
+        break;
+      case 'error':
+        console.error('Google streaming error:', event.message);
+        onHealthReport?.({ ok: false, error: event.message });
+        break;
+      case 'end':
+        state.events.close();
+        break;
+    }
+  };
+
+  /**
+   * Upload all buffered audio as the session's next chunk
+   */
+  const uploadBuffered = (state: StreamState): void => {
+    if (state.bufferedSamples === 0) return;
+    
+    const pcm = new Int16Array(state.bufferedSamples);
+    let position = 0;
+    state.buffered.forEach((part) => {
+      pcm.set(part, position);
+      position += part.length;
+    });
+    state.buffered = [];
+    state.bufferedSamples = 0;
+    
+    const sequence = state.nextSequence++;
+    const upload: Promise<void> = fetch(`/api/google/stream/${state.sessionId}?seq=${sequence}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: pcm.buffer,
+    })
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to upload audio: ${response.statusText}`);
         }
-      }, 10000); // 10 seconds max recording time
-    } catch (error) {
-      console.error('Error starting recording:', error);
+      })
+      .catch((error) => {
+        console.error('Error streaming audio to Google:', error);
+        onHealthReport?.({ ok: false, error: error instanceof Error ? error.message : String(error) });
+      })
+      .finally(() => {
+        state.uploads.delete(upload);
+        // Audio that piled up while every request was busy goes out now
+        sendWhenReady(state);
+      });
+    
+    state.uploads.add(upload);
+  };
+  
+  /**
+   * Upload the buffered audio once there is a chunk's worth and a free request
+   */
+  const sendWhenReady = (state: StreamState): void => {
+    if (state.bufferedSamples >= state.chunkSamples && state.uploads.size < maxStreamUploads) {
+      uploadBuffered(state);
+    }
+  };
+  
+  /**
+   * Upload what is buffered now, resolving once every upload so far has finished
+   */
+  const drainStream = async (state: StreamState): Promise<void> => {
+    uploadBuffered(state);
+    await Promise.all(Array.from(state.uploads));
+  };
+  
+  /**
+   * Buffer a captured frame for the streaming session as 16-bit PCM
+   */
+  const sendStreamFrame = (frame: AudioFrame): void => {
+    const state = streamState;
+    if (!state) return;
+    
+    if (state.offset === null) {
+      state.offset = frame.timestamp;
+    }
+    
+    const pcm = new Int16Array(frame.samples.length);
+    for (let i = 0; i < frame.samples.length; i++) {
+      const sample = Math.max(-1, Math.min(1, frame.samples[i]));
+      pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+    }
+    
+    state.buffered.push(pcm);
+    state.bufferedSamples += pcm.length;
+    sendWhenReady(state);
+  };
+
+  /**
+   * Open a streaming session on the server and start uploading audio
+   */
+  const startStreaming = async (): Promise<void> => {
+    const response = await fetch('/api/google/stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        language,
+        sampleRate: capture.getSampleRate(),
+        diarization,
+        speechContexts,
+      }),
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to start Google streaming: ${response.statusText}`);
     }
+    
+    const { sessionId } = await response.json();
+    
+    const state: StreamState = {
+      sessionId,
+      events: new EventSource(`/api/google/stream/${sessionId}`),
+      offset: null,
+      chunkSamples: Math.round((capture.getSampleRate() * streamChunkMs) / 1000),
+      buffered: [],
+      bufferedSamples: 0,
+      nextSequence: 0,
+      uploads: new Set(),
+      utteranceId: null,
+    };
+    
+    state.events.onmessage = (message: MessageEvent<string>) => {
+      try {
+        handleStreamEvent(state, JSON.parse(message.data));
+      } catch (error) {
+        console.error('Error parsing Google streaming event:', error);
+      }
+    };
+    
+    streamState = state;
+    unsubscribe = capture.subscribeFrames(sendStreamFrame);
+  };
+
+  /**
+   * Stop uploading and close the streaming session once the last chunk is sent
+   */
+  const stopStreaming = (): void => {
+    const state = streamState;
+    streamState = null;
+    if (!state) return;
+    
+    // The event stream stays open until the server delivers the last final results
+    drainStream(state)
+      .then(() => fetch(`/api/google/stream/${state.sessionId}`, { method: 'DELETE' }))
+      .catch((error) => console.error('Error closing Google streaming session:', error));
+    
+    setTimeout(() => state.events.close(), streamCloseTimeout);
+  };
+
+  /**
+   * Receive frames from the shared capture pipeline
+   */
+  const listen = (): void => {
+    unsubscribe = capture.subscribeFrames((frame: AudioFrame) => {
+      detector.process(frame);
+    });
+    
+    // Update state
+    isCurrentlyListening = true;
   };
 
   /**
@@ -190,43 +442,20 @@ export const createGoogleSpeechService = (options: GoogleSpeechServiceOptions):
   const start = async (): Promise<void> => {
     if (isCurrentlyListening) return;
     
+    if (streaming) {
+      await startStreaming();
+      isCurrentlyListening = true;
+      console.log('Google Speech service started in streaming mode');
+      return;
+    }
+    
     try {
-      // Request microphone access
-      mediaStream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        } 
-      });
-      
-      // Create audio context
-      audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate,
-      });
-      
-      // Create audio source
-      input = audioContext.createMediaStreamSource(mediaStream);
-      
-      // Create script processor
-      processor = audioContext.createScriptProcessor(bufferSize, 1, 1);
-      
-      // Process audio data
-      processor.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        processAudioData(inputData);
-      };
-      
-      // Connect nodes
-      input.connect(processor);
-      processor.connect(audioContext.destination);
-      
-      // Start recording
-      startRecording();
+      // Recalibrate the detector to the current room and begin a new session
+      detector.reset();
+      merger.reset();
+      uploads.reset();
       
-      // Update state
-      isCurrentlyListening = true;
-      speechState.currentSentence = '';
+      listen();
       
       console.log('Google Speech service started');
     } catch (error) {
@@ -235,47 +464,78 @@ export const createGoogleSpeechService = (options: GoogleSpeechServiceOptions):
     }
   };
 
+  /**
+   * Continue after a pause, keeping the chunk numbering and the transcript seams; a stream is
+   * closed by stop(), so streaming mode opens a new one
+   */
+  const resume = async (): Promise<void> => {
+    if (isCurrentlyListening) return;
+    
+    if (streaming) {
+      await start();
+      return;
+    }
+    
+    listen();
+    
+    console.log('Google Speech service resumed');
+  };
+
   /**
    * Stop the speech recognition service
    */
   const stop = (): void => {
     if (!isCurrentlyListening) return;
     
-    // Stop recording
-    if (mediaRecorder && mediaRecorder.state === 'recording') {
-      mediaRecorder.stop();
-    }
-    
-    // Disconnect and clean up
-    if (processor && input) {
-      processor.disconnect();
-      input.disconnect();
+    if (streaming) {
+      if (unsubscribe) {
+        unsubscribe();
+        unsubscribe = null;
+      }
+      stopStreaming();
+      isCurrentlyListening = false;
+      console.log('Google Speech service stopped');
+      return;
     }
     
-    if (mediaStream) {
-      mediaStream.getTracks().forEach((track) => track.stop());
-    }
+    // Finalize any remaining speech
+    detector.flush();
     
-    // Close audio context
-    if (audioContext && audioContext.state !== 'closed') {
-      audioContext.close();
+    // Stop receiving frames
+    if (unsubscribe) {
+      unsubscribe();
+      unsubscribe = null;
     }
     
     // Reset state
-    audioContext = null;
-    mediaStream = null;
-    processor = null;
-    input = null;
-    mediaRecorder = null;
     isCurrentlyListening = false;
-    audioChunks = [];
     
-    // Finalize any remaining audio
-    if (recordedChunks.length > 0) {
-      finalizeSentence();
+    console.log('Google Speech service stopped');
+  };
+
+  /**
+   * Finalize the speech heard so far without stopping: the pending segment is sent, or the
+   * streaming session ends its utterance once the audio heard so far has been uploaded
+   */
+  const flush = (): void => {
+    if (!isCurrentlyListening) return;
+    
+    if (!streaming) {
+      detector.cut();
+      return;
     }
     
-    console.log('Google Speech service stopped');
+    const state = streamState;
+    if (!state) return;
+    
+    drainStream(state)
+      .then(async () => {
+        const response = await fetch(`/api/google/stream/${state.sessionId}/flush`, { method: 'POST' });
+        if (!response.ok) {
+          throw new Error(`Failed to flush the stream: ${response.statusText}`);
+        }
+      })
+      .catch((error) => console.error('Error flushing Google streaming session:', error));
   };
 
   /**
@@ -288,8 +548,10 @@ export const createGoogleSpeechService = (options: GoogleSpeechServiceOptions):
   // Return the service instance
   return {
     start,
+    resume,
     stop,
     isListening,
+    flush,
   };
 };
 
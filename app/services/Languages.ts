@@ -0,0 +1,160 @@
+/**
+ * Languages.ts
+ * Registry of consultation languages and the code each speech recognition engine expects for them
+ *
+ * Languages are identified by BCP-47 tags. Engines that detect the spoken language themselves
+ * also accept AUTO_LANGUAGE.
+ */
+
+import type { STTApi } from './SpeechRecognitionService';
+
+export interface LanguageInfo {
+  code: string; // BCP-47 tag
+  name: string;
+  nativeName: string;
+  engines: Partial<Record<STTApi, string>>; // engine-specific code, for the engines that support the language
+}
+
+// Let the engine detect the spoken language
+export const AUTO_LANGUAGE = 'auto';
+
+export const DEFAULT_LANGUAGE = 'en-US';
+
+// Engines that can detect the spoken language
+export const AUTO_DETECT_ENGINES: STTApi[] = ['whisper', 'assemblyAINano', 'realtime'];
+
+/**
+ * Registry entry for a language: Web Speech and Google take the BCP-47 tag, the Whisper engines
+ * the ISO 639-1 code, AssemblyAI its own code
+ */
+const language = (
+  code: string,
+  name: string,
+  nativeName: string,
+  assemblyAINano: string,
+  extra: Partial<Record<STTApi, string>> = {}
+): LanguageInfo => {
+  const iso = code.split('-')[0];
+  return {
+    code,
+    name,
+    nativeName,
+    engines: {
+      webSpeech: code,
+      googleSpeech: code,
+      whisper: iso,
+      realtime: iso,
+      assemblyAINano,
+      ...extra,
+    },
+  };
+};
+
+export const LANGUAGES: LanguageInfo[] = [
+  // AssemblyAI real-time only transcribes English
+  language('en-US', 'English (US)', 'English (US)', 'en_us', { assemblyAI: 'en' }),
+  language('en-GB', 'English (UK)', 'English (UK)', 'en_uk'),
+  language('de-DE', 'German', 'Deutsch', 'de'),
+  language('fr-FR', 'French', 'Français', 'fr'),
+  language('es-ES', 'Spanish', 'Español', 'es'),
+  language('it-IT', 'Italian', 'Italiano', 'it'),
+  language('pt-PT', 'Portuguese', 'Português', 'pt'),
+  language('nl-NL', 'Dutch', 'Nederlands', 'nl'),
+  language('pl-PL', 'Polish', 'Polski', 'pl'),
+  language('cs-CZ', 'Czech', 'Čeština', 'cs'),
+  language('da-DK', 'Danish', 'Dansk', 'da'),
+  language('sv-SE', 'Swedish', 'Svenska', 'sv'),
+  language('fi-FI', 'Finnish', 'Suomi', 'fi'),
+  language('el-GR', 'Greek', 'Ελληνικά', 'el'),
+  language('hu-HU', 'Hungarian', 'Magyar', 'hu'),
+  language('ro-RO', 'Romanian', 'Română', 'ro'),
+  language('tr-TR', 'Turkish', 'Türkçe', 'tr'),
+  language('ru-RU', 'Russian', 'Русский', 'ru'),
+  language('uk-UA', 'Ukrainian', 'Українська', 'uk'),
+  language('ar-SA', 'Arabic', 'العربية', 'ar'),
+  language('fa-IR', 'Persian', 'فارسی', 'fa'),
+  language('hi-IN', 'Hindi', 'हिन्दी', 'hi'),
+  language('zh-CN', 'Chinese (Mandarin)', '中文', 'zh'),
+  language('ja-JP', 'Japanese', '日本語', 'ja'),
+  language('ko-KR', 'Korean', '한국어', 'ko'),
+];
+
+/**
+ * Look up a language by its BCP-47 tag, or by its bare language code
+ */
+export const getLanguage = (code: string): LanguageInfo | undefined => {
+  const lower = code.toLowerCase();
+  return LANGUAGES.find((entry) => entry.code.toLowerCase() === lower)
+    || LANGUAGES.find((entry) => entry.code.split('-')[0].toLowerCase() === lower.split(/[-_]/)[0]);
+};
+
+/**
+ * Whether the engine can detect the spoken language
+ */
+export const supportsAutoDetect = (engine: STTApi): boolean => {
+  return AUTO_DETECT_ENGINES.includes(engine);
+};
+
+/**
+ * Languages the engine can transcribe
+ */
+export const getLanguagesForEngine = (engine: STTApi): LanguageInfo[] => {
+  return LANGUAGES.filter((entry) => entry.engines[engine] !== undefined);
+};
+
+/**
+ * Whether the engine accepts the language (or automatic detection)
+ */
+export const supportsLanguage = (engine: STTApi, code: string): boolean => {
+  if (code === AUTO_LANGUAGE) return supportsAutoDetect(engine);
+  return getLanguage(code)?.engines[engine] !== undefined;
+};
+
+/**
+ * The code to send to an engine for a language; AUTO_LANGUAGE passes through for engines that
+ * detect languages, anything unsupported falls back to the engine's code for the default language
+ */
+export const getEngineLanguageCode = (code: string, engine: STTApi): string => {
+  if (code === AUTO_LANGUAGE && supportsAutoDetect(engine)) return AUTO_LANGUAGE;
+
+  return getLanguage(code)?.engines[engine]
+    ?? getLanguage(DEFAULT_LANGUAGE)?.engines[engine]
+    ?? code;
+};
+
+/**
+ * The language to use when switching engines: the current one if the new engine supports it
+ */
+export const resolveLanguageForEngine = (code: string, engine: STTApi): string => {
+  if (supportsLanguage(engine, code)) return code;
+  return getLanguagesForEngine(engine)[0]?.code ?? DEFAULT_LANGUAGE;
+};
+
+/**
+ * Turn a language reported by an engine into a BCP-47 tag: Whisper reports English names
+ * ("german"), AssemblyAI codes ("de", "en_us")
+ */
+export const normalizeDetectedLanguage = (detected: string | null | undefined): string | undefined => {
+  if (!detected) return undefined;
+
+  const lower = detected.toLowerCase();
+  const byCode = LANGUAGES.find((entry) => entry.engines.assemblyAINano === lower) || getLanguage(lower);
+  const byName = lower.length > 3 ? LANGUAGES.find((entry) => entry.name.toLowerCase().startsWith(lower)) : undefined;
+  return (byCode || byName)?.code ?? detected;
+};
+
+/**
+ * Display name of a language, or of automatic detection
+ */
+export const getLanguageName = (code: string): string => {
+  if (code === AUTO_LANGUAGE) return 'Detect automatically';
+  return getLanguage(code)?.name ?? code;
+};
+
+/**
+ * Language to record on a transcript segment: the detected one, else the one requested
+ */
+export const segmentLanguage = (detected: string | undefined, requested: string): string | undefined => {
+  if (detected) return detected;
+  return requested === AUTO_LANGUAGE ? undefined : requested;
+};
@@ -0,0 +1,321 @@
+/**
+ * OfflineChunkBuffer.ts
+ * Keeps the chunked engines' audio in IndexedDB while the network is down and replays it later
+ *
+ * A chunk that cannot be uploaded because the connection dropped is stored instead of lost, and
+ * every chunk after it joins the queue, so the audio is transcribed in the order it was spoken.
+ * Stored chunks are retried when the browser reports it is back online and every
+ * `retryIntervalMs` (the online flag is unreliable on clinic Wi-Fi). The engine's promise for a
+ * chunk settles once its replay does, so its transcript still lands in its place in the session.
+ * Replays need the engine that recorded the chunk, so chunks left behind by a closed page are not
+ * replayed; they are deleted after a day.
+ */
+
+import { isConnectivityError } from './UploadQueue';
+
+export interface OfflineChunkBufferOptions {
+  dbName?: string;
+  retryIntervalMs?: number; // how often stored chunks are retried while any are waiting
+  debug?: boolean;
+}
+
+export type PendingChunksListener = (count: number) => void;
+
+export interface OfflineChunkBufferInstance {
+  send: <T>(audio: Blob, upload: (audio: Blob) => Promise<T>) => Promise<T>;
+  replay: () => void;
+  getPendingCount: () => number;
+  subscribe: (listener: PendingChunksListener) => () => void;
+  dispose: () => void; // stop listening for the network and retrying
+}
+
+// Stored chunk
+interface ChunkRecord {
+  id?: number;
+  pageId: string;
+  createdAt: number;
+  audio: Blob;
+}
+
+// A stored chunk's replay, resolved or rejected with its transcription
+interface PendingChunk {
+  upload: (audio: Blob) => Promise<unknown>;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const STORE_NAME = 'chunks';
+
+// Chunks of closed pages are kept this long
+const STALE_CHUNK_MS = 24 * 60 * 60 * 1000;
+
+// Identifies this page's chunks among those of other tabs
+const pageId = `page-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Settle an IndexedDB request as a promise
+ */
+const settle = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Creates a buffer that holds chunks while the network is down and replays them in order
+ */
+export const createOfflineChunkBuffer = (options: OfflineChunkBufferOptions = {}): OfflineChunkBufferInstance => {
+  // Default options
+  const {
+    dbName = 'sttOfflineChunks',
+    retryIntervalMs = 15000,
+    debug = false,
+  } = options;
+
+  // Buffer state, in the order the chunks were spoken
+  const pending = new Map<number, PendingChunk>();
+  const listeners = new Set<PendingChunksListener>();
+  let database: Promise<IDBDatabase | null> | null = null;
+  let replaying = false;
+  let storing = 0; // chunks on their way into storage, which later chunks must queue behind
+  let disposed = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Audio of chunks stored while IndexedDB is unavailable (e.g. private browsing)
+  const memoryChunks = new Map<number, Blob>();
+  let nextMemoryId = 1;
+
+  /**
+   * Open the database once, deleting chunks that closed pages left behind
+   */
+  const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (database) return database;
+
+    database = new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB is not available, offline chunks are kept in memory:', request.error);
+        resolve(null);
+      };
+    }).then(async (db) => {
+      if (db) {
+        const records = await settle<ChunkRecord[]>(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll());
+        const stale = records.filter((record) => record.pageId !== pageId && Date.now() - record.createdAt > STALE_CHUNK_MS);
+        if (stale.length > 0) {
+          const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+          await Promise.all(stale.map((record) => settle(store.delete(record.id!))));
+          console.log(`Deleted ${stale.length} offline chunk(s) left behind by closed pages`);
+        }
+      }
+      return db;
+    });
+
+    return database;
+  };
+
+  /**
+   * Store a chunk's audio, returning its id
+   */
+  const storeChunk = async (audio: Blob): Promise<number> => {
+    const db = await openDatabase();
+    if (!db) {
+      const id = nextMemoryId++;
+      memoryChunks.set(id, audio);
+      return id;
+    }
+
+    const record: ChunkRecord = { pageId, createdAt: Date.now(), audio };
+    const key = await settle(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).add(record));
+    return Number(key);
+  };
+
+  /**
+   * Read a stored chunk's audio
+   */
+  const readChunk = async (id: number): Promise<Blob | null> => {
+    const db = await openDatabase();
+    if (!db) return memoryChunks.get(id) ?? null;
+
+    const record = await settle<ChunkRecord | undefined>(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(id));
+    return record?.audio ?? null;
+  };
+
+  /**
+   * Delete a chunk once it has been transcribed or given up on
+   */
+  const deleteChunk = async (id: number): Promise<void> => {
+    const db = await openDatabase();
+    if (!db) {
+      memoryChunks.delete(id);
+      return;
+    }
+
+    await settle(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(id));
+  };
+
+  /**
+   * Tell the listeners how many chunks are waiting
+   */
+  const notify = (): void => {
+    listeners.forEach((listener) => listener(pending.size));
+  };
+
+  /**
+   * Try the stored chunks again after the retry interval
+   */
+  const scheduleRetry = (): void => {
+    if (disposed || retryTimer || pending.size === 0) return;
+
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      replay();
+    }, retryIntervalMs);
+  };
+
+  /**
+   * Upload the stored chunks one at a time, oldest first, until the connection fails again
+   */
+  const replayPending = async (): Promise<void> => {
+    while (pending.size > 0) {
+      const [id, chunk] = pending.entries().next().value as [number, PendingChunk];
+      const audio = await readChunk(id);
+
+      if (!audio) {
+        pending.delete(id);
+        chunk.reject(new Error('Offline chunk is missing from storage'));
+        notify();
+        continue;
+      }
+
+      try {
+        const result = await chunk.upload(audio);
+        chunk.resolve(result);
+      } catch (error) {
+        if (isConnectivityError(error)) {
+          if (debug) console.log(`Still offline, ${pending.size} chunk(s) waiting`);
+          scheduleRetry();
+          return;
+        }
+        chunk.reject(error);
+      }
+
+      pending.delete(id);
+      await deleteChunk(id).catch((error) => console.error('Error deleting an offline chunk:', error));
+      notify();
+    }
+
+    if (debug) console.log('Offline chunks replayed');
+  };
+
+  /**
+   * Replay the stored chunks now, unless a replay is already running
+   */
+  const replay = (): void => {
+    if (replaying || pending.size === 0) return;
+
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+
+    replaying = true;
+    replayPending()
+      .catch((error) => {
+        console.error('Error replaying offline chunks:', error);
+        scheduleRetry();
+      })
+      .finally(() => {
+        replaying = false;
+      });
+  };
+
+  /**
+   * Store a chunk for replay; the returned promise settles with its replay
+   */
+  const hold = <T>(audio: Blob, upload: (audio: Blob) => Promise<T>): Promise<T> => {
+    storing++;
+    return new Promise<T>((resolve, reject) => {
+      storeChunk(audio)
+        .finally(() => {
+          storing--;
+        })
+        .then((id) => {
+          pending.set(id, { upload, resolve: resolve as (result: unknown) => void, reject });
+          if (debug) console.log(`Network unavailable, chunk stored for later (${pending.size} waiting)`);
+          notify();
+          scheduleRetry();
+        })
+        .catch((error) => {
+          console.error('Error storing an offline chunk:', error);
+          reject(error);
+        });
+    });
+  };
+
+  /**
+   * Upload a chunk, or hold it while the network is down or earlier chunks are still waiting
+   */
+  const send = <T>(audio: Blob, upload: (audio: Blob) => Promise<T>): Promise<T> => {
+    const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    if (offline || pending.size > 0 || storing > 0) {
+      return hold(audio, upload);
+    }
+
+    return upload(audio).catch((error) => {
+      if (!isConnectivityError(error)) throw error;
+      return hold(audio, upload);
+    });
+  };
+
+  /**
+   * Replay as soon as the browser is back online
+   */
+  const handleOnline = (): void => {
+    if (debug) console.log('Back online, replaying offline chunks');
+    replay();
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', handleOnline);
+  }
+
+  /**
+   * Stop listening for the network and retrying; chunks still stored are no longer replayed
+   */
+  const dispose = (): void => {
+    disposed = true;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', handleOnline);
+    }
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+
+  // Return the buffer instance
+  return {
+    send,
+    replay,
+    getPendingCount: () => pending.size,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose,
+  };
+};
+
+export default createOfflineChunkBuffer;
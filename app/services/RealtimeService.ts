@@ -1,120 +1,237 @@
 /**
  * RealtimeService.ts
- * A service for real-time speech-to-text processing using Web Audio API
+ * A service for speech-to-text on a self-hosted, OpenAI-compatible transcription server
+ *
+ * Speech segments are sent through /api/selfhosted/transcribe to the server configured in
+ * SELF_HOSTED_STT_URL (faster-whisper, whisper.cpp server, ...), so audio stays on-premise.
  */
 
+import { AudioCaptureServiceInstance, AudioFrame } from './AudioCaptureService';
+import createVoiceActivityDetector, { VadConfig, VoiceSegment } from './VoiceActivityDetector';
+import { createDroppedSegment, createSegmentId, offsetWords, TranscriptSegment, TranscriptSegmentListener } from './TranscriptSegment';
+import { segmentLanguage } from './Languages';
+import createSeamMerger from './TranscriptMerge';
+import { EngineReportListener } from './EngineHealth';
+import createUploadQueue, { isConnectivityError, UploadAttempt, UploadError, UploadQueueConfig } from './UploadQueue';
+import { OfflineChunkBufferInstance } from './OfflineChunkBuffer';
+
 // Define types for the service
 export interface RealtimeServiceOptions {
-  onTranscriptUpdate: (text: string) => void;
-  sampleRate?: number;
-  bufferSize?: number;
-  noiseThreshold?: number;
-  silenceThreshold?: number; // in milliseconds
+  onSegment: TranscriptSegmentListener;
+  onTranscriptionStart?: () => void;
+  onHealthReport?: EngineReportListener; // outcome and latency of every request
+  language?: string;
+  vocabulary?: string[]; // clinic vocabulary for the transcription prompt
+  capture: AudioCaptureServiceInstance;
+  vad?: VadConfig;
+  upload?: UploadQueueConfig;
+  offlineBuffer?: OfflineChunkBufferInstance; // holds chunks while the network is down
+  debug?: boolean;
 }
 
 export interface RealtimeServiceInstance {
   start: () => Promise<void>;
+  resume: () => Promise<void>; // continue the session after stop() without starting a new one
   stop: () => void;
   isListening: () => boolean;
-}
-
-// Speech detection state
-interface SpeechState {
-  isSpeaking: boolean;
-  lastSpeechTime: number;
-  currentSentence: string;
-  silenceStart: number | null;
+  flush: () => void;
+  updateLanguage: (newLanguage: string) => void;
 }
 
 /**
- * Creates a Realtime speech-to-text service
+ * Creates a self-hosted speech-to-text service
  */
 export const createRealtimeService = (options: RealtimeServiceOptions): RealtimeServiceInstance => {
   // Default options
   const {
-    onTranscriptUpdate,
-    sampleRate = 16000,
-    bufferSize = 4096,
-    noiseThreshold = 0.015,
-    silenceThreshold = 1500, // 1.5 seconds of silence to end a sentence
+    onSegment,
+    onTranscriptionStart,
+    onHealthReport,
+    language = 'en',
+    vocabulary = [],
+    capture,
+    vad = {},
+    upload = {},
+    offlineBuffer,
+    debug = false,
   } = options;
 
+  // Store the language in a variable that can be updated
+  let currentLanguage = language;
+
   // Service state
-  let audioContext: AudioContext | null = null;
-  let mediaStream: MediaStream | null = null;
-  let source: MediaStreamAudioSourceNode | null = null;
-  let processor: ScriptProcessorNode | null = null;
+  let unsubscribe: (() => void) | null = null;
   let listening = false;
-  
-  // Speech detection state
-  const speechState: SpeechState = {
-    isSpeaking: false,
-    lastSpeechTime: 0,
-    currentSentence: '',
-    silenceStart: null,
-  };
 
-  // Transcript history
-  let fullTranscript = '';
+  // Voice activity detection marks the spoken segments
+  const detector = createVoiceActivityDetector({
+    // 1.5 seconds of silence to end a sentence
+    hangoverMs: 1500,
+    // Repeat the last second after a cut so a word spoken across it is heard whole
+    overlapMs: 1000,
+    ...vad,
+    debug,
+    onSpeechStart: () => {
+      console.log('Speech started');
+    },
+    onSegment: (segment) => {
+      merger.submit(segment.overlapMs, finalizeSentence(segment));
+    },
+  });
+
+  // Emits the chunk transcripts in order, without the words repeated at the cuts
+  const merger = createSeamMerger({ onSegment, debug });
+
+  // Uploads the segments of a session in order, a few at a time, retrying temporary failures
+  const uploads = createUploadQueue({ ...upload, label: 'Self-hosted segment', debug });
 
   /**
-   * Process audio data to detect speech
+   * Send one attempt of a sentence to the self-hosted server
    */
-  const processAudioData = (inputData: Float32Array): void => {
-    // Calculate audio energy (volume)
-    let sum = 0;
-    for (let i = 0; i < inputData.length; i++) {
-      sum += Math.abs(inputData[i]);
-    }
-    const average = sum / inputData.length;
-    const now = Date.now();
-
-    // Detect if there's sound above the threshold
-    if (average > noiseThreshold) {
-      // Speech detected
-      if (!speechState.isSpeaking) {
-        console.log('Speech started');
-        speechState.isSpeaking = true;
-        speechState.silenceStart = null;
+  const transcribe = async (segment: Pick<VoiceSegment, 'startTime' | 'endTime'>, audio: Blob, { sequence, attempt, signal }: UploadAttempt): Promise<TranscriptSegment[]> => {
+    const requestStart = Date.now();
+
+    try {
+      // Send to the server route, which proxies to the on-premise server
+      const formData = new FormData();
+      formData.append('audio', audio);
+      formData.append('language', currentLanguage);
+      if (vocabulary.length > 0) {
+        formData.append('vocabulary', JSON.stringify(vocabulary));
       }
-      
-      speechState.lastSpeechTime = now;
-    } else if (speechState.isSpeaking) {
-      // Potential silence after speech
-      if (speechState.silenceStart === null) {
-        speechState.silenceStart = now;
-      } else if (now - speechState.silenceStart > silenceThreshold) {
-        // Silence threshold reached, end the sentence
-        finalizeSentence();
+
+      if (debug) console.log(`Sending segment #${sequence} (attempt ${attempt}) to the self-hosted server`);
+
+      const response = await fetch('/api/selfhosted/transcribe', {
+        method: 'POST',
+        body: formData,
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new UploadError(`Failed to transcribe audio: ${response.statusText}, ${errorText}`, response.status);
       }
+
+      const data = await response.json();
+      onHealthReport?.({ ok: true, latencyMs: Date.now() - requestStart });
+
+      if (debug) console.log(`Received response from self-hosted server:`, data);
+
+      if (data.text) {
+        console.log('Speech ended, sentence finalized');
+
+        return [{
+          id: createSegmentId('realtime'),
+          status: 'final',
+          startTime: segment.startTime,
+          endTime: segment.endTime,
+          text: data.text.trim(),
+          engine: 'realtime',
+          words: offsetWords(data.words, segment.startTime),
+          language: segmentLanguage(data.language, currentLanguage),
+        }];
+      } else {
+        if (debug) console.log('No text in response from self-hosted server');
+        return [];
+      }
+    } catch (error) {
+      console.error('Error transcribing audio with self-hosted server:', error);
+      // A dropped connection is not the engine's fault; the chunk waits for the network instead
+      if (!isConnectivityError(error)) {
+        onHealthReport?.({ ok: false, latencyMs: Date.now() - requestStart, error: error instanceof Error ? error.message : String(error) });
+      }
+      throw error;
     }
   };
 
   /**
-   * Finalize the current sentence and add it to the transcript
+   * Finalize the current sentence: queue its upload, holding it while offline and marking the
+   * audio as missing if it fails for good
    */
-  const finalizeSentence = (): void => {
-    if (speechState.isSpeaking) {
-      // Generate a simple placeholder for detected speech
-      const timestamp = new Date().toLocaleTimeString();
-      const sentence = `[Speech detected at ${timestamp}] `;
-      
-      // In a real implementation, this would be replaced with actual speech recognition
-      // For now, we're just simulating detection
-      
-      // Add to full transcript
-      fullTranscript += sentence;
-      
-      // Update the transcript
-      onTranscriptUpdate(fullTranscript);
-      
-      // Reset speech state
-      speechState.isSpeaking = false;
-      speechState.currentSentence = '';
-      speechState.silenceStart = null;
-      
-      console.log('Speech ended, sentence finalized');
+  const finalizeSentence = (segment: VoiceSegment): Promise<TranscriptSegment[]> => {
+    console.log(`Speech segment of ${Math.round(segment.endTime - segment.startTime)}ms (${segment.reason})`);
+
+    // Convert to WAV format
+    const wavBuffer = float32ToWav(segment.samples, segment.sampleRate);
+
+    // Notify that transcription is starting
+    if (onTranscriptionStart) {
+      onTranscriptionStart();
     }
+
+    const audio = new Blob([wavBuffer], { type: 'audio/wav' });
+    const span = { startTime: segment.startTime, endTime: segment.endTime };
+    const uploadChunk = (stored: Blob) => uploads.add((attempt) => transcribe(span, stored, attempt)).result;
+
+    return (offlineBuffer ? offlineBuffer.send(audio, uploadChunk) : uploadChunk(audio)).catch(() => {
+      console.warn(`Self-hosted segment at ${Math.round(span.startTime / 1000)}s dropped, marking ${Math.round(span.endTime - span.startTime)}ms as not transcribed`);
+      return [createDroppedSegment('realtime', span.startTime, span.endTime)];
+    });
+  };
+
+  /**
+   * Convert Float32Array to WAV format
+   */
+  const float32ToWav = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+
+    // RIFF identifier
+    writeString(view, 0, 'RIFF');
+    // File length
+    view.setUint32(4, 36 + samples.length * 2, true);
+    // RIFF type
+    writeString(view, 8, 'WAVE');
+    // Format chunk identifier
+    writeString(view, 12, 'fmt ');
+    // Format chunk length
+    view.setUint32(16, 16, true);
+    // Sample format (1 is PCM)
+    view.setUint16(20, 1, true);
+    // Channel count
+    view.setUint16(22, 1, true);
+    // Sample rate
+    view.setUint32(24, sampleRate, true);
+    // Byte rate (sample rate * block align)
+    view.setUint32(28, sampleRate * 2, true);
+    // Block align (channel count * bytes per sample)
+    view.setUint16(32, 2, true);
+    // Bits per sample
+    view.setUint16(34, 16, true);
+    // Data chunk identifier
+    writeString(view, 36, 'data');
+    // Data chunk length
+    view.setUint32(40, samples.length * 2, true);
+
+    // Write the PCM samples
+    for (let i = 0; i < samples.length; i++) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+    }
+
+    return buffer;
+  };
+
+  /**
+   * Write a string to a DataView
+   */
+  const writeString = (view: DataView, offset: number, string: string): void => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  /**
+   * Receive frames from the shared capture pipeline
+   */
+  const listen = (): void => {
+    unsubscribe = capture.subscribeFrames((frame: AudioFrame) => {
+      detector.process(frame);
+    });
+
+    // Set listening state
+    listening = true;
   };
 
   /**
@@ -122,85 +239,62 @@ export const createRealtimeService = (options: RealtimeServiceOptions): Realtime
    */
   const start = async (): Promise<void> => {
     if (listening) return;
-    
+
     try {
-      // Get microphone access
-      mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        }
-      });
-      
-      // Create audio context
-      audioContext = new AudioContext({ sampleRate });
-      
-      // Create source from microphone
-      source = audioContext.createMediaStreamSource(mediaStream);
-      
-      // Create processor node
-      processor = audioContext.createScriptProcessor(bufferSize, 1, 1);
-      
-      // Process audio data
-      processor.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        processAudioData(inputData);
-      };
-      
-      // Connect nodes
-      source.connect(processor);
-      processor.connect(audioContext.destination);
-      
-      // Set listening state
-      listening = true;
-      
-      console.log('Realtime service started');
+      // Recalibrate the detector to the current room and begin a new session
+      detector.reset();
+      merger.reset();
+      uploads.reset();
+
+      listen();
+
+      console.log(`Realtime (self-hosted) service started with language: ${currentLanguage}`);
     } catch (error) {
       console.error('Error starting Realtime service:', error);
       throw error;
     }
   };
 
+  /**
+   * Continue after a pause, keeping the chunk numbering and the transcript seams
+   */
+  const resume = async (): Promise<void> => {
+    if (listening) return;
+
+    listen();
+
+    console.log('Realtime (self-hosted) service resumed');
+  };
+
   /**
    * Stop the speech recognition service
    */
   const stop = (): void => {
     if (!listening) return;
-    
+
     // Finalize any in-progress speech
-    if (speechState.isSpeaking) {
-      finalizeSentence();
-    }
-    
-    // Disconnect and clean up audio nodes
-    if (processor && source) {
-      processor.disconnect();
-      source.disconnect();
-    }
-    
-    // Stop all tracks in the media stream
-    if (mediaStream) {
-      mediaStream.getTracks().forEach(track => track.stop());
-    }
-    
-    // Close audio context
-    if (audioContext && audioContext.state !== 'closed') {
-      audioContext.close();
+    detector.flush();
+
+    // Stop receiving frames
+    if (unsubscribe) {
+      unsubscribe();
+      unsubscribe = null;
     }
-    
-    // Reset references
-    processor = null;
-    source = null;
-    mediaStream = null;
-    audioContext = null;
-    
+
     // Set listening state
     listening = false;
-    
+
     console.log('Realtime service stopped');
   };
 
+  /**
+   * Send the speech heard so far without waiting for a pause; listening carries on
+   */
+  const flush = (): void => {
+    if (!listening) return;
+    detector.cut();
+  };
+
   /**
    * Check if the service is currently listening
    */
@@ -211,9 +305,15 @@ export const createRealtimeService = (options: RealtimeServiceOptions): Realtime
   // Return the service instance
   return {
     start,
+    resume,
     stop,
     isListening,
+    flush,
+    updateLanguage: (newLanguage: string) => {
+      currentLanguage = newLanguage;
+      console.log(`Updated RealtimeService language to: ${currentLanguage}`);
+    }
   };
 };
 
-export default createRealtimeService; 
\ No newline at end of file
+export default createRealtimeService;
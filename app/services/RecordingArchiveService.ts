@@ -0,0 +1,133 @@
+/**
+ * RecordingArchiveService.ts
+ * A service for keeping session recordings and their transcripts in the server's archive
+ */
+
+import type { ArchivedRecording } from '../lib/recordingArchive';
+import { TranscriptSegment } from './TranscriptSegment';
+
+export type { ArchivedRecording };
+
+export interface ArchiveRecordingDetails {
+  segments: TranscriptSegment[];
+  language?: string;
+  startedAt?: number; // wall-clock time the session started
+}
+
+export interface RecordingArchiveServiceOptions {
+  debug?: boolean;
+}
+
+export interface RecordingArchiveServiceInstance {
+  archive: (recording: Blob, details: ArchiveRecordingDetails) => Promise<ArchivedRecording>;
+  list: () => Promise<{ recordings: ArchivedRecording[]; retentionDays: number }>;
+  getSegments: (id: string) => Promise<TranscriptSegment[]>;
+  updateSegments: (id: string, segments: TranscriptSegment[]) => Promise<ArchivedRecording>;
+  remove: (id: string) => Promise<void>;
+  getAudioUrl: (id: string) => string;
+  getDownloadUrl: (id: string) => string;
+}
+
+export const createRecordingArchiveService = (
+  options: RecordingArchiveServiceOptions = {}
+): RecordingArchiveServiceInstance => {
+  // Default options
+  const {
+    debug = true,
+  } = options;
+
+  /**
+   * Throw the server's error message for a failed request
+   */
+  const checkResponse = async (response: Response, action: string): Promise<void> => {
+    if (response.ok) return;
+
+    const data = await response.json().catch(() => ({}));
+    throw new Error(`Failed to ${action}: ${data.error || response.statusText}`);
+  };
+
+  /**
+   * The final segments of a transcript and the engines that produced them
+   */
+  const finalTranscript = (segments: TranscriptSegment[]) => {
+    const finalSegments = segments.filter((segment) => segment.status === 'final');
+    return { segments: finalSegments, engines: Array.from(new Set(finalSegments.map((segment) => segment.engine))) };
+  };
+
+  /**
+   * Upload a session recording (FLAC or WAV) with its transcript; the server keeps it in the
+   * archive's format
+   */
+  const archive = async (recording: Blob, details: ArchiveRecordingDetails): Promise<ArchivedRecording> => {
+    const { segments, engines } = finalTranscript(details.segments);
+
+    const formData = new FormData();
+    formData.append('audio', recording, recording.type === 'audio/flac' ? 'session.flac' : 'session.wav');
+    formData.append('segments', JSON.stringify(segments));
+    formData.append('engines', JSON.stringify(engines));
+    if (details.language) formData.append('language', details.language);
+    if (details.startedAt) formData.append('startedAt', String(details.startedAt));
+
+    const response = await fetch('/api/recordings', { method: 'POST', body: formData });
+    await checkResponse(response, 'archive the recording');
+
+    const archived: ArchivedRecording = await response.json();
+    if (debug) console.log(`Recording archived as ${archived.id} (${archived.format}, ${archived.size} bytes)`);
+    return archived;
+  };
+
+  /**
+   * The archived recordings, newest first, and how long they are kept
+   */
+  const list = async (): Promise<{ recordings: ArchivedRecording[]; retentionDays: number }> => {
+    const response = await fetch('/api/recordings');
+    await checkResponse(response, 'list recordings');
+    return response.json();
+  };
+
+  /**
+   * The transcript archived with a recording
+   */
+  const getSegments = async (id: string): Promise<TranscriptSegment[]> => {
+    const response = await fetch(`/api/recordings/${id}`);
+    await checkResponse(response, 'load the recording');
+
+    const data = await response.json();
+    return data.segments || [];
+  };
+
+  /**
+   * Replace the transcript kept with a recording
+   */
+  const updateSegments = async (id: string, segments: TranscriptSegment[]): Promise<ArchivedRecording> => {
+    const response = await fetch(`/api/recordings/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(finalTranscript(segments)),
+    });
+    await checkResponse(response, 'update the recording transcript');
+    return response.json();
+  };
+
+  /**
+   * Delete an archived recording
+   */
+  const remove = async (id: string): Promise<void> => {
+    const response = await fetch(`/api/recordings/${id}`, { method: 'DELETE' });
+    await checkResponse(response, 'delete the recording');
+    if (debug) console.log(`Recording ${id} deleted`);
+  };
+
+  // Return the service instance
+  return {
+    archive,
+    list,
+    getSegments,
+    updateSegments,
+    remove,
+    getAudioUrl: (id) => `/api/recordings/${id}/audio`,
+    getDownloadUrl: (id) => `/api/recordings/${id}/audio?download=1`,
+  };
+};
+
+export default createRecordingArchiveService;
@@ -0,0 +1,137 @@
+/**
+ * Resampler.ts
+ * Streaming sample rate conversion of captured audio
+ *
+ * Browsers do not all honour the sample rate requested for an AudioContext, so the capture runs
+ * at the device's own rate and converts to the rate declared to the providers. Conversion uses
+ * windowed-sinc interpolation, which also filters out what lies above the new Nyquist frequency
+ * when downsampling.
+ */
+
+export interface ResamplerOptions {
+  fromRate: number;
+  toRate: number;
+  quality?: number; // zero crossings of the sinc kernel on each side; higher is sharper and slower
+}
+
+export interface ResamplerInstance {
+  process: (input: Float32Array) => Float32Array;
+  reset: () => void;
+  getDelay: () => number; // milliseconds the output lags behind the input
+}
+
+// Kernel table entries per input sample of distance
+const TABLE_RESOLUTION = 512;
+
+/**
+ * Blackman window over [-1, 1]
+ */
+const blackman = (x: number): number => {
+  return 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+};
+
+/**
+ * Creates a resampler that converts consecutive blocks of one continuous signal
+ */
+export const createResampler = (options: ResamplerOptions): ResamplerInstance => {
+  // Default options
+  const {
+    fromRate,
+    toRate,
+    quality = 16,
+  } = options;
+
+  if (!(fromRate > 0) || !(toRate > 0)) {
+    throw new Error(`Invalid sample rates: ${fromRate} -> ${toRate}`);
+  }
+
+  // Input samples per output sample, and the filter cutoff relative to the input Nyquist frequency
+  const step = fromRate / toRate;
+  const cutoff = Math.min(1, toRate / fromRate);
+  const halfWidth = Math.ceil(quality / cutoff);
+
+  // The kernel is symmetric, so it is tabulated for distances 0..halfWidth and interpolated
+  const table = new Float32Array(halfWidth * TABLE_RESOLUTION + 2);
+  for (let i = 0; i < table.length; i++) {
+    const distance = i / TABLE_RESOLUTION;
+    const x = Math.PI * cutoff * distance;
+    table[i] = distance >= halfWidth ? 0 : distance === 0 ? cutoff : cutoff * (Math.sin(x) / x) * blackman(distance / halfWidth);
+  }
+
+  // Resampler state: input not yet consumed, starting at absolute input index bufferStart
+  let buffer = new Float32Array(0);
+  let bufferStart = 0;
+  let outputIndex = 0;
+
+  /**
+   * Kernel weight at a distance from the output position, in input samples
+   */
+  const kernel = (distance: number): number => {
+    const index = Math.abs(distance) * TABLE_RESOLUTION;
+    const lower = Math.floor(index);
+    const fraction = index - lower;
+    return table[lower] + (table[lower + 1] - table[lower]) * fraction;
+  };
+
+  /**
+   * Convert the next block of input, returning the output samples it completes
+   */
+  const process = (input: Float32Array): Float32Array => {
+    if (step === 1) return input;
+
+    const joined = new Float32Array(buffer.length + input.length);
+    joined.set(buffer);
+    joined.set(input, buffer.length);
+    buffer = joined;
+
+    const available = bufferStart + buffer.length;
+    const output: number[] = [];
+
+    // An output sample needs the input up to halfWidth samples past its position
+    for (let position = outputIndex * step; Math.floor(position) + halfWidth < available; position = outputIndex * step) {
+      const center = Math.floor(position);
+      let sum = 0;
+
+      for (let k = center - halfWidth + 1; k <= center + halfWidth; k++) {
+        // Before the first input sample the signal is silent
+        if (k < bufferStart) continue;
+        sum += buffer[k - bufferStart] * kernel(position - k);
+      }
+
+      output.push(sum);
+      outputIndex++;
+    }
+
+    // Keep only the input the next output samples still need
+    const keepFrom = Math.max(bufferStart, Math.floor(outputIndex * step) - halfWidth + 1);
+    buffer = buffer.slice(keepFrom - bufferStart);
+    bufferStart = keepFrom;
+
+    return Float32Array.from(output);
+  };
+
+  /**
+   * Forget the signal so far, before converting an unrelated one
+   */
+  const reset = (): void => {
+    buffer = new Float32Array(0);
+    bufferStart = 0;
+    outputIndex = 0;
+  };
+
+  /**
+   * Output lag caused by the kernel looking ahead
+   */
+  const getDelay = (): number => {
+    return step === 1 ? 0 : (halfWidth / fromRate) * 1000;
+  };
+
+  // Return the service instance
+  return {
+    process,
+    reset,
+    getDelay,
+  };
+};
+
+export default createResampler;
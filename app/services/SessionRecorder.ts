@@ -0,0 +1,141 @@
+/**
+ * SessionRecorder.ts
+ * Keeps the captured audio of a session so the transcript can be played back against it
+ *
+ * Frames are stored on the same timeline as the transcript segments, so a word's startTime is
+ * also its position in the recording. The audio is FLAC-encoded block by block while it is
+ * recorded, which halves the memory a long consultation takes and the upload to the archive,
+ * without encoding the whole recording at once when the session stops.
+ */
+
+import { AudioCaptureServiceInstance, AudioFrame } from './AudioCaptureService';
+import { encodeFlacFrame, encodeFlacHeader, FLAC_BLOCK_SIZE } from '../lib/flacEncoder';
+
+// Define types for the service
+export interface SessionRecorderOptions {
+  capture: AudioCaptureServiceInstance;
+  maxDurationMs?: number; // recording stops growing after this much audio
+  debug?: boolean;
+}
+
+export interface SessionRecorderInstance {
+  start: () => void;
+  stop: () => void;
+  clear: () => void;
+  isRecording: () => boolean;
+  getDuration: () => number;
+  getRecording: () => Blob | null;
+}
+
+/**
+ * Creates a session recorder on top of the shared capture pipeline
+ */
+export const createSessionRecorder = (options: SessionRecorderOptions): SessionRecorderInstance => {
+  // Default options
+  const {
+    capture,
+    maxDurationMs = 60 * 60 * 1000,
+    debug = false,
+  } = options;
+
+  // Recorder state
+  let unsubscribe: (() => void) | null = null;
+  let frames: Uint8Array[] = []; // encoded FLAC frames of complete blocks
+  let block = new Int16Array(FLAC_BLOCK_SIZE); // samples of the block being filled
+  let blockLength = 0;
+  let sampleCount = 0;
+  let sampleRate = 0;
+
+  /**
+   * Store a captured frame as 16-bit PCM, encoding each block as soon as it is complete
+   */
+  const handleFrame = (frame: AudioFrame): void => {
+    sampleRate = frame.sampleRate;
+    if ((sampleCount / sampleRate) * 1000 >= maxDurationMs) return;
+
+    for (let i = 0; i < frame.samples.length; i++) {
+      const sample = Math.max(-1, Math.min(1, frame.samples[i]));
+      block[blockLength++] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+
+      if (blockLength === FLAC_BLOCK_SIZE) {
+        frames.push(encodeFlacFrame(block, frames.length));
+        blockLength = 0;
+      }
+    }
+
+    sampleCount += frame.samples.length;
+  };
+
+  /**
+   * Drop the recorded audio
+   */
+  const clear = (): void => {
+    frames = [];
+    block = new Int16Array(FLAC_BLOCK_SIZE);
+    blockLength = 0;
+    sampleCount = 0;
+  };
+
+  /**
+   * Start a new recording, replacing the previous one
+   */
+  const start = (): void => {
+    stop();
+    clear();
+    unsubscribe = capture.subscribeFrames(handleFrame);
+
+    if (debug) console.log('Session recording started');
+  };
+
+  /**
+   * Stop recording, keeping the audio for playback
+   */
+  const stop = (): void => {
+    if (!unsubscribe) return;
+
+    unsubscribe();
+    unsubscribe = null;
+
+    if (debug) console.log(`Session recording stopped after ${Math.round(getDuration())}ms`);
+  };
+
+  /**
+   * Check if audio is being recorded
+   */
+  const isRecording = (): boolean => {
+    return unsubscribe !== null;
+  };
+
+  /**
+   * Get the recorded duration in milliseconds
+   */
+  const getDuration = (): number => {
+    return sampleRate > 0 ? (sampleCount / sampleRate) * 1000 : 0;
+  };
+
+  /**
+   * Get the recording as a FLAC blob; the block still being filled becomes its shorter last frame
+   */
+  const getRecording = (): Blob | null => {
+    if (sampleCount === 0) return null;
+
+    const parts = [encodeFlacHeader(sampleRate, sampleCount), ...frames];
+    if (blockLength > 0) {
+      parts.push(encodeFlacFrame(block.slice(0, blockLength), frames.length));
+    }
+
+    return new Blob(parts, { type: 'audio/flac' });
+  };
+
+  // Return the recorder instance
+  return {
+    start,
+    stop,
+    clear,
+    isRecording,
+    getDuration,
+    getRecording,
+  };
+};
+
+export default createSessionRecorder;
@@ -0,0 +1,127 @@
+/**
+ * SpeakerRoles.ts
+ * Maps diarization speaker labels to consultation roles and formats speaker-attributed text
+ */
+
+import { TranscriptSegment } from './TranscriptSegment';
+
+export type SpeakerRole = 'clinician' | 'patient' | 'other';
+
+// Role per diarization label
+export type SpeakerRoleMap = Record<string, SpeakerRole>;
+
+export const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+  clinician: 'Clinician',
+  patient: 'Patient',
+  other: 'Other',
+};
+
+// Openings that mark a sentence as a question (English and German)
+const QUESTION_OPENERS = /^(how|what|when|where|why|which|who|do|does|did|are|is|have|has|can|could|any|wie|was|wann|wo|warum|welche|haben|sind|ist|können|nehmen)\b/i;
+
+/**
+ * Split text into sentences, keeping the closing punctuation
+ */
+const splitSentences = (text: string): string[] => {
+  return (text.match(/[^.!?]+[.!?]*/g) || []).map((sentence) => sentence.trim()).filter(Boolean);
+};
+
+/**
+ * Count the questions in a piece of text
+ */
+const countQuestions = (text: string): number => {
+  return splitSentences(text)
+    .filter((sentence) => sentence.endsWith('?') || QUESTION_OPENERS.test(sentence))
+    .length;
+};
+
+/**
+ * List the speaker labels in order of first appearance
+ */
+export const getSpeakers = (segments: TranscriptSegment[]): string[] => {
+  const speakers: string[] = [];
+  for (const segment of segments) {
+    if (segment.speaker && !speakers.includes(segment.speaker)) {
+      speakers.push(segment.speaker);
+    }
+  }
+  return speakers;
+};
+
+/**
+ * Guess the role of every speaker.
+ *
+ * The two speakers with the most words are taken to be clinician and patient; whoever asks
+ * proportionally more questions is the clinician, and on a tie whoever spoke first (the
+ * clinician usually opens the consultation). Anyone else is 'other'.
+ */
+export const inferSpeakerRoles = (segments: TranscriptSegment[]): SpeakerRoleMap => {
+  const stats = new Map<string, { words: number; sentences: number; questions: number; order: number }>();
+
+  for (const segment of segments) {
+    if (!segment.speaker || segment.status !== 'final') continue;
+
+    const entry = stats.get(segment.speaker) || { words: 0, sentences: 0, questions: 0, order: stats.size };
+    entry.words += segment.text.split(/\s+/).filter(Boolean).length;
+    entry.sentences += Math.max(1, splitSentences(segment.text).length);
+    entry.questions += countQuestions(segment.text);
+    stats.set(segment.speaker, entry);
+  }
+
+  const ranked = Array.from(stats.entries()).sort((a, b) => b[1].words - a[1].words);
+  const roles: SpeakerRoleMap = {};
+  ranked.forEach(([speaker]) => {
+    roles[speaker] = 'other';
+  });
+
+  const [first, second] = ranked;
+  if (!first) return roles;
+  if (!second) {
+    roles[first[0]] = 'patient';
+    return roles;
+  }
+
+  const questionRatio = (entry: { sentences: number; questions: number }) => entry.questions / entry.sentences;
+  const firstIsClinician =
+    questionRatio(first[1]) !== questionRatio(second[1])
+      ? questionRatio(first[1]) > questionRatio(second[1])
+      : first[1].order < second[1].order;
+
+  roles[first[0]] = firstIsClinician ? 'clinician' : 'patient';
+  roles[second[0]] = firstIsClinician ? 'patient' : 'clinician';
+  return roles;
+};
+
+/**
+ * Resolve the role of a segment, preferring its own override
+ */
+export const resolveSegmentRole = (segment: TranscriptSegment, roles: SpeakerRoleMap): SpeakerRole | undefined => {
+  if (segment.role) return segment.role;
+  return segment.speaker ? roles[segment.speaker] : undefined;
+};
+
+/**
+ * Format final segments as "Role: text" lines, merging consecutive lines of the same role
+ */
+export const formatSpeakerAttributedText = (segments: TranscriptSegment[], roles: SpeakerRoleMap): string => {
+  const lines: { label: string | null; text: string }[] = [];
+
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (segment.status !== 'final' || !text) continue;
+
+    const role = resolveSegmentRole(segment, roles);
+    const label = role ? SPEAKER_ROLE_LABELS[role] : null;
+    const last = lines[lines.length - 1];
+
+    if (last && last.label === label) {
+      last.text += ' ' + text;
+    } else {
+      lines.push({ label, text });
+    }
+  }
+
+  return lines
+    .map((line) => (line.label ? `${line.label}: ${line.text}` : line.text))
+    .join('\n');
+};
@@ -9,20 +9,75 @@ import createAssemblyAIService, { AssemblyAIServiceInstance } from './AssemblyAI
 import createWhisperService, { WhisperServiceInstance } from './WhisperService';
 import createAssemblyAINanoService, { AssemblyAINanoServiceInstance } from './AssemblyAINanoService';
 import createGoogleSpeechService, { GoogleSpeechServiceInstance } from './GoogleSpeechService';
+import createAudioCaptureService, { AudioLevelListener } from './AudioCaptureService';
+import createSessionRecorder from './SessionRecorder';
+import { PreprocessingConfig } from './AudioPreprocessing';
+import { VadConfig } from './VoiceActivityDetector';
+import { UploadQueueConfig } from './UploadQueue';
+import createOfflineChunkBuffer, { PendingChunksListener } from './OfflineChunkBuffer';
+import { normalizeVocabulary, toAssemblyAIWordBoost, toGoogleSpeechContexts, toJsgfGrammar, toWhisperVocabulary, VocabularyTerm } from './Vocabulary';
+import { TranscriptSegment, TranscriptSegmentListener, upsertSegment, segmentsToText } from './TranscriptSegment';
+import { DEFAULT_LANGUAGE, getEngineLanguageCode } from './Languages';
+import { EngineInfo, getEngineInfo } from './Engines';
+import createEngineHealthTracker, { EngineHealth, EngineHealthTrackerOptions, EngineReportListener } from './EngineHealth';
 
 // Define the STT API types
 export type STTApi = 'webSpeech' | 'realtime' | 'assemblyAI' | 'whisper' | 'assemblyAINano' | 'googleSpeech';
 
+// Engine capability registry, for rendering engine options
+export { ENGINES, getEngineInfo, getEnginesWith, getSelectableEngines, isEngineId } from './Engines';
+export type { EngineCapabilities, EngineInfo, EngineMode } from './Engines';
+
+// Failover settings: engines to hand over to, and when an engine counts as failing
+export interface FailoverConfig extends EngineHealthTrackerOptions {
+  chain?: STTApi[]; // engines to try, in order, when the current one fails
+}
+
+// A switch from a failing engine to the next one in the chain
+export interface EngineHandover {
+  from: STTApi;
+  to: STTApi | null; // null when no engine could take over and the failing one carries on
+  reason: string;
+  atMs: number; // session time of the switch
+}
+
+// Listeners of an engine instance
+export interface EngineHandlers {
+  onSegment: TranscriptSegmentListener;
+  onHealthReport?: EngineReportListener;
+  onTranscriptionStart?: () => void;
+}
+
+// What every engine instance offers
+export interface EngineServiceInstance {
+  start: () => Promise<void>;
+  resume: () => Promise<void>; // continue after stop() with the chunk numbering, seams and prompt context kept
+  stop: () => void;
+  isListening: () => boolean;
+  flush: () => void; // finalize the speech heard so far without stopping
+}
+
 // Define the service options
 export interface SpeechRecognitionServiceOptions {
-  onTranscriptUpdate: (transcript: string) => void;
+  onTranscriptUpdate?: (transcript: string) => void; // plain text derived from the segments
+  onSegment?: TranscriptSegmentListener; // every new or updated segment
+  onSegmentsUpdate?: (segments: TranscriptSegment[]) => void; // the whole session timeline
   onDurationUpdate?: (durationMs: number) => void;
   onTranscriptionStart?: () => void;
   apiKey?: string;
-  sampleRate?: number;
+  sampleRate?: number; // rate of the audio sent to every engine, whatever the device runs at
   bufferSize?: number;
+  deviceId?: string; // microphone to capture from, the system default when not set
+  preprocessing?: PreprocessingConfig; // processing applied to the captured audio before any engine
   language?: string;
-  wordBoost?: string[];
+  wordBoost?: string[]; // extra terms to boost, added to the vocabulary
+  vocabulary?: VocabularyTerm[]; // clinic vocabulary, translated for each engine
+  diarization?: boolean; // request speaker labels from engines that support them
+  googleStreaming?: boolean; // use Google's streaming recognition instead of one-shot requests
+  vad?: VadConfig; // voice activity detection settings for the chunked engines
+  upload?: UploadQueueConfig; // concurrency, retries and timeouts of the chunked engines' uploads
+  failover?: FailoverConfig;
+  onHandover?: (handover: EngineHandover) => void;
   debug?: boolean;
 }
 
@@ -30,12 +85,33 @@ export interface SpeechRecognitionServiceOptions {
 export interface SpeechRecognitionServiceInstance {
   start: () => Promise<void>;
   stop: () => void;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
   isListening: () => boolean;
+  isPaused: () => boolean;
   getApi: () => STTApi;
+  getEngine: () => EngineInfo;
   changeApi: (api: STTApi) => void;
   getDuration: () => number;
   updateLanguage: (language: string) => void;
-  forceFinalize: () => void;
+  flush: () => void;
+  updateDiarization: (enabled: boolean) => void;
+  updateVocabulary: (vocabulary: VocabularyTerm[]) => void;
+  subscribeLevel: (listener: AudioLevelListener) => () => void;
+  subscribePendingChunks: (listener: PendingChunksListener) => () => void;
+  updateDevice: (deviceId: string | null) => void;
+  updatePreprocessing: (config: PreprocessingConfig) => Promise<void>;
+  getDeviceLabel: () => string | null;
+  getSegments: () => TranscriptSegment[];
+  getRecording: () => Blob | null;
+  createEngine: (api: STTApi, handlers: EngineHandlers) => EngineServiceInstance;
+  startCapture: () => Promise<void>;
+  stopCapture: () => void;
+  getSessionTime: () => number;
+  getHandovers: () => EngineHandover[];
+  getEngineHealth: () => EngineHealth[];
+  updateFailoverChain: (chain: STTApi[]) => void;
+  dispose: () => void; // stop a running session and release what the service holds for good
 }
 
 /**
@@ -47,6 +123,8 @@ export const createSpeechRecognitionService = (
   // Default options
   const {
     onTranscriptUpdate,
+    onSegment,
+    onSegmentsUpdate,
     onDurationUpdate,
     onTranscriptionStart,
     apiKey = typeof window !== 'undefined' ? 
@@ -55,8 +133,17 @@ export const createSpeechRecognitionService = (
       '' : '',
     sampleRate = 16000,
     bufferSize = 4096,
-    language = 'en-US',
+    deviceId,
+    preprocessing,
+    language = DEFAULT_LANGUAGE,
     wordBoost = [],
+    vocabulary = [],
+    diarization = false,
+    googleStreaming = true,
+    vad,
+    upload,
+    failover = {},
+    onHandover,
     debug = true,
   } = options;
 
@@ -64,30 +151,149 @@ export const createSpeechRecognitionService = (
   let currentApi: STTApi = 'webSpeech';
   let currentService: WebSpeechServiceInstance | RealtimeServiceInstance | AssemblyAIServiceInstance | WhisperServiceInstance | AssemblyAINanoServiceInstance | GoogleSpeechServiceInstance | null = null;
   
+  // Consultation language as a BCP-47 tag or AUTO_LANGUAGE, translated for each engine
+  let currentLanguage = language;
+  
+  // Speaker diarization can be toggled between sessions
+  let diarizationEnabled = diarization;
+  
+  // Clinic vocabulary, with the plain word boost terms at the default boost
+  const boostTerms = wordBoost.map((term): VocabularyTerm => ({ term, category: 'other' }));
+  let vocabularyTerms = normalizeVocabulary([...boostTerms, ...vocabulary]);
+  
+  // Transcript timeline of the current session
+  let segments: TranscriptSegment[] = [];
+  
+  // Failover: engines to fall back to, their health and the switches made this session
+  let failoverChain: STTApi[] = failover.chain ?? ['webSpeech'];
+  const healthTracker = createEngineHealthTracker(failover);
+  const failedEngines = new Set<STTApi>();
+  let handovers: EngineHandover[] = [];
+  let sessionActive = false;
+  let handingOver = false;
+  
+  // Incremented for every engine instance, so reports from replaced instances are ignored
+  let serviceGeneration = 0;
+  
+  // Shared microphone capture, used by every engine and the level meter
+  const capture = createAudioCaptureService({
+    sampleRate,
+    bufferSize,
+    deviceId,
+    preprocessing,
+    debug,
+  });
+  
+  // Session audio, kept for playback against the word timings
+  const recorder = createSessionRecorder({ capture, debug });
+  
+  // Chunks the chunked engines could not upload while the network was down
+  const offlineBuffer = createOfflineChunkBuffer({ debug });
+  
+  // Wall-clock time the microphone opened, session time 0
+  let captureStartedAt = 0;
+  
   // Duration tracking
   let startTime: number | null = null;
   let endTime: number | null = null;
   let durationMs: number = 0;
   let durationInterval: NodeJS.Timeout | null = null;
   
+  // Paused time, left out of the session time and the duration
+  let pausedAt: number | null = null;
+  let pausedMs = 0;
+  
   // Log API key status (without revealing the key)
   console.log(`AssemblyAI API key ${apiKey ? 'is' : 'is not'} available`);
   
   /**
-   * Create a service instance based on the selected API
+   * Merge a segment from the active engine into the timeline and notify listeners
    */
-  const createService = (api: STTApi) => {
+  const handleSegment = (segment: TranscriptSegment): void => {
+    // A replaced engine may still deliver final results, but its words in progress are settled
+    if (segment.status === 'interim' && segment.engine !== currentApi) return;
+    
+    segments = upsertSegment(segments, segment);
+    
+    if (onSegment) {
+      onSegment(segment);
+    }
+    if (onSegmentsUpdate) {
+      onSegmentsUpdate(segments);
+    }
+    if (onTranscriptUpdate) {
+      onTranscriptUpdate(segmentsToText(segments));
+    }
+  };
+
+  /**
+   * Keep an engine's words in progress as they stand, so they do not linger as interim text
+   * beside the next engine's transcript
+   */
+  const finalizeInterimSegments = (api: STTApi): void => {
+    segments
+      .filter((segment) => segment.engine === api && segment.status === 'interim')
+      .forEach((segment) => handleSegment({ ...segment, status: 'final' }));
+  };
+
+  /**
+   * Health listener for a new engine instance, handing over when the engine fails mid-session
+   */
+  const createHealthListener = (api: STTApi): EngineReportListener => {
+    const generation = ++serviceGeneration;
+    
+    return (report) => {
+      if (generation !== serviceGeneration) return;
+      
+      const health = healthTracker.record(api, report);
+      if (debug && !report.ok) console.log(`${api} reported a failure (${health.consecutiveFailures} in a row): ${report.error}`);
+      
+      if (!sessionActive || pausedAt !== null || handingOver) return;
+      
+      if (report.fatal) {
+        void handover(`${getEngineInfo(api).name} stopped: ${report.error ?? 'unknown error'}`, true);
+      } else if (health.status === 'failing') {
+        void handover(
+          !report.ok
+            ? `${getEngineInfo(api).name} failed ${health.consecutiveFailures} times in a row: ${health.lastError ?? 'unknown error'}`
+            : `${getEngineInfo(api).name} is too slow (${Math.round((health.averageLatencyMs ?? 0) / 1000)}s per request)`,
+          true
+        );
+      }
+    };
+  };
+
+  /**
+   * Create a service instance based on the selected API, reporting to the session by default
+   */
+  const createService = (api: STTApi, handlers?: EngineHandlers) => {
+    const {
+      onSegment,
+      onHealthReport,
+      onTranscriptionStart,
+    } = handlers ?? { onSegment: handleSegment, onHealthReport: createHealthListener(api), onTranscriptionStart: options.onTranscriptionStart };
+    
     switch (api) {
       case 'webSpeech':
         return createWebSpeechService({
-          onTranscriptUpdate,
-          language,
+          onSegment,
+          onHealthReport,
+          clock: getSessionTime,
+          language: getEngineLanguageCode(currentLanguage, api),
+          grammar: toJsgfGrammar(vocabularyTerms),
         });
       case 'realtime':
         return createRealtimeService({
-          onTranscriptUpdate,
-          sampleRate,
-          bufferSize,
+          onSegment,
+          onHealthReport,
+          onTranscriptionStart,
+          language: getEngineLanguageCode(currentLanguage, api),
+          vocabulary: toWhisperVocabulary(vocabularyTerms),
+          capture,
+          vad,
+          upload,
+          offlineBuffer,
+          debug,
         });
       case 'assemblyAI':
         if (!apiKey) {
@@ -95,37 +301,53 @@ export const createSpeechRecognitionService = (
         }
         
         return createAssemblyAIService({
-          onTranscriptUpdate,
+          onSegment,
+          onHealthReport,
           apiKey,
-          sampleRate,
-          bufferSize,
-          wordBoost,
+          capture,
+          language: getEngineLanguageCode(currentLanguage, api),
+          wordBoost: toAssemblyAIWordBoost(vocabularyTerms),
         });
       case 'whisper':
         return createWhisperService({
-          onTranscriptUpdate,
+          onSegment,
+          onHealthReport,
           onTranscriptionStart,
           apiKey: process.env.NEXT_PUBLIC_OPENAI_API_KEY,
-          language: language.split('-')[0], // Convert 'en-US' to 'en'
-          sampleRate,
-          bufferSize,
+          language: getEngineLanguageCode(currentLanguage, api),
+          vocabulary: toWhisperVocabulary(vocabularyTerms),
+          capture,
+          vad,
+          upload,
+          offlineBuffer,
           debug,
         });
       case 'assemblyAINano':
         return createAssemblyAINanoService({
-          onTranscriptUpdate,
+          onSegment,
+          onHealthReport,
           onTranscriptionStart,
-          language: language.split('-')[0], // Convert 'en-US' to 'en'
-          sampleRate,
-          bufferSize,
+          language: getEngineLanguageCode(currentLanguage, api),
+          diarization: diarizationEnabled,
+          wordBoost: toAssemblyAIWordBoost(vocabularyTerms),
+          capture,
+          vad,
+          upload,
+          offlineBuffer,
           debug,
         });
       case 'googleSpeech':
         return createGoogleSpeechService({
-          onTranscriptUpdate,
-          language,
-          sampleRate,
-          bufferSize,
+          onSegment,
+          onHealthReport,
+          language: getEngineLanguageCode(currentLanguage, api),
+          diarization: diarizationEnabled,
+          streaming: googleStreaming,
+          speechContexts: toGoogleSpeechContexts(vocabularyTerms),
+          capture,
+          vad,
+          upload,
+          offlineBuffer,
         });
       default:
         throw new Error(`Unsupported API: ${api}`);
@@ -146,7 +368,7 @@ export const createSpeechRecognitionService = (
     
     durationInterval = setInterval(() => {
       if (startTime) {
-        durationMs = Date.now() - startTime;
+        durationMs = Date.now() - startTime - getPausedTime();
         if (onDurationUpdate) {
           onDurationUpdate(durationMs);
         }
@@ -161,7 +383,7 @@ export const createSpeechRecognitionService = (
     endTime = Date.now();
     
     if (startTime && endTime) {
-      durationMs = endTime - startTime;
+      durationMs = endTime - startTime - getPausedTime();
       if (onDurationUpdate) {
         onDurationUpdate(durationMs);
       }
@@ -173,6 +395,118 @@ export const createSpeechRecognitionService = (
     }
   };
 
+  /**
+   * Engines to hand over to from a failing engine: the ones after it in the chain first,
+   * skipping every engine that already failed this session
+   */
+  const getFailoverCandidates = (from: STTApi): STTApi[] => {
+    const index = failoverChain.indexOf(from);
+    const ordered = index === -1
+      ? failoverChain
+      : [...failoverChain.slice(index + 1), ...failoverChain.slice(0, index)];
+    
+    return ordered.filter((api) => api !== from && !failedEngines.has(api));
+  };
+
+  /**
+   * Replace the current engine with the next working one in the failover chain, keeping
+   * the microphone, the recording and the transcript so far
+   */
+  const handover = async (reason: string, fromRunning: boolean): Promise<boolean> => {
+    if (handingOver) return false;
+    handingOver = true;
+    
+    const from = currentApi;
+    failedEngines.add(from);
+    
+    /**
+     * Record the switch and tell the listener
+     */
+    const notify = (to: STTApi | null): void => {
+      const entry: EngineHandover = { from, to, reason, atMs: getSessionTime() };
+      handovers = [...handovers, entry];
+      console.warn(to ? `Handing over from ${from} to ${to}: ${reason}` : `No engine can take over from ${from}: ${reason}`);
+      if (onHandover) {
+        onHandover(entry);
+      }
+    };
+    
+    try {
+      const candidates = getFailoverCandidates(from);
+      if (candidates.length === 0) {
+        notify(null);
+        return false;
+      }
+      
+      currentService?.stop();
+      finalizeInterimSegments(from);
+      
+      for (const next of candidates) {
+        currentApi = next;
+        currentService = createService(next);
+        
+        try {
+          await currentService.start();
+          notify(next);
+          return true;
+        } catch (error) {
+          console.error(`Error starting ${next} during failover:`, error);
+          healthTracker.record(next, { ok: false, error: error instanceof Error ? error.message : String(error), fatal: true });
+          failedEngines.add(next);
+        }
+      }
+      
+      // Nothing else started, so the failing engine carries on if it was running
+      currentApi = from;
+      currentService = createService(from);
+      if (fromRunning) {
+        await currentService.start().catch((error) => console.error(`Error restarting ${from}:`, error));
+      }
+      notify(null);
+      return false;
+    } finally {
+      handingOver = false;
+    }
+  };
+
+  /**
+   * Open the microphone and start recording, unless it is already open
+   */
+  const startCapture = async (): Promise<void> => {
+    const wasCapturing = capture.isCapturing();
+    await capture.start();
+    
+    // A fresh capture restarts the timeline, and with it the recording
+    if (!wasCapturing) {
+      captureStartedAt = Date.now();
+      pausedAt = null;
+      pausedMs = 0;
+      recorder.start();
+    }
+  };
+
+  /**
+   * Stop recording and release the microphone
+   */
+  const stopCapture = (): void => {
+    recorder.stop();
+    capture.stop();
+  };
+
+  /**
+   * Milliseconds the session has been paused, including a pause in progress
+   */
+  const getPausedTime = (): number => {
+    return pausedMs + (pausedAt !== null ? Date.now() - pausedAt : 0);
+  };
+
+  /**
+   * Milliseconds of capture since the microphone opened, the time base of every segment
+   */
+  const getSessionTime = (): number => {
+    return Date.now() - captureStartedAt - getPausedTime();
+  };
+
   /**
    * Start the speech recognition service
    */
@@ -182,12 +516,22 @@ export const createSpeechRecognitionService = (
       currentService = createService(currentApi);
     }
     
+    // Every start begins a new transcript, with every engine back in the failover chain
+    segments = [];
+    handovers = [];
+    failedEngines.clear();
+    healthTracker.reset();
+    sessionActive = true;
+    
     try {
       // Notify that transcription is starting
       if (onTranscriptionStart) {
         onTranscriptionStart();
       }
       
+      // Open the microphone once for the whole session
+      await startCapture();
+      
       // Start the service
       await currentService.start();
       
@@ -196,24 +540,22 @@ export const createSpeechRecognitionService = (
     } catch (error) {
       console.error(`Error starting ${currentApi} service:`, error);
       
-      // If any service fails, try falling back to Web Speech API
-      if (currentApi !== 'webSpeech') {
-        console.log('Falling back to Web Speech API');
-        currentApi = 'webSpeech';
-        currentService = createService(currentApi);
-        
-        // Notify that transcription is starting again with fallback
-        if (onTranscriptionStart) {
-          onTranscriptionStart();
-        }
-        
-        await currentService.start();
-        
-        // Start tracking duration
-        startDurationTracking();
-      } else {
+      // Without a microphone no engine can run
+      if (!capture.isCapturing()) {
+        sessionActive = false;
+        throw error;
+      }
+      
+      // Try the next engines in the failover chain
+      healthTracker.record(currentApi, { ok: false, error: error instanceof Error ? error.message : String(error), fatal: true });
+      const handedOver = await handover(`${getEngineInfo(currentApi).name} failed to start`, false);
+      if (!handedOver) {
+        sessionActive = false;
         throw error;
       }
+      
+      // Start tracking duration
+      startDurationTracking();
     }
   };
 
@@ -221,12 +563,71 @@ export const createSpeechRecognitionService = (
    * Stop the speech recognition service
    */
   const stop = (): void => {
+    sessionActive = false;
+    
     if (currentService) {
       currentService.stop();
       
       // Stop tracking duration
       stopDurationTracking();
     }
+    
+    // Release the microphone
+    recorder.stop();
+    capture.stop();
+    pausedAt = null;
+  };
+
+  /**
+   * Pause the session, e.g. for a physical examination: the engine finishes the speech it has
+   * and no more audio is captured, while the transcript, timeline and recording are kept
+   */
+  const pause = async (): Promise<void> => {
+    if (!sessionActive || pausedAt !== null) return;
+    
+    pausedAt = Date.now();
+    currentService?.stop();
+    await capture.pause();
+    
+    if (debug) console.log(`Session paused at ${Math.round(getSessionTime() / 1000)}s`);
+  };
+
+  /**
+   * Resume a paused session where it left off
+   */
+  const resume = async (): Promise<void> => {
+    if (!sessionActive || pausedAt === null) return;
+    
+    await capture.resume();
+    pausedMs += Date.now() - pausedAt;
+    pausedAt = null;
+    
+    try {
+      // An engine that was paused carries on with its session; one created now starts its own
+      if (currentService) {
+        await currentService.resume();
+      } else {
+        currentService = createService(currentApi);
+        await currentService.start();
+      }
+      if (debug) console.log(`Session resumed at ${Math.round(getSessionTime() / 1000)}s`);
+    } catch (error) {
+      console.error(`Error resuming ${currentApi} service:`, error);
+      
+      // Try the next engines in the failover chain
+      healthTracker.record(currentApi, { ok: false, error: error instanceof Error ? error.message : String(error), fatal: true });
+      const handedOver = await handover(`${getEngineInfo(currentApi).name} failed to resume`, false);
+      if (!handedOver) {
+        throw error;
+      }
+    }
+  };
+
+  /**
+   * Check if the session is paused
+   */
+  const isPaused = (): boolean => {
+    return pausedAt !== null;
   };
 
   /**
@@ -247,6 +648,12 @@ export const createSpeechRecognitionService = (
    * Change the API
    */
   const changeApi = (api: STTApi): void => {
+    // A paused session ends here
+    if (pausedAt !== null) {
+      stop();
+    }
+    sessionActive = false;
+    
     // Stop current service if it's listening
     if (currentService && currentService.isListening()) {
       currentService.stop();
@@ -255,13 +662,17 @@ export const createSpeechRecognitionService = (
       stopDurationTracking();
     }
     
+    // Release the microphone until the next start
+    recorder.stop();
+    capture.stop();
+    
     // Update current API
     currentApi = api;
     
     // Create new service with the current API
     currentService = createService(currentApi);
     
-    console.log(`Changed API to ${api} with language ${language}`);
+    console.log(`Changed API to ${api} with language ${currentLanguage}`);
   };
 
   /**
@@ -276,11 +687,15 @@ export const createSpeechRecognitionService = (
    */
   const updateLanguage = (newLanguage: string): void => {
     // Update language
-    options.language = newLanguage;
+    currentLanguage = newLanguage;
     
     console.log(`Updated language to: ${newLanguage}`);
     
-    // If the service is listening, stop it
+    // If the service is listening or paused, stop it
+    if (pausedAt !== null) {
+      stop();
+    }
+    sessionActive = false;
     if (currentService && currentService.isListening()) {
       currentService.stop();
       
@@ -288,9 +703,13 @@ export const createSpeechRecognitionService = (
       stopDurationTracking();
     }
     
+    // Release the microphone until the next start
+    recorder.stop();
+    capture.stop();
+    
     // If the current service has an updateLanguage method, use it
     if (currentService && 'updateLanguage' in currentService) {
-      (currentService as any).updateLanguage(newLanguage.split('-')[0]); // Convert 'en-US' to 'en'
+      (currentService as any).updateLanguage(getEngineLanguageCode(newLanguage, currentApi));
     } else {
       // Otherwise, recreate the service with the new language
       currentService = createService(currentApi);
@@ -301,20 +720,107 @@ export const createSpeechRecognitionService = (
   };
 
   /**
-   * Force finalization of the current audio
+   * Turn speaker diarization on or off for the engines that support it
    */
-  const forceFinalize = (): void => {
-    if (!currentService || !currentService.isListening()) {
-      console.log('No active service to finalize');
-      return;
+  const updateDiarization = (enabled: boolean): void => {
+    if (enabled === diarizationEnabled) return;
+    
+    diarizationEnabled = enabled;
+    
+    // Engines read the setting when they are created, so recreate an idle service
+    if (currentService && !currentService.isListening()) {
+      currentService = createService(currentApi);
     }
     
-    console.log('Forcing finalization of current audio');
+    console.log(`Speaker diarization ${enabled ? 'enabled' : 'disabled'}`);
+  };
+
+  /**
+   * Replace the clinic vocabulary; it applies from the next session
+   */
+  const updateVocabulary = (updated: VocabularyTerm[]): void => {
+    vocabularyTerms = normalizeVocabulary([...boostTerms, ...updated]);
+    
+    // Engines read the vocabulary when they are created, so recreate an idle service
+    if (currentService && !currentService.isListening()) {
+      currentService = createService(currentApi);
+    }
     
-    // For now, the simplest way to force finalization is to stop and restart
-    currentService.stop();
+    console.log(`Vocabulary updated: ${vocabularyTerms.length} terms`);
+  };
+
+  /**
+   * Finalize the speech heard so far on the current engine; capture and the session carry on
+   */
+  const flush = (): void => {
+    if (!currentService || !currentService.isListening()) {
+      console.log('No active service to flush');
+      return;
+    }
     
-    // We don't automatically restart here, as the caller should handle that if needed
+    console.log(`Flushing ${currentApi}`);
+    currentService.flush();
+  };
+
+  /**
+   * Get the registry entry of the current engine
+   */
+  const getEngine = (): EngineInfo => {
+    return getEngineInfo(currentApi);
+  };
+
+  /**
+   * Set the engines to hand over to when the current one fails
+   */
+  const updateFailoverChain = (chain: STTApi[]): void => {
+    failoverChain = [...chain];
+    console.log(`Failover chain: ${failoverChain.join(' -> ') || 'none'}`);
+  };
+
+  /**
+   * Get the transcript segments of the current session
+   */
+  const getSegments = (): TranscriptSegment[] => {
+    return segments;
+  };
+
+  /**
+   * Get the audio recorded in the current or last session as WAV
+   */
+  const getRecording = (): Blob | null => {
+    return recorder.getRecording();
+  };
+
+  /**
+   * Choose the microphone for the next session (Web Speech always uses the browser's default)
+   */
+  const updateDevice = (id: string | null): void => {
+    capture.setDeviceId(id);
+  };
+
+  /**
+   * Change the audio preprocessing, taking effect on a running session straight away
+   */
+  const updatePreprocessing = (config: PreprocessingConfig): Promise<void> => {
+    return capture.setPreprocessing(config);
+  };
+
+  /**
+   * Release the service when its page goes away: a running session is stopped and the offline
+   * buffer stops listening for the network
+   */
+  const dispose = (): void => {
+    if (sessionActive) {
+      stop();
+    }
+    offlineBuffer.dispose();
+  };
+
+  /**
+   * Subscribe to microphone level readings from the shared capture
+   */
+  const subscribeLevel = (listener: AudioLevelListener): (() => void) => {
+    return capture.subscribeLevel(listener);
   };
 
   // Initialize the service
@@ -324,12 +830,33 @@ export const createSpeechRecognitionService = (
   return {
     start,
     stop,
+    pause,
+    resume,
     isListening,
+    isPaused,
     getApi,
+    getEngine,
     changeApi,
     getDuration,
     updateLanguage,
-    forceFinalize,
+    flush,
+    updateDiarization,
+    updateVocabulary,
+    subscribeLevel,
+    subscribePendingChunks: (listener) => offlineBuffer.subscribe(listener),
+    updateDevice,
+    updatePreprocessing,
+    getDeviceLabel: () => capture.getDeviceLabel(),
+    getSegments,
+    getRecording,
+    createEngine: (api: STTApi, handlers: EngineHandlers) => createService(api, handlers),
+    startCapture,
+    stopCapture,
+    getSessionTime,
+    getHandovers: () => handovers,
+    getEngineHealth: () => healthTracker.getAll(),
+    updateFailoverChain,
+    dispose,
   };
 };
 
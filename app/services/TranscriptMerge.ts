@@ -0,0 +1,279 @@
+/**
+ * TranscriptMerge.ts
+ * Joins the transcripts of overlapping audio chunks without repeating the words at the seam
+ *
+ * When speech runs past the maximum chunk length, the next chunk repeats the last moments of
+ * the previous one. Both transcripts then contain the words spoken around the cut, and the
+ * previous one usually ends on a word cut in half. The seam is found by aligning the end of
+ * the previous transcript with the start of the next; the shared words move to the next
+ * transcript, which heard them with their context, keeping whichever version of each is whole.
+ */
+
+import { TranscriptSegment, TranscriptSegmentListener, TranscriptWord } from './TranscriptSegment';
+
+export interface SeamMergeResult {
+  previous: TranscriptSegment;
+  next: TranscriptSegment | null; // null when the next segment only repeated the previous one
+  previousChanged: boolean;
+}
+
+export interface SeamMergerOptions {
+  onSegment: TranscriptSegmentListener;
+  debug?: boolean;
+}
+
+export interface SeamMergerInstance {
+  submit: (overlapMs: number, transcription: Promise<TranscriptSegment[]>) => Promise<void>; // settles once the chunk is emitted
+  reset: () => void;
+}
+
+// Words searched for the seam at the end of the previous and the start of the next transcript
+const SEARCH_WORDS = 12;
+
+// Words at either edge that may be dropped as fragments of a word cut in half
+const MAX_FRAGMENT_WORDS = 2;
+
+/**
+ * Normalise a word for comparison
+ */
+const normalizeWord = (word: string): string => {
+  return word.toLowerCase().replace(/[.,!?;:"'()[\]…“”‘’-]/g, '');
+};
+
+/**
+ * Two words match when they are equal, or when one is the cut-off start or end of the other
+ */
+const wordsMatch = (a: string, b: string): boolean => {
+  if (!a || !b) return false;
+  if (a === b) return true;
+  const shorter = a.length < b.length ? a : b;
+  const longer = a.length < b.length ? b : a;
+  return shorter.length >= 4 && (longer.startsWith(shorter) || longer.endsWith(shorter));
+};
+
+// Run of words both transcripts contain around the cut
+interface Seam {
+  previousStart: number;
+  nextStart: number;
+  length: number;
+}
+
+/**
+ * Find the seam: the run of words at the end of the previous transcript that the next
+ * transcript starts with, allowing a couple of fragment words on either side
+ */
+const findSeam = (previous: string[], next: string[]): Seam | null => {
+  const previousNorm = previous.map(normalizeWord);
+  const nextNorm = next.map(normalizeWord);
+
+  let best: (Seam & { score: number }) | null = null;
+
+  for (let i = Math.max(0, previous.length - SEARCH_WORDS); i < previous.length; i++) {
+    for (let j = 0; j < Math.min(next.length, SEARCH_WORDS); j++) {
+      let length = 0;
+      while (
+        i + length < previous.length &&
+        j + length < next.length &&
+        wordsMatch(previousNorm[i + length], nextNorm[j + length])
+      ) {
+        length++;
+      }
+      if (length === 0) continue;
+
+      // The run must reach the cut, apart from fragments of the word that was cut in half
+      const droppedPrevious = previous.length - (i + length);
+      if (droppedPrevious > MAX_FRAGMENT_WORDS || j > MAX_FRAGMENT_WORDS) continue;
+
+      // A single matching word is only trusted when it is long and right at the cut
+      if (length === 1 && (previousNorm[i].length < 4 || droppedPrevious > 0 || j > 0)) continue;
+
+      const score = length - 0.5 * (droppedPrevious + j);
+      if (!best || score > best.score) {
+        best = { previousStart: i, nextStart: j, length, score };
+      }
+    }
+  }
+
+  return best ? { previousStart: best.previousStart, nextStart: best.nextStart, length: best.length } : null;
+};
+
+/**
+ * Word timings of a segment per token, when the engine reported one word per token
+ */
+const alignedWords = (segment: TranscriptSegment, tokens: string[]): TranscriptWord[] | null => {
+  return segment.words && segment.words.length === tokens.length ? segment.words : null;
+};
+
+/**
+ * Build a segment from its new tokens and word timings
+ */
+const withWords = (segment: TranscriptSegment, tokens: string[], words: TranscriptWord[] | undefined): TranscriptSegment => {
+  return {
+    ...segment,
+    text: tokens.join(' '),
+    startTime: words && words.length > 0 ? words[0].startTime : segment.startTime,
+    endTime: words && words.length > 0 ? words[words.length - 1].endTime : segment.endTime,
+    words: words && words.length > 0 ? words : undefined,
+  };
+};
+
+/**
+ * Split the overlap in the middle by word timings, for when the texts cannot be aligned
+ */
+const mergeByTime = (previous: TranscriptSegment, next: TranscriptSegment, overlapMs: number): SeamMergeResult => {
+  if (!previous.words || !next.words) {
+    return { previous, next, previousChanged: false };
+  }
+
+  const seamTime = next.startTime + overlapMs / 2;
+  const middle = (word: { startTime: number; endTime: number }) => (word.startTime + word.endTime) / 2;
+
+  const previousWords = previous.words.filter((word) => middle(word) < seamTime);
+  const nextWords = next.words.filter((word) => middle(word) >= seamTime);
+  const previousChanged = previousWords.length !== previous.words.length;
+
+  return {
+    previous: previousChanged
+      ? {
+          ...previous,
+          text: previousWords.map((word) => word.text).join(' '),
+          endTime: previousWords.length > 0 ? previousWords[previousWords.length - 1].endTime : previous.endTime,
+          words: previousWords,
+        }
+      : previous,
+    next: nextWords.length === 0
+      ? null
+      : nextWords.length === next.words.length
+        ? next
+        : {
+            ...next,
+            text: nextWords.map((word) => word.text).join(' '),
+            startTime: nextWords[0].startTime,
+            words: nextWords,
+          },
+    previousChanged,
+  };
+};
+
+/**
+ * Merge a segment with the one before it, whose last overlapMs of audio it repeats
+ */
+export const mergeSeam = (previous: TranscriptSegment, next: TranscriptSegment, overlapMs: number): SeamMergeResult => {
+  const previousTokens = previous.text.split(/\s+/).filter(Boolean);
+  const nextTokens = next.text.split(/\s+/).filter(Boolean);
+
+  const seam = findSeam(previousTokens, nextTokens);
+  if (!seam) {
+    return mergeByTime(previous, next, overlapMs);
+  }
+
+  const previousWords = alignedWords(previous, previousTokens);
+  const nextWords = alignedWords(next, nextTokens);
+
+  // The previous transcript ends where the shared words begin
+  const keptPrevious = previousTokens.slice(0, seam.previousStart);
+  const previousChanged = keptPrevious.length < previousTokens.length;
+  const mergedPrevious = previousChanged
+    ? withWords(
+        previous,
+        keptPrevious,
+        previousWords
+          ? previousWords.slice(0, seam.previousStart)
+          : previous.words?.slice(0, previous.words.length - (previousTokens.length - seam.previousStart))
+      )
+    : previous;
+
+  // The next transcript starts with the shared words, taking whichever version of each word is whole
+  const tokens: string[] = [];
+  const words: TranscriptWord[] = [];
+  for (let k = 0; k < seam.length; k++) {
+    const previousToken = previousTokens[seam.previousStart + k];
+    const nextToken = nextTokens[seam.nextStart + k];
+    const usePrevious = normalizeWord(previousToken).length > normalizeWord(nextToken).length;
+    tokens.push(usePrevious ? previousToken : nextToken);
+
+    const word = usePrevious ? previousWords?.[seam.previousStart + k] : nextWords?.[seam.nextStart + k];
+    if (word) words.push({ ...word, text: tokens[k] });
+  }
+  const restStart = seam.nextStart + seam.length;
+  tokens.push(...nextTokens.slice(restStart));
+
+  const mergedNext = withWords(
+    next,
+    tokens,
+    previousWords && nextWords
+      ? [...words, ...nextWords.slice(restStart)]
+      : next.words?.slice(Math.min(seam.nextStart, next.words.length))
+  );
+
+  return {
+    previous: mergedPrevious,
+    next: tokens.length > 0 ? mergedNext : null,
+    previousChanged,
+  };
+};
+
+/**
+ * Creates a merger that emits chunk transcripts in recording order, merging each overlapping
+ * chunk into the one before it. Transcriptions may finish in any order.
+ */
+export const createSeamMerger = (options: SeamMergerOptions): SeamMergerInstance => {
+  const { onSegment, debug = false } = options;
+
+  // Merger state
+  let queue: Promise<void> = Promise.resolve();
+  let last: TranscriptSegment | null = null;
+
+  /**
+   * Queue the transcription of the next chunk; the returned promise settles once it is emitted
+   */
+  const submit = (overlapMs: number, transcription: Promise<TranscriptSegment[]>): Promise<void> => {
+    queue = queue.then(async () => {
+      const segments = await transcription.catch(() => [] as TranscriptSegment[]);
+
+      if (segments.length === 0) {
+        last = null;
+        return;
+      }
+
+      const [first, ...rest] = segments;
+      let emitted: TranscriptSegment[] = segments;
+
+      // Placeholders for failed chunks have no words to align
+      if (overlapMs > 0 && last && !last.dropped && !first.dropped) {
+        const merged = mergeSeam(last, first, overlapMs);
+        if (debug) console.log(`Merged chunk seam: "${merged.previous.text.slice(-40)}" | "${merged.next?.text.slice(0, 40) ?? ''}"`);
+
+        // The previous segment keeps its id, so re-emitting it replaces the earlier version
+        if (merged.previousChanged) {
+          onSegment(merged.previous);
+        }
+        emitted = merged.next ? [merged.next, ...rest] : rest;
+        last = merged.previous;
+      }
+
+      emitted.forEach((segment) => onSegment(segment));
+      if (emitted.length > 0) {
+        last = emitted[emitted.length - 1];
+      }
+    });
+    return queue;
+  };
+
+  /**
+   * Start a new recording: chunks submitted from now on do not continue the previous ones
+   */
+  const reset = (): void => {
+    queue = queue.then(() => {
+      last = null;
+    });
+  };
+
+  // Return the merger instance
+  return {
+    submit,
+    reset,
+  };
+};
+
+export default createSeamMerger;
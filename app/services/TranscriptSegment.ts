@@ -0,0 +1,146 @@
+/**
+ * TranscriptSegment.ts
+ * The structured transcript model emitted by every speech recognition engine
+ */
+
+import type { STTApi } from './SpeechRecognitionService';
+import type { SpeakerRole } from './SpeakerRoles';
+
+// Interim segments may still change; final segments will not
+export type TranscriptSegmentStatus = 'interim' | 'final';
+
+// A recognised word in session time
+export interface TranscriptWord {
+  text: string;
+  startTime: number; // milliseconds since the session started
+  endTime: number;
+  confidence?: number;
+  speaker?: string;
+}
+
+export interface TranscriptSegment {
+  id: string; // stable across interim updates of the same utterance
+  status: TranscriptSegmentStatus;
+  startTime: number; // milliseconds since the session started
+  endTime: number;
+  text: string;
+  confidence?: number; // 0-1, when the engine reports it
+  engine: STTApi;
+  language?: string;
+  speaker?: string; // diarization label from the engine, e.g. 'A' or '1'
+  role?: SpeakerRole; // manual role override for this segment
+  words?: TranscriptWord[]; // word timings, when the engine reports them
+  dropped?: boolean; // placeholder for audio whose transcription failed
+}
+
+export type TranscriptSegmentListener = (segment: TranscriptSegment) => void;
+
+// Consecutive segments transcribed by the same engine
+export interface EngineRun {
+  engine: STTApi;
+  startTime: number;
+  endTime: number;
+  segmentCount: number;
+}
+
+// Word timing returned by the transcription routes
+export interface WordTiming {
+  text: string;
+  start: number; // milliseconds from the start of the uploaded audio
+  end: number;
+  confidence?: number;
+  speaker?: string;
+}
+
+// Speaker turn returned by the transcription routes when diarization is enabled
+export interface SpeakerUtterance {
+  speaker: string;
+  text: string;
+  start?: number; // milliseconds from the start of the uploaded audio
+  end?: number;
+  confidence?: number;
+  words?: WordTiming[];
+}
+
+let segmentCounter = 0;
+
+/**
+ * Create a unique segment id for an engine
+ */
+export const createSegmentId = (engine: STTApi): string => {
+  segmentCounter += 1;
+  return `${engine}-${Date.now().toString(36)}-${segmentCounter}`;
+};
+
+// Text standing in for audio that could not be transcribed
+export const DROPPED_SEGMENT_TEXT = '[not transcribed]';
+
+/**
+ * A final placeholder for a stretch of audio whose transcription failed for good
+ */
+export const createDroppedSegment = (engine: STTApi, startTime: number, endTime: number): TranscriptSegment => ({
+  id: createSegmentId(engine),
+  status: 'final',
+  startTime,
+  endTime,
+  text: DROPPED_SEGMENT_TEXT,
+  engine,
+  dropped: true,
+});
+
+/**
+ * Insert a segment, or replace the earlier version with the same id
+ */
+export const upsertSegment = (segments: TranscriptSegment[], segment: TranscriptSegment): TranscriptSegment[] => {
+  const index = segments.findIndex((existing) => existing.id === segment.id);
+  if (index === -1) {
+    return [...segments, segment];
+  }
+
+  const updated = [...segments];
+  updated[index] = segment;
+  return updated;
+};
+
+/**
+ * Join segment texts into a plain transcript
+ */
+export const segmentsToText = (segments: TranscriptSegment[]): string => {
+  return segments
+    .map((segment) => segment.text.trim())
+    .filter(Boolean)
+    .join(' ');
+};
+
+/**
+ * Shift word timings of an uploaded chunk to session time
+ */
+export const offsetWords = (words: WordTiming[] | undefined, offset: number): TranscriptWord[] | undefined => {
+  if (!words || words.length === 0) return undefined;
+
+  return words.map((word) => ({
+    text: word.text,
+    startTime: offset + word.start,
+    endTime: offset + word.end,
+    confidence: word.confidence,
+    speaker: word.speaker,
+  }));
+};
+
+/**
+ * Split the transcript into the stretches each engine produced, in time order
+ */
+export const getEngineRuns = (segments: TranscriptSegment[]): EngineRun[] => {
+  const sorted = [...segments].sort((a, b) => a.startTime - b.startTime);
+
+  return sorted.reduce<EngineRun[]>((runs, segment) => {
+    const last = runs[runs.length - 1];
+    if (last && last.engine === segment.engine) {
+      last.endTime = Math.max(last.endTime, segment.endTime);
+      last.segmentCount++;
+    } else {
+      runs.push({ engine: segment.engine, startTime: segment.startTime, endTime: segment.endTime, segmentCount: 1 });
+    }
+    return runs;
+  }, []);
+};
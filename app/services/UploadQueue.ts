@@ -0,0 +1,196 @@
+/**
+ * UploadQueue.ts
+ * Sequenced, bounded and retried uploads of the chunked engines' speech segments
+ *
+ * Every segment of a session gets the next sequence number. At most `concurrency` uploads run at
+ * once; the rest wait their turn in sequence order. Each attempt is aborted after `timeoutMs`, and
+ * failed attempts are retried with exponentially growing delays as long as the failure may be
+ * temporary (timeouts, HTTP 408, 429 and 5xx). A job that runs out of attempts rejects, so the
+ * engine can mark its audio as missing in the transcript. When the network is down a job rejects
+ * at once, so the offline buffer can hold its audio without it blocking the queue.
+ */
+
+// Tunable upload settings, exposed through SpeechRecognitionServiceOptions
+export interface UploadQueueConfig {
+  concurrency?: number; // uploads in flight at once
+  maxAttempts?: number; // attempts per segment, including the first
+  retryDelayMs?: number; // delay before the first retry, doubled for each further one
+  maxRetryDelayMs?: number; // upper bound of the retry delay
+  timeoutMs?: number; // an attempt taking longer is aborted and counts as failed
+}
+
+export interface UploadQueueOptions extends UploadQueueConfig {
+  label?: string; // name used in log messages
+  debug?: boolean;
+}
+
+// What an upload function is told about the attempt it makes
+export interface UploadAttempt {
+  sequence: number;
+  attempt: number; // 1 for the first attempt
+  signal: AbortSignal; // aborted when the attempt times out
+}
+
+export interface UploadJob<T> {
+  sequence: number;
+  result: Promise<T>; // rejects once every attempt has failed
+}
+
+export interface UploadQueueInstance {
+  add: <T>(upload: (attempt: UploadAttempt) => Promise<T>) => UploadJob<T>;
+  reset: () => void;
+  getPendingCount: () => number;
+}
+
+/**
+ * A failed upload; `status` is the HTTP status when the server answered
+ */
+export class UploadError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+/**
+ * Whether another attempt could succeed where this one failed
+ */
+export const isRetryableUploadError = (error: unknown): boolean => {
+  if (!(error instanceof UploadError) || error.status === undefined) return true;
+  return error.status === 408 || error.status === 429 || error.status >= 500;
+};
+
+/**
+ * Whether an upload failed because the network is down rather than because of the server
+ */
+export const isConnectivityError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  // fetch rejects with a TypeError when no response arrives at all
+  return error instanceof TypeError;
+};
+
+/**
+ * Creates a queue that uploads one session's segments in order, a few at a time
+ */
+export const createUploadQueue = (options: UploadQueueOptions = {}): UploadQueueInstance => {
+  // Default options
+  const {
+    concurrency = 2,
+    maxAttempts = 4,
+    retryDelayMs = 1000,
+    maxRetryDelayMs = 8000,
+    timeoutMs = 30000,
+    label = 'Upload',
+    debug = false,
+  } = options;
+
+  // Queue state
+  let nextSequence = 1;
+  let active = 0;
+  let pending = 0;
+  const waiting: (() => void)[] = [];
+
+  /**
+   * Wait for a free upload slot; slots are handed out in the order they were asked for
+   */
+  const acquire = (): Promise<void> => {
+    if (active < Math.max(1, concurrency)) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => waiting.push(resolve));
+  };
+
+  /**
+   * Pass the slot on to the next waiting upload, or free it
+   */
+  const release = (): void => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  /**
+   * Make one attempt, aborting it when it takes longer than the timeout
+   */
+  const attemptUpload = async <T>(upload: (attempt: UploadAttempt) => Promise<T>, sequence: number, attempt: number): Promise<T> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      return await upload({ sequence, attempt, signal: controller.signal });
+    } catch (error) {
+      throw timedOut ? new UploadError(`${label} #${sequence} timed out after ${Math.round(timeoutMs / 1000)}s`) : error;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  /**
+   * Run a job's attempts in its slot until one succeeds or retrying is pointless
+   */
+  const run = async <T>(upload: (attempt: UploadAttempt) => Promise<T>, sequence: number): Promise<T> => {
+    await acquire();
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await attemptUpload(upload, sequence, attempt);
+        } catch (error) {
+          // Without a network the offline buffer holds the segment; retrying here only blocks the slot
+          if (isConnectivityError(error)) {
+            if (debug) console.log(`${label} #${sequence} failed, the network is unavailable`);
+            throw error;
+          }
+
+          if (attempt >= maxAttempts || !isRetryableUploadError(error)) {
+            console.error(`${label} #${sequence} failed after ${attempt} attempt(s):`, error);
+            throw error;
+          }
+
+          const delay = Math.min(maxRetryDelayMs, retryDelayMs * Math.pow(2, attempt - 1));
+          if (debug) console.log(`${label} #${sequence} attempt ${attempt} failed, retrying in ${delay}ms`);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    } finally {
+      release();
+    }
+  };
+
+  /**
+   * Queue the upload of the session's next segment
+   */
+  const add = <T>(upload: (attempt: UploadAttempt) => Promise<T>): UploadJob<T> => {
+    const sequence = nextSequence++;
+    pending++;
+    if (debug) console.log(`${label} #${sequence} queued (${pending} pending)`);
+
+    const result = run(upload, sequence);
+    result.then(
+      () => { pending--; },
+      () => { pending--; }
+    );
+
+    return { sequence, result };
+  };
+
+  // Return the queue instance
+  return {
+    add,
+    // A new session numbers its segments from 1; uploads of the previous one still finish
+    reset: () => {
+      nextSequence = 1;
+    },
+    getPendingCount: () => pending,
+  };
+};
+
+export default createUploadQueue;
@@ -0,0 +1,122 @@
+/**
+ * UsageMetricsService.ts
+ * A service for reading the per-engine usage figures and telling the server who is consulting
+ *
+ * The API routes attribute usage to the clinician named in a cookie set here, so every request
+ * the page makes carries it without the engines knowing about it.
+ */
+
+import type { UsageReport, UsageReportRow } from '../lib/usageMetrics';
+import { CLINICIAN_COOKIE } from '../lib/clinician';
+
+export type { UsageReport, UsageReportRow };
+
+export interface UsageFilter {
+  from?: string; // YYYY-MM-DD, UTC
+  to?: string;
+  engine?: string;
+  clinician?: string;
+}
+
+export interface UsageMetricsServiceOptions {
+  debug?: boolean;
+}
+
+export interface UsageMetricsServiceInstance {
+  getReport: (filter?: UsageFilter) => Promise<UsageReport>;
+  getCsvUrl: (filter?: UsageFilter) => string;
+  reportStreamedAudio: (usageSessionId: string, audioSeconds: number) => Promise<void>;
+}
+
+/**
+ * The clinician named in the cookie, empty when none is set
+ */
+export const getClinicianName = (): string => {
+  if (typeof document === 'undefined') return '';
+
+  const cookie = document.cookie.split('; ').find((entry) => entry.startsWith(`${CLINICIAN_COOKIE}=`));
+  if (!cookie) return '';
+
+  try {
+    return decodeURIComponent(cookie.slice(CLINICIAN_COOKIE.length + 1));
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Name the clinician the following requests are for; an empty name clears it
+ */
+export const setClinicianName = (name: string): void => {
+  if (typeof document === 'undefined') return;
+
+  const value = name.trim();
+  document.cookie = value
+    ? `${CLINICIAN_COOKIE}=${encodeURIComponent(value)}; path=/; max-age=${365 * 24 * 60 * 60}; SameSite=Lax`
+    : `${CLINICIAN_COOKIE}=; path=/; max-age=0; SameSite=Lax`;
+};
+
+export const createUsageMetricsService = (
+  options: UsageMetricsServiceOptions = {}
+): UsageMetricsServiceInstance => {
+  // Default options
+  const {
+    debug = true,
+  } = options;
+
+  /**
+   * Query string of a filter
+   */
+  const toQuery = (filter: UsageFilter = {}, extra: Record<string, string> = {}): string => {
+    const params = new URLSearchParams(extra);
+    Object.entries(filter).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    const query = params.toString();
+    return query ? `?${query}` : '';
+  };
+
+  /**
+   * Usage per day, engine and clinician, with the estimated costs
+   */
+  const getReport = async (filter?: UsageFilter): Promise<UsageReport> => {
+    const response = await fetch(`/api/metrics${toQuery(filter)}`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(`Failed to load usage metrics: ${data.error || response.statusText}`);
+    }
+
+    const report: UsageReport = await response.json();
+    if (debug) console.log(`Loaded usage metrics from ${report.from} to ${report.to}: ${report.rows.length} rows`);
+    return report;
+  };
+
+  /**
+   * Record audio an engine streamed straight to its provider, which the server never saw, against
+   * the usage session the server opened with the engine's token
+   */
+  const reportStreamedAudio = async (usageSessionId: string, audioSeconds: number): Promise<void> => {
+    if (audioSeconds <= 0) return;
+
+    const response = await fetch('/api/metrics', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: usageSessionId, audioSeconds }),
+      keepalive: true, // the page may be closing when a session ends
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to report streamed audio: ${response.statusText}`);
+    }
+
+    if (debug) console.log(`Reported ${audioSeconds.toFixed(1)}s of streamed audio for session ${usageSessionId}`);
+  };
+
+  // Return the service instance
+  return {
+    getReport,
+    getCsvUrl: (filter?: UsageFilter) => `/api/metrics${toQuery(filter, { format: 'csv' })}`,
+    reportStreamedAudio,
+  };
+};
+
+export default createUsageMetricsService;
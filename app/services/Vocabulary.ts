@@ -0,0 +1,287 @@
+/**
+ * Vocabulary.ts
+ * The clinic vocabulary (drug names, procedures, staff names, abbreviations) and its
+ * translation into the biasing mechanism of each speech recognition engine
+ */
+
+export type VocabularyCategory = 'drug' | 'procedure' | 'person' | 'abbreviation' | 'other';
+
+export interface VocabularyTerm {
+  term: string; // written the way it should appear in the transcript
+  category: VocabularyCategory;
+  boost?: number; // 1-20, how strongly engines should prefer the term
+}
+
+// Google Cloud Speech phrase hints with a shared boost
+export interface SpeechContext {
+  phrases: string[];
+  boost?: number;
+}
+
+export type VocabularyListener = (terms: VocabularyTerm[]) => void;
+
+export interface VocabularyStoreOptions {
+  storageKey?: string;
+}
+
+export interface VocabularyStoreInstance {
+  getTerms: () => VocabularyTerm[];
+  setTerms: (terms: VocabularyTerm[]) => void;
+  addTerm: (term: VocabularyTerm) => void;
+  removeTerm: (term: string) => void;
+  importCsv: (csv: string) => number;
+  exportCsv: () => string;
+  subscribe: (listener: VocabularyListener) => () => void;
+}
+
+export const VOCABULARY_CATEGORY_LABELS: Record<VocabularyCategory, string> = {
+  drug: 'Drug',
+  procedure: 'Procedure',
+  person: 'Person',
+  abbreviation: 'Abbreviation',
+  other: 'Other',
+};
+
+export const DEFAULT_BOOST = 10;
+
+// AssemblyAI rejects boosted phrases longer than six words
+const MAX_ASSEMBLYAI_WORDS = 6;
+
+// Google limits phrases to 100 characters
+const MAX_GOOGLE_PHRASE_LENGTH = 100;
+
+/**
+ * Keep the boost within 1-20
+ */
+const clampBoost = (boost: number | undefined): number => {
+  if (boost === undefined || !Number.isFinite(boost)) return DEFAULT_BOOST;
+  return Math.min(20, Math.max(1, Math.round(boost)));
+};
+
+/**
+ * Trim terms, fill in defaults and drop empty and duplicate entries (the last one wins)
+ */
+export const normalizeVocabulary = (terms: VocabularyTerm[]): VocabularyTerm[] => {
+  const byKey = new Map<string, VocabularyTerm>();
+
+  terms.forEach((entry) => {
+    const term = entry.term.trim().replace(/\s+/g, ' ');
+    if (!term) return;
+
+    byKey.set(term.toLowerCase(), {
+      term,
+      category: entry.category in VOCABULARY_CATEGORY_LABELS ? entry.category : 'other',
+      boost: clampBoost(entry.boost),
+    });
+  });
+
+  return Array.from(byKey.values());
+};
+
+/**
+ * Most important terms first, for engines that only take a limited amount
+ */
+const byBoost = (terms: VocabularyTerm[]): VocabularyTerm[] => {
+  return [...terms].sort((a, b) => clampBoost(b.boost) - clampBoost(a.boost));
+};
+
+/**
+ * Split one CSV line, honouring quoted fields
+ */
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields.map((value) => value.trim());
+};
+
+/**
+ * Read terms from CSV with the columns term, category, boost (the header row is optional)
+ */
+export const parseVocabularyCsv = (csv: string): VocabularyTerm[] => {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+
+  const first = parseCsvLine(lines[0]).map((value) => value.toLowerCase());
+  const hasHeader = first[0] === 'term';
+  const categoryColumn = hasHeader ? first.indexOf('category') : 1;
+  const boostColumn = hasHeader ? first.indexOf('boost') : 2;
+
+  const terms = (hasHeader ? lines.slice(1) : lines).map((line) => {
+    const fields = parseCsvLine(line);
+    const category = (fields[categoryColumn] || '').toLowerCase() as VocabularyCategory;
+    const boost = boostColumn >= 0 && fields[boostColumn] ? Number(fields[boostColumn]) : undefined;
+
+    return { term: fields[0] || '', category, boost };
+  });
+
+  return normalizeVocabulary(terms);
+};
+
+/**
+ * Write terms as CSV with a header row
+ */
+export const vocabularyToCsv = (terms: VocabularyTerm[]): string => {
+  const escape = (value: string) => (/[",;\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rows = terms.map((term) => [escape(term.term), term.category, String(clampBoost(term.boost))].join(','));
+  return ['term,category,boost', ...rows].join('\n') + '\n';
+};
+
+/**
+ * AssemblyAI word_boost: plain phrases of at most six words
+ */
+export const toAssemblyAIWordBoost = (terms: VocabularyTerm[]): string[] => {
+  return byBoost(terms)
+    .map((term) => term.term)
+    .filter((term) => term.split(' ').length <= MAX_ASSEMBLYAI_WORDS);
+};
+
+/**
+ * Google speechContexts: one context per boost level
+ */
+export const toGoogleSpeechContexts = (terms: VocabularyTerm[]): SpeechContext[] => {
+  const groups = new Map<number, string[]>();
+
+  terms
+    .filter((term) => term.term.length <= MAX_GOOGLE_PHRASE_LENGTH)
+    .forEach((term) => {
+      const boost = clampBoost(term.boost);
+      groups.set(boost, [...(groups.get(boost) || []), term.term]);
+    });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([boost, phrases]) => ({ phrases, boost }));
+};
+
+/**
+ * Whisper prompt terms, most important first because the prompt is truncated
+ */
+export const toWhisperVocabulary = (terms: VocabularyTerm[]): string[] => {
+  return byBoost(terms).map((term) => term.term);
+};
+
+/**
+ * Web Speech JSGF grammar listing every term as an alternative
+ */
+export const toJsgfGrammar = (terms: VocabularyTerm[]): string | null => {
+  // JSGF reserves these characters
+  const alternatives = terms
+    .map((term) => term.term.replace(/[;|*+<>()[\]{}=/"\\]/g, ' ').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  if (alternatives.length === 0) return null;
+  return `#JSGF V1.0; grammar vocabulary; public <term> = ${alternatives.join(' | ')} ;`;
+};
+
+/**
+ * Creates a vocabulary store persisted in localStorage
+ */
+export const createVocabularyStore = (options: VocabularyStoreOptions = {}): VocabularyStoreInstance => {
+  // Default options
+  const {
+    storageKey = 'clinicVocabulary',
+  } = options;
+
+  // Store state
+  const listeners = new Set<VocabularyListener>();
+
+  /**
+   * Load the saved terms
+   */
+  const load = (): VocabularyTerm[] => {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const saved = window.localStorage.getItem(storageKey);
+      return saved ? normalizeVocabulary(JSON.parse(saved)) : [];
+    } catch (error) {
+      console.error('Error loading the clinic vocabulary:', error);
+      return [];
+    }
+  };
+
+  let terms = load();
+
+  /**
+   * Replace every term, save and notify listeners
+   */
+  const setTerms = (updated: VocabularyTerm[]): void => {
+    terms = normalizeVocabulary(updated);
+
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(storageKey, JSON.stringify(terms));
+    }
+
+    listeners.forEach((listener) => listener(terms));
+  };
+
+  /**
+   * Add a term, replacing an existing entry with the same spelling
+   */
+  const addTerm = (term: VocabularyTerm): void => {
+    setTerms([...terms, term]);
+  };
+
+  /**
+   * Remove a term
+   */
+  const removeTerm = (term: string): void => {
+    setTerms(terms.filter((entry) => entry.term.toLowerCase() !== term.toLowerCase()));
+  };
+
+  /**
+   * Merge terms from CSV into the vocabulary, returns how many were read
+   */
+  const importCsv = (csv: string): number => {
+    const imported = parseVocabularyCsv(csv);
+    setTerms([...terms, ...imported]);
+    return imported.length;
+  };
+
+  /**
+   * Listen to vocabulary changes, returns an unsubscribe function
+   */
+  const subscribe = (listener: VocabularyListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // Return the store instance
+  return {
+    getTerms: () => terms,
+    setTerms,
+    addTerm,
+    removeTerm,
+    importCsv,
+    exportCsv: () => vocabularyToCsv(terms),
+    subscribe,
+  };
+};
+
+export default createVocabularyStore;
@@ -0,0 +1,398 @@
+/**
+ * VoiceActivityDetector.ts
+ * Voice activity detection and speech segmentation for the chunked engines
+ *
+ * Audio is analysed in short windows. A window counts as speech when its energy is well above
+ * an adaptive noise floor and its spectrum looks like a voice (energy concentrated in the speech
+ * band, not flat like fan noise, not dominated by hiss). Onset and hangover timers turn the
+ * per-window decisions into segments that respect a minimum and maximum length. When a segment
+ * is cut at the maximum length, the next one can repeat its last moments so a word spoken
+ * across the cut is heard whole in at least one of them.
+ */
+
+import { AudioFrame } from './AudioCaptureService';
+
+// Tunable detection settings, exposed through SpeechRecognitionServiceOptions
+export interface VadConfig {
+  calibrationMs?: number; // initial noise measurement before detection starts
+  windowMs?: number; // analysis window length
+  speechRatio?: number; // energy must exceed noise floor * ratio to count as speech
+  minEnergy?: number; // absolute RMS below which audio is never speech
+  noiseAdaptRate?: number; // how quickly the noise floor follows non-speech audio (0-1)
+  minBandRatio?: number; // share of energy that must sit in the 300-3400 Hz band
+  maxFlatness?: number; // spectral flatness above which audio is treated as noise
+  maxZeroCrossingRate?: number; // zero-crossing rate above which audio is treated as hiss
+  onsetMs?: number; // continuous speech required to open a segment
+  hangoverMs?: number; // continuous silence required to close a segment
+  preRollMs?: number; // audio kept from before the onset
+  minSegmentMs?: number; // shorter segments are discarded as clicks and coughs
+  maxSegmentMs?: number; // longer segments are cut even if speech continues
+  overlapMs?: number; // audio repeated at the start of the segment following a cut
+}
+
+export interface VoiceSegment {
+  samples: Float32Array;
+  sampleRate: number;
+  startTime: number; // milliseconds of session audio
+  endTime: number;
+  reason: 'silence' | 'maxLength' | 'cut' | 'flush'; // cut: emitted on request while speech continues
+  overlapMs: number; // leading audio that repeats the end of the previous segment
+}
+
+export interface VoiceActivityDetectorOptions extends VadConfig {
+  onSegment: (segment: VoiceSegment) => void;
+  onSpeechStart?: (timestamp: number) => void;
+  debug?: boolean;
+}
+
+export interface VoiceActivityDetectorInstance {
+  process: (frame: AudioFrame) => void;
+  flush: () => void;
+  cut: () => void;
+  reset: () => void;
+  isSpeaking: () => boolean;
+  isCalibrating: () => boolean;
+  getNoiseFloor: () => number;
+}
+
+// Features computed for every analysis window
+interface WindowFeatures {
+  rms: number;
+  zeroCrossingRate: number;
+  bandRatio: number;
+  flatness: number;
+}
+
+// An analysed window of audio
+interface AudioWindow {
+  samples: Float32Array;
+  timestamp: number;
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+export const fft = (re: Float64Array, im: Float64Array): void => {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + size / 2;
+        const oddRe = re[oddIndex] * cos - im[oddIndex] * sin;
+        const oddIm = re[oddIndex] * sin + im[oddIndex] * cos;
+        re[oddIndex] = re[evenIndex] - oddRe;
+        im[oddIndex] = im[evenIndex] - oddIm;
+        re[evenIndex] += oddRe;
+        im[evenIndex] += oddIm;
+      }
+    }
+  }
+};
+
+/**
+ * Compute the detection features of a window
+ */
+const analyseWindow = (samples: Float32Array, sampleRate: number): WindowFeatures => {
+  let sumSquares = 0;
+  let crossings = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+    if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) {
+      crossings++;
+    }
+  }
+
+  // Hann-windowed power spectrum
+  let size = 1;
+  while (size < samples.length) size <<= 1;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < samples.length; i++) {
+    re[i] = samples[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (samples.length - 1)));
+  }
+  fft(re, im);
+
+  const binHz = sampleRate / size;
+  let totalPower = 0;
+  let bandPower = 0;
+  let logSum = 0;
+  const bins = size / 2;
+
+  for (let k = 1; k <= bins; k++) {
+    const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+    const frequency = k * binHz;
+    totalPower += power;
+    logSum += Math.log(power);
+    if (frequency >= 300 && frequency <= 3400) {
+      bandPower += power;
+    }
+  }
+
+  return {
+    rms: Math.sqrt(sumSquares / samples.length),
+    zeroCrossingRate: crossings / samples.length,
+    bandRatio: bandPower / totalPower,
+    flatness: Math.exp(logSum / bins) / (totalPower / bins),
+  };
+};
+
+/**
+ * Join windows into a single buffer
+ */
+const concatWindows = (windows: AudioWindow[]): Float32Array => {
+  const length = windows.reduce((acc, window) => acc + window.samples.length, 0);
+  const result = new Float32Array(length);
+  let offset = 0;
+  for (const window of windows) {
+    result.set(window.samples, offset);
+    offset += window.samples.length;
+  }
+  return result;
+};
+
+/**
+ * Creates a voice activity detector
+ */
+export const createVoiceActivityDetector = (options: VoiceActivityDetectorOptions): VoiceActivityDetectorInstance => {
+  // Default options
+  const {
+    onSegment,
+    onSpeechStart,
+    calibrationMs = 500,
+    windowMs = 20,
+    speechRatio = 3,
+    minEnergy = 0.002,
+    noiseAdaptRate = 0.05,
+    minBandRatio = 0.5,
+    maxFlatness = 0.6,
+    maxZeroCrossingRate = 0.45,
+    onsetMs = 60,
+    hangoverMs = 600,
+    preRollMs = 200,
+    minSegmentMs = 400,
+    maxSegmentMs = 10000,
+    overlapMs = 0,
+    debug = false,
+  } = options;
+
+  // Detector state
+  let sampleRate = 0;
+  let windowSize = 0;
+  let remainder = new Float32Array(0);
+  let calibrationLevels: number[] = [];
+  let calibrating = true;
+  let noiseFloor = minEnergy;
+  let speaking = false;
+  let speechRunMs = 0;
+  let silenceRunMs = 0;
+  let preRoll: AudioWindow[] = [];
+  let segment: AudioWindow[] = [];
+  let segmentOverlapMs = 0;
+
+  // Never repeat more than half a segment
+  const overlapWindows = Math.min(Math.round(overlapMs / windowMs), Math.floor(maxSegmentMs / windowMs / 2));
+
+  /**
+   * Emit the current segment and return to silence
+   */
+  const closeSegment = (reason: VoiceSegment['reason']): void => {
+    if (segment.length === 0) return;
+
+    // Nothing new since the cut, only the repeated audio
+    if (segment.length * windowMs <= segmentOverlapMs) {
+      segment = [];
+      segmentOverlapMs = 0;
+      return;
+    }
+
+    const startTime = segment[0].timestamp;
+    const endTime = segment[segment.length - 1].timestamp + windowMs;
+    const samples = concatWindows(segment);
+    const overlap = segmentOverlapMs;
+
+    // Carry the end of a cut segment over into the next one
+    const continues = reason === 'maxLength' || reason === 'cut';
+    if (continues && overlapWindows > 0) {
+      segment = segment.slice(-overlapWindows);
+      segmentOverlapMs = segment.length * windowMs;
+    } else {
+      segment = [];
+      segmentOverlapMs = 0;
+    }
+
+    if (!continues && endTime - startTime < minSegmentMs) {
+      if (debug) console.log(`VAD discarded ${Math.round(endTime - startTime)}ms segment (< ${minSegmentMs}ms)`);
+      return;
+    }
+
+    if (debug) console.log(`VAD segment ${Math.round(startTime)}-${Math.round(endTime)}ms closed by ${reason}`);
+
+    onSegment({ samples, sampleRate, startTime, endTime, reason, overlapMs: overlap });
+  };
+
+  /**
+   * Run one analysis window through the state machine
+   */
+  const processWindow = (window: AudioWindow): void => {
+    const features = analyseWindow(window.samples, sampleRate);
+
+    // Measure the room before making any decisions
+    if (calibrating) {
+      calibrationLevels.push(features.rms);
+      if (calibrationLevels.length * windowMs >= calibrationMs) {
+        // The median is robust against someone talking during calibration
+        const sorted = [...calibrationLevels].sort((a, b) => a - b);
+        noiseFloor = Math.max(minEnergy / speechRatio, sorted[Math.floor(sorted.length / 2)]);
+        calibrating = false;
+        calibrationLevels = [];
+        if (debug) console.log(`VAD calibrated, noise floor ${noiseFloor.toFixed(5)}`);
+      }
+      return;
+    }
+
+    const isSpeech =
+      features.rms >= Math.max(minEnergy, noiseFloor * speechRatio) &&
+      features.bandRatio >= minBandRatio &&
+      features.flatness <= maxFlatness &&
+      features.zeroCrossingRate <= maxZeroCrossingRate;
+
+    // Follow the background level while nobody is speaking
+    if (!isSpeech) {
+      noiseFloor = features.rms < noiseFloor
+        ? Math.max(features.rms, minEnergy / speechRatio)
+        : noiseFloor + (features.rms - noiseFloor) * noiseAdaptRate;
+    }
+
+    if (!speaking) {
+      preRoll.push(window);
+      const maxPreRoll = Math.ceil((preRollMs + onsetMs) / windowMs);
+      if (preRoll.length > maxPreRoll) {
+        preRoll.shift();
+      }
+
+      speechRunMs = isSpeech ? speechRunMs + windowMs : 0;
+
+      // Onset: enough consecutive speech to open a segment
+      if (speechRunMs >= onsetMs) {
+        speaking = true;
+        silenceRunMs = 0;
+        segment = preRoll;
+        segmentOverlapMs = 0;
+        preRoll = [];
+        if (onSpeechStart) onSpeechStart(segment[0].timestamp);
+      }
+      return;
+    }
+
+    segment.push(window);
+    silenceRunMs = isSpeech ? 0 : silenceRunMs + windowMs;
+
+    // Hangover: the speaker has really stopped
+    if (silenceRunMs >= hangoverMs) {
+      speaking = false;
+      speechRunMs = 0;
+      closeSegment('silence');
+      return;
+    }
+
+    // Cut overly long segments and keep going
+    if (segment.length * windowMs >= maxSegmentMs) {
+      closeSegment('maxLength');
+    }
+  };
+
+  /**
+   * Feed a captured frame into the detector
+   */
+  const process = (frame: AudioFrame): void => {
+    if (frame.sampleRate !== sampleRate) {
+      sampleRate = frame.sampleRate;
+      windowSize = Math.max(1, Math.round((sampleRate * windowMs) / 1000));
+      remainder = new Float32Array(0);
+    }
+
+    // Prepend the samples left over from the previous frame
+    const samples = new Float32Array(remainder.length + frame.samples.length);
+    samples.set(remainder);
+    samples.set(frame.samples, remainder.length);
+    const startTime = frame.timestamp - (remainder.length / sampleRate) * 1000;
+
+    let offset = 0;
+    for (; offset + windowSize <= samples.length; offset += windowSize) {
+      processWindow({
+        samples: samples.slice(offset, offset + windowSize),
+        timestamp: startTime + (offset / sampleRate) * 1000,
+      });
+    }
+
+    remainder = samples.slice(offset);
+  };
+
+  /**
+   * Emit whatever speech is buffered right now
+   */
+  const flush = (): void => {
+    if (speaking) {
+      speaking = false;
+      speechRunMs = 0;
+      silenceRunMs = 0;
+      closeSegment('flush');
+    }
+  };
+
+  /**
+   * Emit the speech buffered so far without ending it, like a length cut
+   */
+  const cut = (): void => {
+    if (speaking) {
+      closeSegment('cut');
+    }
+  };
+
+  /**
+   * Drop all state and recalibrate on the next frames
+   */
+  const reset = (): void => {
+    remainder = new Float32Array(0);
+    calibrationLevels = [];
+    calibrating = true;
+    noiseFloor = minEnergy;
+    speaking = false;
+    speechRunMs = 0;
+    silenceRunMs = 0;
+    preRoll = [];
+    segment = [];
+    segmentOverlapMs = 0;
+  };
+
+  // Return the detector instance
+  return {
+    process,
+    flush,
+    cut,
+    reset,
+    isSpeaking: () => speaking,
+    isCalibrating: () => calibrating,
+    getNoiseFloor: () => noiseFloor,
+  };
+};
+
+export default createVoiceActivityDetector;
@@ -3,19 +3,30 @@
  * A service for speech-to-text processing using the Web Speech API
  */
 
+import { createSegmentId, TranscriptSegmentListener } from './TranscriptSegment';
+import { EngineReportListener } from './EngineHealth';
+
 // Define types for the service
 export interface WebSpeechServiceOptions {
-  onTranscriptUpdate: (text: string) => void;
+  onSegment: TranscriptSegmentListener;
   onTranscriptionStart?: () => void;
+  onHealthReport?: EngineReportListener; // final results and recognition errors
+  clock?: () => number; // session time in milliseconds, when the session started before this engine
   continuous?: boolean;
   interimResults?: boolean;
   language?: string;
+  grammar?: string | null; // JSGF grammar of the clinic vocabulary
 }
 
+// SpeechGrammarList is not in the DOM types
+type GrammarListConstructor = new () => { addFromString: (grammar: string, weight?: number) => void };
+
 export interface WebSpeechServiceInstance {
   start: () => Promise<void>;
+  resume: () => Promise<void>; // continue the session after stop() without starting a new one
   stop: () => void;
   isListening: () => boolean;
+  flush: () => void;
 }
 
 /**
@@ -24,81 +35,117 @@ export interface WebSpeechServiceInstance {
 export const createWebSpeechService = (options: WebSpeechServiceOptions): WebSpeechServiceInstance => {
   // Default options
   const {
-    onTranscriptUpdate,
+    onSegment,
     onTranscriptionStart,
+    onHealthReport,
+    clock,
     continuous = true,
     interimResults = true,
     language = 'en-US',
+    grammar = null,
   } = options;
 
   // Service state
   let recognition: any = null;
   let listening = false;
   
-  // Transcript history
-  let fullTranscript = '';
+  // Wall-clock start, for timing results when there is no session clock
+  let sessionStart = 0;
 
   /**
-   * Initialize the Web Speech API
+   * Create a configured recognition; results are indexed per recognition run
    */
-  const initialize = (): void => {
-    if (typeof window === 'undefined') {
-      throw new Error('Web Speech API is only available in browser environments');
-    }
-    
-    // Check if Web Speech API is supported
-    if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
-      throw new Error('Web Speech API is not supported in this browser');
-    }
-    
-    // Create recognition instance
+  const createRecognition = () => {
     // @ts-ignore - SpeechRecognition is not in the types
     const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    recognition = new SpeechRecognition();
+    const instance = new SpeechRecognition();
+    let resultIds: string[] = [];
+    let resultStartTimes: number[] = [];
     
     // Configure recognition
-    recognition.continuous = continuous;
-    recognition.interimResults = interimResults;
-    recognition.lang = language;
+    instance.continuous = continuous;
+    instance.interimResults = interimResults;
+    instance.lang = language;
     
-    // Set up event handlers
-    recognition.onstart = () => {
+    // Bias recognition towards the clinic vocabulary where the browser supports grammars
+    const grammarWindow = window as unknown as Record<'SpeechGrammarList' | 'webkitSpeechGrammarList', GrammarListConstructor | undefined>;
+    const SpeechGrammarList = grammarWindow.SpeechGrammarList || grammarWindow.webkitSpeechGrammarList;
+    if (grammar && SpeechGrammarList) {
+      const grammars = new SpeechGrammarList();
+      grammars.addFromString(grammar, 1);
+      instance.grammars = grammars;
+    }
+    
+    // Set up event handlers; a recognition replaced by flush() only delivers its last results
+    instance.onstart = () => {
       console.log('Web Speech recognition started');
-      listening = true;
+      if (instance === recognition) listening = true;
+      resultIds = [];
+      resultStartTimes = [];
     };
     
-    recognition.onend = () => {
+    instance.onend = () => {
       console.log('Web Speech recognition ended');
-      listening = false;
+      if (instance === recognition) listening = false;
     };
     
-    recognition.onerror = (event: any) => {
+    instance.onerror = (event: any) => {
+      if (instance !== recognition) return;
       console.error('Web Speech recognition error:', event.error);
+      
+      // Silence and deliberate stops are not failures of the engine
+      if (listening && event.error !== 'no-speech' && event.error !== 'aborted') {
+        onHealthReport?.({ ok: false, error: event.error, fatal: true });
+      }
       listening = false;
     };
     
-    recognition.onresult = (event: any) => {
-      let interimTranscript = '';
-      let finalTranscript = '';
+    instance.onresult = (event: any) => {
+      const now = clock ? clock() : Date.now() - sessionStart;
       
       for (let i = event.resultIndex; i < event.results.length; i++) {
-        const transcript = event.results[i][0].transcript;
-        if (event.results[i].isFinal) {
-          finalTranscript += transcript;
-        } else {
-          interimTranscript += transcript;
+        const result = event.results[i];
+        
+        // Each result index is one utterance that moves from interim to final
+        if (!resultIds[i]) {
+          resultIds[i] = createSegmentId('webSpeech');
+          resultStartTimes[i] = now;
+        }
+        
+        onSegment({
+          id: resultIds[i],
+          status: result.isFinal ? 'final' : 'interim',
+          startTime: resultStartTimes[i],
+          endTime: now,
+          text: result[0].transcript.trim(),
+          confidence: result.isFinal && result[0].confidence > 0 ? result[0].confidence : undefined,
+          engine: 'webSpeech',
+          language,
+        });
+        
+        if (result.isFinal) {
+          onHealthReport?.({ ok: true });
         }
-      }
-      
-      // If we have a final transcript, add it to the full transcript
-      if (finalTranscript) {
-        fullTranscript += ' ' + finalTranscript;
-        onTranscriptUpdate(fullTranscript.trim());
-      } else if (interimTranscript) {
-        // For interim results, send the combined transcript
-        onTranscriptUpdate((fullTranscript + ' ' + interimTranscript).trim());
       }
     };
+    
+    return instance;
+  };
+
+  /**
+   * Initialize the Web Speech API
+   */
+  const initialize = (): void => {
+    if (typeof window === 'undefined') {
+      throw new Error('Web Speech API is only available in browser environments');
+    }
+    
+    // Check if Web Speech API is supported
+    if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
+      throw new Error('Web Speech API is not supported in this browser');
+    }
+    
+    recognition = createRecognition();
   };
 
   /**
@@ -119,6 +166,7 @@ export const createWebSpeechService = (options: WebSpeechServiceOptions): WebSpe
       }
       
       // Start recognition
+      sessionStart = Date.now();
       recognition.start();
       
       // Wait for recognition to start
@@ -158,6 +206,27 @@ export const createWebSpeechService = (options: WebSpeechServiceOptions): WebSpe
     }
   };
 
+  /**
+   * Finalize the current utterance: the running recognition is stopped and delivers its last
+   * results while a new one takes over straight away
+   */
+  const flush = (): void => {
+    if (!listening || !recognition) return;
+    
+    const previous = recognition;
+    recognition = createRecognition();
+    previous.stop();
+    
+    try {
+      recognition.start();
+      console.log('Web Speech recognition handed over to a new run');
+    } catch (error) {
+      console.error('Error restarting Web Speech recognition:', error);
+      listening = false;
+      onHealthReport?.({ ok: false, error: error instanceof Error ? error.message : String(error), fatal: true });
+    }
+  };
+
   /**
    * Check if the service is currently listening
    */
@@ -168,8 +237,10 @@ export const createWebSpeechService = (options: WebSpeechServiceOptions): WebSpe
   // Return the service instance
   return {
     start,
+    resume: start, // recognition keeps no state between sessions
     stop,
     isListening,
+    flush,
   };
 };
 
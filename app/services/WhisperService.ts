@@ -3,207 +3,207 @@
  * A service for real-time speech-to-text using OpenAI's Whisper API
  */
 
+import { AudioCaptureServiceInstance, AudioFrame } from './AudioCaptureService';
+import createVoiceActivityDetector, { VadConfig, VoiceSegment } from './VoiceActivityDetector';
+import { createDroppedSegment, createSegmentId, offsetWords, segmentsToText, TranscriptSegment, TranscriptSegmentListener, upsertSegment } from './TranscriptSegment';
+import { segmentLanguage } from './Languages';
+import createSeamMerger from './TranscriptMerge';
+import { EngineReportListener } from './EngineHealth';
+import createUploadQueue, { isConnectivityError, UploadAttempt, UploadError, UploadQueueConfig } from './UploadQueue';
+import { OfflineChunkBufferInstance } from './OfflineChunkBuffer';
+
 // Define types for the service
 export interface WhisperServiceOptions {
-  onTranscriptUpdate: (text: string) => void;
+  onSegment: TranscriptSegmentListener;
   onTranscriptionStart?: () => void;
+  onHealthReport?: EngineReportListener; // outcome and latency of every request
   apiKey?: string;
   language?: string;
-  sampleRate?: number;
-  bufferSize?: number;
+  vocabulary?: string[]; // medical terms Whisper should spell consistently
+  capture: AudioCaptureServiceInstance;
+  vad?: VadConfig;
+  upload?: UploadQueueConfig;
+  offlineBuffer?: OfflineChunkBufferInstance; // holds chunks while the network is down
   debug?: boolean;
 }
 
 export interface WhisperServiceInstance {
   start: () => Promise<void>;
+  resume: () => Promise<void>; // continue the session after stop() without starting a new one
   stop: () => void;
   isListening: () => boolean;
+  flush: () => void;
   updateLanguage: (newLanguage: string) => void;
 }
 
-// Speech detection state
-interface SpeechState {
-  isSpeaking: boolean;
-  lastSpeechTime: number;
-  currentSentence: string;
-  silenceStart: number | null;
-}
-
 export const createWhisperService = (options: WhisperServiceOptions): WhisperServiceInstance => {
   // Default options
   const {
-    onTranscriptUpdate,
+    onSegment,
     onTranscriptionStart,
+    onHealthReport,
     apiKey = typeof window !== 'undefined' ? 
       process.env.NEXT_PUBLIC_OPENAI_API_KEY || '' : '',
     language = 'en',
-    sampleRate = 16000,
-    bufferSize = 4096,
+    vocabulary = [],
+    capture,
+    vad = {},
+    upload = {},
+    offlineBuffer,
     debug = true, // Enable debug mode by default
   } = options;
 
+  // Characters of confirmed transcript sent along as context for the next chunk
+  const promptTailLength = 500;
+
   // Store the language in a variable that can be updated
   let currentLanguage = language;
 
   console.log(`Creating WhisperService with language: ${currentLanguage}`);
 
   // Service state
-  let audioContext: AudioContext | null = null;
-  let mediaStream: MediaStream | null = null;
-  let processor: ScriptProcessorNode | null = null;
-  let input: MediaStreamAudioSourceNode | null = null;
+  let unsubscribe: (() => void) | null = null;
   let isCurrentlyListening = false;
-  let audioChunks: Float32Array[] = [];
-  let finalizationTimer: NodeJS.Timeout | null = null;
-  
-  // Speech detection state
-  const speechState: SpeechState = {
-    isSpeaking: false,
-    lastSpeechTime: 0,
-    currentSentence: '',
-    silenceStart: null,
-  };
+  let recentSegments: TranscriptSegment[] = [];
+  let contextReady: Promise<void> = Promise.resolve(); // settles once the latest chunk's transcript is in the context
+
+  // Voice activity detection decides where each chunk starts and ends
+  const detector = createVoiceActivityDetector({
+    // Repeat the last second after a cut so a word spoken across it is heard whole
+    overlapMs: 1000,
+    ...vad,
+    debug,
+    onSegment: (segment) => {
+      contextReady = merger.submit(segment.overlapMs, finalizeSentence(segment, contextReady));
+    },
+  });
 
-  // Constants for speech detection
-  const noiseThreshold = 0.005;
-  const silenceThreshold = 1000;
-  const maxRecordingTime = 3000; // Force finalization after 3 seconds
+  // Emits the chunk transcripts in order, without the words repeated at the cuts
+  const merger = createSeamMerger({
+    onSegment: (transcript) => {
+      rememberContext(transcript);
+      onSegment(transcript);
+    },
+    debug,
+  });
+
+  // Uploads the chunks of a session in order, retrying temporary failures. A chunk is only queued
+  // once the previous one's transcript is in its prompt, so Whisper uploads run one after another
+  const uploads = createUploadQueue({ ...upload, label: 'Whisper chunk', debug });
 
   /**
-   * Process audio data from the microphone
+   * Keep the latest confirmed segments, replacing ones corrected at a chunk seam
    */
-  const processAudioData = (inputData: Float32Array): void => {
-    // Add the audio chunk to the buffer
-    audioChunks.push(new Float32Array(inputData));
-    
-    // Check if we have collected enough audio to force finalization
-    // This is a fallback in case silence detection doesn't work
-    if (audioChunks.length > 50) { // Reduced from 100 to 50 (about 1 second of audio)
-      if (debug) console.log(`Forcing finalization after ${audioChunks.length} chunks`);
-      finalizeSentence();
-      return;
-    }
-    
-    // Check if the user is speaking
-    const volume = calculateVolume(inputData);
-    const now = Date.now();
-    
-    // Log volume occasionally
-    if (debug && audioChunks.length % 10 === 0) {
-      console.log(`Current volume: ${volume.toFixed(4)}, threshold: ${noiseThreshold}, speaking: ${volume > noiseThreshold}`);
-    }
-    
-    if (volume > noiseThreshold) {
-      // User is speaking
-      speechState.isSpeaking = true;
-      speechState.lastSpeechTime = now;
-      speechState.silenceStart = null;
-      
-      // Log when speech is detected
-      if (debug && audioChunks.length % 10 === 0) {
-        console.log('Speech detected');
-      }
-    } else if (speechState.isSpeaking) {
-      // User was speaking but has stopped
-      if (speechState.silenceStart === null) {
-        speechState.silenceStart = now;
-        if (debug) console.log('Silence started after speech');
-      } else if (now - speechState.silenceStart > silenceThreshold) {
-        // Silence has been detected for long enough, finalize the sentence
-        if (debug) console.log(`Silence threshold reached (${now - speechState.silenceStart}ms > ${silenceThreshold}ms), finalizing sentence`);
-        finalizeSentence();
-      } else if (debug && audioChunks.length % 10 === 0) {
-        // Log silence duration occasionally
-        console.log(`Silence duration: ${now - speechState.silenceStart}ms / ${silenceThreshold}ms`);
-      }
-    }
+  const rememberContext = (transcript: TranscriptSegment): void => {
+    if (transcript.dropped) return;
+    recentSegments = upsertSegment(recentSegments, transcript).slice(-10);
   };
 
   /**
-   * Calculate the volume of an audio buffer
+   * The end of the confirmed transcript, starting at a word boundary
    */
-  const calculateVolume = (buffer: Float32Array): number => {
-    let sum = 0;
-    for (let i = 0; i < buffer.length; i++) {
-      sum += buffer[i] * buffer[i];
-    }
-    return Math.sqrt(sum / buffer.length);
+  const getPromptTail = (): string => {
+    const text = segmentsToText(recentSegments);
+    if (text.length <= promptTailLength) return text;
+
+    const tail = text.slice(-promptTailLength);
+    const firstSpace = tail.indexOf(' ');
+    return firstSpace === -1 ? tail : tail.slice(firstSpace + 1);
   };
 
   /**
-   * Finalize the current sentence and send it to the Whisper API
+   * Send one attempt of a sentence to the Whisper API
    */
-  const finalizeSentence = async (): Promise<void> => {
-    if (audioChunks.length === 0) {
-      if (debug) console.log('No audio chunks to finalize');
-      return;
-    }
-    
-    if (debug) console.log(`Finalizing sentence with ${audioChunks.length} chunks`);
-    
-    // Reset speech state
-    speechState.isSpeaking = false;
-    speechState.silenceStart = null;
-    
-    // Convert audio chunks to a single buffer
-    const totalLength = audioChunks.reduce((acc, chunk) => acc + chunk.length, 0);
-    const audioBuffer = new Float32Array(totalLength);
-    
-    let offset = 0;
-    for (const chunk of audioChunks) {
-      audioBuffer.set(chunk, offset);
-      offset += chunk.length;
-    }
-    
-    if (debug) console.log(`Created audio buffer with ${totalLength} samples`);
-    
-    // Clear audio chunks
-    audioChunks = [];
-    
-    // Convert to WAV format
-    const wavBuffer = float32ToWav(audioBuffer, sampleRate);
-    
-    if (debug) console.log(`Converted to WAV format, size: ${wavBuffer.byteLength} bytes`);
+  const transcribe = async (segment: Pick<VoiceSegment, 'startTime' | 'endTime'>, audio: Blob, { sequence, attempt, signal }: UploadAttempt): Promise<TranscriptSegment[]> => {
+    const requestStart = Date.now();
     
     try {
-      // Notify that transcription is starting
-      if (onTranscriptionStart) {
-        onTranscriptionStart();
-      }
-      
       // Send to server for Whisper API processing
       const formData = new FormData();
-      const audioBlob = new Blob([wavBuffer], { type: 'audio/wav' });
-      formData.append('audio', audioBlob);
+      formData.append('audio', audio);
       formData.append('language', currentLanguage);
       
-      console.log(`Sending audio to Whisper API with language: ${currentLanguage}`);
+      // Context so consecutive chunks keep the same spelling, casing and punctuation
+      const promptTail = getPromptTail();
+      if (promptTail) {
+        formData.append('prompt', promptTail);
+      }
+      if (vocabulary.length > 0) {
+        formData.append('vocabulary', JSON.stringify(vocabulary));
+      }
+      
+      console.log(`Sending chunk #${sequence} (attempt ${attempt}) to Whisper API with language: ${currentLanguage}, ${promptTail.length} characters of context`);
       
       const response = await fetch('/api/whisper', {
         method: 'POST',
         body: formData,
+        signal,
       });
       
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`Failed to transcribe audio: ${response.statusText}, ${errorText}`);
+        throw new UploadError(`Failed to transcribe audio: ${response.statusText}, ${errorText}`, response.status);
       }
       
       const data = await response.json();
+      onHealthReport?.({ ok: true, latencyMs: Date.now() - requestStart });
       
       if (debug) console.log(`Received response from Whisper API:`, data);
       
       if (data.text) {
-        speechState.currentSentence += data.text + ' ';
-        onTranscriptUpdate(speechState.currentSentence.trim());
+        return [{
+          id: createSegmentId('whisper'),
+          status: 'final',
+          startTime: segment.startTime,
+          endTime: segment.endTime,
+          text: data.text.trim(),
+          engine: 'whisper',
+          words: offsetWords(data.words, segment.startTime),
+          language: segmentLanguage(data.language, currentLanguage),
+        }];
       } else {
         if (debug) console.log('No text in response from Whisper API');
+        return [];
       }
     } catch (error) {
       console.error('Error transcribing audio with Whisper:', error);
+      // A dropped connection is not the engine's fault; the chunk waits for the network instead
+      if (!isConnectivityError(error)) {
+        onHealthReport?.({ ok: false, latencyMs: Date.now() - requestStart, error: error instanceof Error ? error.message : String(error) });
+      }
+      throw error;
     }
   };
 
+  /**
+   * Finalize the current sentence: queue its upload once the previous chunk's transcript is in the
+   * prompt context, holding it while offline and marking the audio as missing if it fails for good
+   */
+  const finalizeSentence = (segment: VoiceSegment, previousContext: Promise<void>): Promise<TranscriptSegment[]> => {
+    if (debug) console.log(`Finalizing sentence with ${segment.samples.length} samples (${segment.reason})`);
+    
+    // Convert to WAV format
+    const wavBuffer = float32ToWav(segment.samples, segment.sampleRate);
+    
+    if (debug) console.log(`Converted to WAV format, size: ${wavBuffer.byteLength} bytes`);
+    
+    // Notify that transcription is starting
+    if (onTranscriptionStart) {
+      onTranscriptionStart();
+    }
+    
+    const audio = new Blob([wavBuffer], { type: 'audio/wav' });
+    const span = { startTime: segment.startTime, endTime: segment.endTime };
+    const uploadChunk = (stored: Blob) => previousContext
+      .catch(() => undefined)
+      .then(() => uploads.add((attempt) => transcribe(span, stored, attempt)).result);
+    
+    return (offlineBuffer ? offlineBuffer.send(audio, uploadChunk) : uploadChunk(audio)).catch(() => {
+      console.warn(`Whisper chunk at ${Math.round(span.startTime / 1000)}s dropped, marking ${Math.round(span.endTime - span.startTime)}ms as not transcribed`);
+      return [createDroppedSegment('whisper', span.startTime, span.endTime)];
+    });
+  };
+
   /**
    * Convert Float32Array to WAV format
    */
@@ -257,6 +257,18 @@ export const createWhisperService = (options: WhisperServiceOptions): WhisperSer
     }
   };
 
+  /**
+   * Receive frames from the shared capture pipeline
+   */
+  const listen = (): void => {
+    unsubscribe = capture.subscribeFrames((frame: AudioFrame) => {
+      detector.process(frame);
+    });
+    
+    // Update state
+    isCurrentlyListening = true;
+  };
+
   /**
    * Start the speech recognition service
    */
@@ -266,46 +278,13 @@ export const createWhisperService = (options: WhisperServiceOptions): WhisperSer
     console.log(`Starting WhisperService with language: ${currentLanguage}`);
     
     try {
-      // Request microphone access
-      mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      
-      // Create audio context
-      audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate,
-      });
-      
-      // Create audio source
-      input = audioContext.createMediaStreamSource(mediaStream);
-      
-      // Create script processor
-      processor = audioContext.createScriptProcessor(bufferSize, 1, 1);
-      
-      // Process audio data
-      processor.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        processAudioData(inputData);
-      };
-      
-      // Connect nodes
-      input.connect(processor);
-      processor.connect(audioContext.destination);
-      
-      // Update state
-      isCurrentlyListening = true;
-      speechState.currentSentence = '';
-      audioChunks = []; // Clear any existing audio chunks
-      
-      // Set up a timer to force finalization after maxRecordingTime
-      if (finalizationTimer) {
-        clearTimeout(finalizationTimer);
-      }
+      // Recalibrate the detector to the current room and begin a new session
+      detector.reset();
+      merger.reset();
+      uploads.reset();
+      recentSegments = [];
       
-      finalizationTimer = setTimeout(() => {
-        if (debug) console.log(`Forcing finalization after ${maxRecordingTime}ms timer`);
-        if (audioChunks.length > 0) {
-          finalizeSentence();
-        }
-      }, maxRecordingTime);
+      listen();
       
       console.log('Whisper service started');
     } catch (error) {
@@ -314,58 +293,46 @@ export const createWhisperService = (options: WhisperServiceOptions): WhisperSer
     }
   };
 
+  /**
+   * Continue after a pause, keeping the chunk numbering, the transcript seams and the prompt context
+   */
+  const resume = async (): Promise<void> => {
+    if (isCurrentlyListening) return;
+    
+    listen();
+    
+    console.log('Whisper service resumed');
+  };
+
   /**
    * Stop the speech recognition service
    */
   const stop = (): void => {
     if (!isCurrentlyListening) return;
     
-    // Clear the finalization timer
-    if (finalizationTimer) {
-      clearTimeout(finalizationTimer);
-      finalizationTimer = null;
-    }
+    // Finalize any remaining speech
+    detector.flush();
     
-    // Finalize any remaining audio
-    if (audioChunks.length > 0) {
-      if (debug) console.log(`Finalizing ${audioChunks.length} chunks on stop`);
-      finalizeSentence();
-    }
-    
-    // Disconnect and clean up
-    if (processor && input) {
-      try {
-        input.disconnect(processor);
-        processor.disconnect();
-      } catch (e) {
-        console.error('Error disconnecting audio nodes:', e);
-      }
-    }
-    
-    // Stop the media stream
-    if (mediaStream) {
-      mediaStream.getTracks().forEach(track => track.stop());
-    }
-    
-    // Close the audio context
-    if (audioContext && audioContext.state !== 'closed') {
-      try {
-        audioContext.close();
-      } catch (e) {
-        console.error('Error closing audio context:', e);
-      }
+    // Stop receiving frames
+    if (unsubscribe) {
+      unsubscribe();
+      unsubscribe = null;
     }
     
     // Reset state
-    processor = null;
-    input = null;
-    mediaStream = null;
-    audioContext = null;
     isCurrentlyListening = false;
     
     console.log('Whisper service stopped');
   };
 
+  /**
+   * Send the speech heard so far without waiting for a pause; listening carries on
+   */
+  const flush = (): void => {
+    if (!isCurrentlyListening) return;
+    detector.cut();
+  };
+
   /**
    * Check if the service is currently listening
    */
@@ -376,8 +343,10 @@ export const createWhisperService = (options: WhisperServiceOptions): WhisperSer
   // Return the service instance with an additional method to update the language
   return {
     start,
+    resume,
     stop,
     isListening,
+    flush,
     updateLanguage: (newLanguage: string) => {
       currentLanguage = newLanguage;
       console.log(`Updated WhisperService language to: ${currentLanguage}`);
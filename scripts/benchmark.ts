@@ -0,0 +1,430 @@
+/**
+ * benchmark.ts
+ * Runs a local audio corpus through the transcription routes and reports WER, CER, clinic
+ * vocabulary recall and latency per engine and language
+ *
+ * Usage: npm run benchmark -- --corpus <dir> [--engines whisper,assemblyAINano,googleSpeech]
+ *   [--language en-US] [--vocabulary terms.csv] [--out benchmark-results]
+ *   [--record responses.json | --replay responses.json]
+ *
+ * The corpus holds WAV files next to reference transcripts of the same name (visit-01.wav and
+ * visit-01.txt). Files inside a folder named after a language (de-DE/visit-01.wav) are
+ * transcribed in that language, the others in --language.
+ *
+ * With --record the provider responses are saved as they arrive; --replay answers from such a
+ * file instead of calling the providers, so runs are repeatable and need no credentials.
+ * Replayed latencies only cover the route itself. Benchmark requests are not added to the usage
+ * metrics.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import { POST as whisperRoute } from '../app/api/whisper/route';
+import { POST as assemblyAIRoute } from '../app/api/assemblyai/transcribe/route';
+import { POST as googleRoute } from '../app/api/google/transcribe/route';
+import { POST as selfHostedRoute } from '../app/api/selfhosted/transcribe/route';
+import {
+  FileEngine,
+  ProviderClient,
+  ProviderResult,
+  setProviderClient,
+  transcribeWithAssemblyAINano,
+  transcribeWithGoogle,
+  transcribeWithSelfHosted,
+  transcribeWithWhisper,
+} from '../app/lib/transcriptionProviders';
+import { setUsageRecording } from '../app/lib/usageMetrics';
+import { computeCer, computeTermRecall, computeWer, ErrorRate, TermRecall } from '../app/services/Accuracy';
+import { DEFAULT_LANGUAGE, getEngineLanguageCode, getLanguage, supportsLanguage } from '../app/services/Languages';
+import {
+  parseVocabularyCsv,
+  toAssemblyAIWordBoost,
+  toGoogleSpeechContexts,
+  toWhisperVocabulary,
+  VocabularyTerm,
+} from '../app/services/Vocabulary';
+
+interface BenchmarkOptions {
+  corpus: string;
+  engines: FileEngine[];
+  language: string;
+  vocabulary: VocabularyTerm[];
+  out: string;
+  record?: string;
+  replay?: string;
+}
+
+interface CorpusFile {
+  name: string; // path relative to the corpus
+  audioPath: string;
+  reference: string;
+  language: string;
+}
+
+export interface FileResult {
+  file: string;
+  engine: FileEngine;
+  language: string;
+  transcript: string;
+  wer: ErrorRate | null;
+  cer: ErrorRate | null;
+  terms: TermRecall | null; // clinic vocabulary mentioned in the reference and found in the transcript
+  latencyMs: number;
+  error?: string;
+}
+
+export interface EngineSummary {
+  engine: FileEngine;
+  language: string;
+  files: number;
+  failures: number;
+  wer: number | null; // errors over reference words of the whole group, not an average of files
+  cer: number | null;
+  termRecall: number | null;
+  averageLatencyMs: number | null;
+  p95LatencyMs: number | null;
+}
+
+export interface BenchmarkReport {
+  createdAt: string;
+  corpus: string;
+  mode: 'live' | 'replay';
+  vocabularyTerms: number;
+  summaries: EngineSummary[];
+  files: FileResult[];
+}
+
+// Recorded provider responses per engine, keyed by the SHA-256 of the audio
+type RecordedResponses = Partial<Record<FileEngine, Record<string, ProviderResult>>>;
+
+// How each engine is reached: its route, and the form fields its client service sends
+const ROUTES: Record<FileEngine, {
+  path: string;
+  handler: (request: NextRequest) => Promise<Response>;
+  fields: (terms: VocabularyTerm[]) => Record<string, string>;
+}> = {
+  whisper: {
+    path: '/api/whisper',
+    handler: whisperRoute,
+    fields: (terms) => ({ vocabulary: JSON.stringify(toWhisperVocabulary(terms)) }),
+  },
+  assemblyAINano: {
+    path: '/api/assemblyai/transcribe',
+    handler: assemblyAIRoute,
+    fields: (terms) => ({ wordBoost: JSON.stringify(toAssemblyAIWordBoost(terms)) }),
+  },
+  googleSpeech: {
+    path: '/api/google/transcribe',
+    handler: googleRoute,
+    fields: (terms) => ({ speechContexts: JSON.stringify(toGoogleSpeechContexts(terms)) }),
+  },
+  realtime: {
+    path: '/api/selfhosted/transcribe',
+    handler: selfHostedRoute,
+    fields: (terms) => ({ vocabulary: JSON.stringify(toWhisperVocabulary(terms)) }),
+  },
+};
+
+// The real provider clients, wrapped when responses are recorded
+const PROVIDER_CLIENTS: Record<FileEngine, ProviderClient> = {
+  whisper: transcribeWithWhisper,
+  assemblyAINano: transcribeWithAssemblyAINano,
+  googleSpeech: transcribeWithGoogle,
+  realtime: transcribeWithSelfHosted,
+};
+
+/**
+ * Read the command line
+ */
+const parseArgs = (argv: string[]): BenchmarkOptions => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args.set(argv[i].slice(2), argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true');
+    }
+  }
+
+  const corpus = args.get('corpus');
+  if (!corpus) {
+    throw new Error('--corpus <dir> is required');
+  }
+
+  const engines = (args.get('engines') || 'whisper,assemblyAINano,googleSpeech').split(',').map((engine) => engine.trim());
+  const unknown = engines.filter((engine) => !(engine in ROUTES));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown engines: ${unknown.join(', ')} (use ${Object.keys(ROUTES).join(', ')})`);
+  }
+
+  if (args.has('record') && args.has('replay')) {
+    throw new Error('--record and --replay cannot be combined');
+  }
+
+  const vocabularyPath = args.get('vocabulary');
+
+  return {
+    corpus: path.resolve(corpus),
+    engines: engines as FileEngine[],
+    language: args.get('language') || DEFAULT_LANGUAGE,
+    vocabulary: vocabularyPath ? parseVocabularyCsv(fs.readFileSync(vocabularyPath, 'utf8')) : [],
+    out: path.resolve(args.get('out') || 'benchmark-results'),
+    record: args.get('record'),
+    replay: args.get('replay'),
+  };
+};
+
+/**
+ * Find the WAV files of the corpus that have a reference transcript
+ */
+const loadCorpus = (root: string, defaultLanguage: string): CorpusFile[] => {
+  const files: CorpusFile[] = [];
+
+  const visit = (dir: string, language: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        visit(fullPath, getLanguage(entry.name) ? entry.name : language);
+      } else if (entry.name.toLowerCase().endsWith('.wav')) {
+        const referencePath = fullPath.replace(/\.wav$/i, '.txt');
+        if (!fs.existsSync(referencePath)) {
+          console.warn(`Skipping ${entry.name}: no reference transcript`);
+          continue;
+        }
+
+        files.push({
+          name: path.relative(root, fullPath),
+          audioPath: fullPath,
+          reference: fs.readFileSync(referencePath, 'utf8').trim(),
+          language,
+        });
+      }
+    }
+  };
+
+  visit(root, defaultLanguage);
+  return files;
+};
+
+/**
+ * Key of recorded responses: the audio itself, so renamed files still match
+ */
+const hashAudio = (buffer: Buffer): string => createHash('sha256').update(buffer).digest('hex');
+
+/**
+ * Replace the provider clients with recorded responses, or with recorders of the real ones
+ */
+const installProviderClients = (options: BenchmarkOptions): (() => void) => {
+  if (options.replay) {
+    const recorded: RecordedResponses = JSON.parse(fs.readFileSync(options.replay, 'utf8'));
+
+    options.engines.forEach((engine) => {
+      setProviderClient(engine, async (buffer) => {
+        const response = recorded[engine]?.[hashAudio(buffer)];
+        if (!response) {
+          throw new Error(`No recorded ${engine} response for this audio`);
+        }
+        return response;
+      });
+    });
+    return () => undefined;
+  }
+
+  if (options.record) {
+    const recordPath = options.record;
+    const recorded: RecordedResponses = fs.existsSync(recordPath) ? JSON.parse(fs.readFileSync(recordPath, 'utf8')) : {};
+
+    options.engines.forEach((engine) => {
+      setProviderClient(engine, async (buffer, providerOptions) => {
+        const response = await PROVIDER_CLIENTS[engine](buffer, providerOptions);
+        recorded[engine] = { ...recorded[engine], [hashAudio(buffer)]: response };
+        return response;
+      });
+    });
+    return () => fs.writeFileSync(recordPath, JSON.stringify(recorded, null, 2));
+  }
+
+  return () => undefined;
+};
+
+/**
+ * Send one file through an engine's route and score the transcript
+ */
+const runFile = async (file: CorpusFile, engine: FileEngine, terms: VocabularyTerm[]): Promise<FileResult> => {
+  const route = ROUTES[engine];
+  const audio = fs.readFileSync(file.audioPath);
+
+  const form = new FormData();
+  form.append('audio', new File([audio], path.basename(file.audioPath), { type: 'audio/wav' }));
+  form.append('language', getEngineLanguageCode(file.language, engine));
+  Object.entries(route.fields(terms)).forEach(([name, value]) => form.append(name, value));
+
+  const request = new NextRequest(`http://localhost${route.path}`, { method: 'POST', body: form });
+
+  const startedAt = performance.now();
+  let data: { text?: string; error?: string; details?: string } = {};
+  let status = 0;
+  try {
+    const response = await route.handler(request);
+    status = response.status;
+    data = await response.json();
+  } catch (error) {
+    data = { error: error instanceof Error ? error.message : String(error) };
+  }
+  const latencyMs = Math.round(performance.now() - startedAt);
+
+  if (status !== 200 || typeof data.text !== 'string') {
+    return {
+      file: file.name,
+      engine,
+      language: file.language,
+      transcript: '',
+      wer: null,
+      cer: null,
+      terms: null,
+      latencyMs,
+      error: [data.error || `HTTP ${status}`, data.details].filter(Boolean).join(': '),
+    };
+  }
+
+  return {
+    file: file.name,
+    engine,
+    language: file.language,
+    transcript: data.text,
+    wer: computeWer(file.reference, data.text),
+    cer: computeCer(file.reference, data.text),
+    terms: computeTermRecall(file.reference, data.text, terms.map((term) => term.term)),
+    latencyMs,
+  };
+};
+
+/**
+ * Total errors over the total reference length of a group of files
+ */
+const pooledRate = (rates: ErrorRate[]): number | null => {
+  const referenceLength = rates.reduce((sum, rate) => sum + rate.referenceLength, 0);
+  if (referenceLength === 0) return null;
+  return rates.reduce((sum, rate) => sum + rate.substitutions + rate.deletions + rate.insertions, 0) / referenceLength;
+};
+
+/**
+ * Summarize the results per engine and language
+ */
+export const summarize = (results: FileResult[]): EngineSummary[] => {
+  const groups = new Map<string, FileResult[]>();
+  results.forEach((result) => {
+    const key = `${result.engine}\u0000${result.language}`;
+    groups.set(key, [...(groups.get(key) || []), result]);
+  });
+
+  return Array.from(groups.values()).map((group) => {
+    const succeeded = group.filter((result) => !result.error);
+    const latencies = succeeded.map((result) => result.latencyMs).sort((a, b) => a - b);
+
+    // Vocabulary recall pooled over every mention in the group
+    const recalls = succeeded.map((result) => result.terms as TermRecall);
+    const expected = recalls.reduce((sum, recall) => sum + recall.expected, 0);
+
+    return {
+      engine: group[0].engine,
+      language: group[0].language,
+      files: group.length,
+      failures: group.length - succeeded.length,
+      wer: pooledRate(succeeded.map((result) => result.wer as ErrorRate)),
+      cer: pooledRate(succeeded.map((result) => result.cer as ErrorRate)),
+      termRecall: expected > 0 ? recalls.reduce((sum, recall) => sum + recall.found, 0) / expected : null,
+      averageLatencyMs: latencies.length > 0 ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length) : null,
+      p95LatencyMs: latencies.length > 0 ? latencies[Math.min(latencies.length - 1, Math.ceil(latencies.length * 0.95) - 1)] : null,
+    };
+  });
+};
+
+/**
+ * Render the report as Markdown
+ */
+export const toMarkdown = (report: BenchmarkReport): string => {
+  const percent = (value: number | null) => (value === null ? '–' : `${(value * 100).toFixed(1)}%`);
+  const ms = (value: number | null) => (value === null ? '–' : `${value} ms`);
+
+  const lines = [
+    `# STT benchmark ${report.createdAt}`,
+    '',
+    `Corpus: \`${report.corpus}\` · ${report.mode === 'replay' ? 'replayed responses' : 'live providers'} · ${report.vocabularyTerms} vocabulary terms`,
+    '',
+    '| Engine | Language | Files | Failed | WER | CER | Term recall | Avg latency | p95 latency |',
+    '| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+    ...report.summaries.map((summary) =>
+      `| ${summary.engine} | ${summary.language} | ${summary.files} | ${summary.failures} | ${percent(summary.wer)} | ${percent(summary.cer)} | ${percent(summary.termRecall)} | ${ms(summary.averageLatencyMs)} | ${ms(summary.p95LatencyMs)} |`
+    ),
+  ];
+
+  const failed = report.files.filter((result) => result.error);
+  if (failed.length > 0) {
+    lines.push('', '## Failures', '', ...failed.map((result) => `- ${result.engine} · ${result.file}: ${result.error}`));
+  }
+
+  const missed = report.files.filter((result) => result.terms && result.terms.missed.length > 0);
+  if (missed.length > 0) {
+    lines.push('', '## Missed vocabulary', '', ...missed.map((result) => `- ${result.engine} · ${result.file}: ${result.terms?.missed.join(', ')}`));
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Run the benchmark
+ */
+const main = async (): Promise<void> => {
+  const options = parseArgs(process.argv.slice(2));
+  const corpus = loadCorpus(options.corpus, options.language);
+  if (corpus.length === 0) {
+    throw new Error(`No WAV files with reference transcripts in ${options.corpus}`);
+  }
+
+  // Benchmark requests are not consultations; keep them out of the usage and cost figures
+  setUsageRecording(false);
+
+  const saveRecording = installProviderClients(options);
+  const results: FileResult[] = [];
+
+  // One request at a time, so latencies are not skewed by parallel uploads
+  for (const engine of options.engines) {
+    for (const file of corpus) {
+      if (!supportsLanguage(engine, file.language)) {
+        console.warn(`Skipping ${file.name} for ${engine}: ${file.language} is not supported`);
+        continue;
+      }
+
+      const result = await runFile(file, engine, options.vocabulary);
+      results.push(result);
+      console.log(`${engine} ${file.name}: ${result.error ? `failed (${result.error})` : `WER ${((result.wer as ErrorRate).rate * 100).toFixed(1)}%, ${result.latencyMs} ms`}`);
+    }
+  }
+
+  saveRecording();
+
+  const report: BenchmarkReport = {
+    createdAt: new Date().toISOString(),
+    corpus: options.corpus,
+    mode: options.replay ? 'replay' : 'live',
+    vocabularyTerms: options.vocabulary.length,
+    summaries: summarize(results),
+    files: results,
+  };
+
+  const markdown = toMarkdown(report);
+  const baseName = `benchmark-${report.createdAt.replace(/[:.]/g, '-')}`;
+  fs.mkdirSync(options.out, { recursive: true });
+  fs.writeFileSync(path.join(options.out, `${baseName}.json`), JSON.stringify(report, null, 2));
+  fs.writeFileSync(path.join(options.out, `${baseName}.md`), markdown);
+
+  console.log('\n' + markdown);
+  console.log(`Report written to ${path.join(options.out, baseName)}.{json,md}`);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});